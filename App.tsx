@@ -1,16 +1,93 @@
-import React, { useState, useRef } from 'react';
-import { generateNarration, generateImage } from './services/geminiService';
-import { GeneratedContent, GenerationState, GenerationMode } from './types';
-import { PlayIcon, PauseIcon, VideoIcon, SparklesIcon, DownloadIcon, PhotoIcon } from './components/Icons';
+import React, { useState, useRef, useMemo } from 'react';
+import {
+  AssetOutcome,
+  AssetTask,
+  DEFAULT_ASSET_CONCURRENCY,
+  emptySceneResults,
+  planAssetTasks,
+  requeueTask,
+  runAssetPipeline,
+  tasksForResults,
+} from './services/assetPipeline';
+import { KeyStore, loadKeyStore, saveKeyStore } from './services/apiKeys';
+import { checkBudget, estimateGenerationCost, keyIdFor, loadBudget, loadPrices } from './services/usageTracker';
+import {
+  TTS_PROVIDERS,
+  IMAGE_PROVIDERS,
+  SCRIPT_PROVIDERS,
+  getTtsProvider,
+  getImageProvider,
+  getScriptProvider,
+  loadTtsProviderId,
+  loadImageProviderId,
+  loadScriptProviderId,
+  saveTtsProviderId,
+  saveImageProviderId,
+  saveScriptProviderId
+} from './services/providers';
+import { renderFrame, renderVideo, RenderedVideo } from './services/videoRenderer';
+import { resolveSceneOverlays } from './services/overlays';
+import { createProject, updateScene } from './services/project';
+import { scriptToScenes } from './services/scriptWriter';
+import { ChunkingOptions, loadChunkingOptions, saveChunkingOptions } from './services/chunker';
+import { PronunciationEntry, loadLexicon, saveLexicon } from './services/narrationMarkup';
+import { offsetCaptions, captionsToSrt, captionsToVtt } from './services/captions';
+import { downloadBlob, downloadText } from './services/download';
+import { ProjectFileKind, exportProject, importProject } from './services/projectFile';
+import { slugify } from './services/batch';
+import { HistoryEntry, saveToHistory, restoreHistoryEntry, revokeResultUrls } from './services/historyStore';
+import { MixedSoundtrack, revokeSoundtrack } from './services/audioMixer';
+import { OUTPUT_FORMATS, getOutputFormat, reframeImage } from './services/formats';
+import { addVersion, createVersionTree } from './services/imageVersions';
+import { loadStylePresets, saveStylePresets } from './services/stylePresets';
+import { VoicePreset, loadVoicePresets, saveVoicePresets } from './services/voiceCatalog';
+import { AspectRatio, GeneratedContent, GeneratedScript, GenerationState, GenerationMode, OverlayLayer, Project, Scene, StylePreset } from './types';
+import { PlayIcon, PauseIcon, VideoIcon, SparklesIcon, DownloadIcon, PhotoIcon, FilmIcon } from './components/Icons';
+import { KenBurnsPreview } from './components/KenBurnsPreview';
+import { SceneEditor } from './components/SceneEditor';
+import { HistoryGallery } from './components/HistoryGallery';
+import { ScriptWriter } from './components/ScriptWriter';
+import { NarrationSettings } from './components/NarrationSettings';
+import { PronunciationPanel } from './components/PronunciationPanel';
+import { MusicBedPanel } from './components/MusicBedPanel';
+import { AudioExportPanel } from './components/AudioExportPanel';
+import { OverlayEditor } from './components/OverlayEditor';
+import { ProjectFileMenu } from './components/ProjectFileMenu';
+import { PublishingPanel } from './components/PublishingPanel';
+import { ImageStudio } from './components/ImageStudio';
+import { WaveformEditor } from './components/WaveformEditor';
+import { StylePresetManager } from './components/StylePresetManager';
+import { VoiceGallery } from './components/VoiceGallery';
+import { BatchRunner } from './components/BatchRunner';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ApiKeyManager } from './components/ApiKeyManager';
+import { AssetProgress } from './components/AssetProgress';
+
+// Edits come in bursts (slider drags, several regenerations); save once they settle
+const HISTORY_SAVE_DELAY_MS = 1500;
+
+/**
+ * The library entry the current results belong to, and the state last saved
+ * to it. A new generation or a loaded project starts a new session.
+ */
+interface HistorySession {
+  entryId: string | null;
+  saved: { results: GeneratedContent[]; overlays?: OverlayLayer[] } | null;
+}
 
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState('');
   const [showKeyInput, setShowKeyInput] = useState(false);
-  const [narrationInput, setNarrationInput] = useState('');
-  const [visualPromptInput, setVisualPromptInput] = useState('');
-  const [speakingRate, setSpeakingRate] = useState(1.0);
-  const [selectedVoice, setSelectedVoice] = useState('Kore');
+  const [keyStore, setKeyStore] = useState<KeyStore>(loadKeyStore);
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  const [apiKeyLabel, setApiKeyLabel] = useState('');
+  const [project, setProject] = useState<Project>(() => createProject());
   const [generationMode, setGenerationMode] = useState<GenerationMode>('both');
+  const [ttsProviderId, setTtsProviderId] = useState(loadTtsProviderId);
+  const [imageProviderId, setImageProviderId] = useState(loadImageProviderId);
+  const [scriptProviderId, setScriptProviderId] = useState(loadScriptProviderId);
+  const [chunking, setChunking] = useState<ChunkingOptions>(loadChunkingOptions);
+  const [lexicon, setLexicon] = useState<PronunciationEntry[]>(loadLexicon);
 
   const [generationState, setGenerationState] = useState<GenerationState>({
     isGenerating: false,
@@ -19,102 +96,279 @@ const App: React.FC = () => {
     progressMessage: '',
   });
 
-  const [result, setResult] = useState<GeneratedContent | null>(null);
+  const [results, setResults] = useState<GeneratedContent[] | null>(null);
+  // Latest rendered results, for callbacks of runs started with older ones
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [renderedVideo, setRenderedVideo] = useState<RenderedVideo | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [assetTasks, setAssetTasks] = useState<AssetTask[]>([]);
+  // Single-asset regenerations in flight, cancelled when the results are replaced
+  const assetRegenerationsRef = useRef(new Set<AbortController>());
+  const [soundtrack, setSoundtrack] = useState<MixedSoundtrack | null>(null);
+  const [isReframing, setIsReframing] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [showSafeAreas, setShowSafeAreas] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(loadStylePresets);
+  const [showStyles, setShowStyles] = useState(false);
+  const [voicePresets, setVoicePresets] = useState<VoicePreset[]>(loadVoicePresets);
+  // Open voice gallery, and the scene it picks for (null when browsing)
+  const [voiceGallery, setVoiceGallery] = useState<{ sceneId: string | null } | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+
+  const historySessionRef = useRef<HistorySession>({ entryId: null, saved: null });
+  // Saves run one at a time, so a new entry's id is known before it is updated
+  const historySaveRef = useRef<Promise<void>>(Promise.resolve());
 
   // Refs for media elements
   const audioRef = useRef<HTMLAudioElement>(null);
 
   React.useEffect(() => {
-    const savedKey = localStorage.getItem('GEMINI_API_KEY');
-    if (savedKey) {
-      setApiKey(savedKey);
-    } else {
+    // Plain profiles load straight away; encrypted ones wait for the passphrase
+    const active = keyStore.profiles.find(profile => profile.id === keyStore.activeId);
+    if (active?.key) {
+      activateApiKey(active.key, active.id, active.name);
+    } else if (active?.encrypted || getTtsProvider(ttsProviderId).requiresApiKey || getImageProvider(imageProviderId).requiresApiKey) {
       setShowKeyInput(true);
     }
   }, []);
 
-  const saveApiKey = (key: string) => {
-    localStorage.setItem('GEMINI_API_KEY', key);
+  // Keeps the library entry in step with edits, regenerations and overlays made after generating
+  React.useEffect(() => {
+    if (!results || generationState.isGenerating) return;
+    const session = historySessionRef.current;
+    if (session.saved?.results === results && session.saved.overlays === project.overlays) return;
+    const timer = window.setTimeout(() => {
+      session.saved = { results, overlays: project.overlays };
+      const snapshot = { project, results, mode: generationMode };
+      // Saving to the library is best-effort; a full disk shouldn't hide the result
+      historySaveRef.current = historySaveRef.current.then(async () => {
+        const entry = await saveToHistory(snapshot.project, snapshot.results, snapshot.mode, session.entryId ?? undefined);
+        session.entryId = entry.id;
+      }).catch((error) => {
+        console.error("Failed to save to library:", error);
+      });
+    }, HISTORY_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [results, project.overlays, generationState.isGenerating]);
+
+  const changeKeyStore = (store: KeyStore) => {
+    saveKeyStore(store);
+    setKeyStore(store);
+  };
+
+  const activateApiKey = (key: string, profileId: string | null, label: string) => {
     setApiKey(key);
-    setShowKeyInput(false);
+    setLoadedProfileId(profileId);
+    setApiKeyLabel(label);
+    if (key) setShowKeyInput(false);
   };
 
-  const removeApiKey = () => {
-    localStorage.removeItem('GEMINI_API_KEY');
-    setApiKey('');
-    setShowKeyInput(true);
+  const changeTtsProvider = (id: string) => {
+    setTtsProviderId(id);
+    saveTtsProviderId(id);
   };
 
-  const handleGenerate = async () => {
-    // Basic validation
-    if (!apiKey) {
-      setShowKeyInput(true);
+  const changeImageProvider = (id: string) => {
+    setImageProviderId(id);
+    saveImageProviderId(id);
+  };
+
+  const changeScriptProvider = (id: string) => {
+    setScriptProviderId(id);
+    saveScriptProviderId(id);
+  };
+
+  const changeChunking = (options: ChunkingOptions) => {
+    setChunking(options);
+    saveChunkingOptions(options);
+  };
+
+  const changeLexicon = (entries: PronunciationEntry[]) => {
+    setLexicon(entries);
+    saveLexicon(entries);
+  };
+
+  const changeStylePresets = (presets: StylePreset[]) => {
+    saveStylePresets(presets);
+    setStylePresets(presets);
+  };
+
+  const changeVoicePresets = (presets: VoicePreset[]) => {
+    saveVoicePresets(presets);
+    setVoicePresets(presets);
+  };
+
+  const voiceGalleryScene = project.scenes.find(scene => scene.id === voiceGallery?.sceneId);
+
+  const findStylePreset = (id?: string) => stylePresets.find(preset => preset.id === id);
+
+  const applyScript = (script: GeneratedScript) => {
+    const hasContent = project.scenes.some(scene => scene.narrationText.trim() || scene.visualPrompt.trim());
+    if (hasContent && !window.confirm('Replace the current storyboard with the new script?')) {
       return;
     }
+    // Keep the narrator and image style the user already picked for the written scenes
+    const { voice, speakingRate, stylePresetId } = project.scenes[0];
+    setProject({
+      ...project,
+      title: script.title,
+      scenes: scriptToScenes(script, voice, speakingRate).map(scene => ({ ...scene, stylePresetId }))
+    });
+  };
 
-    const needsNarration = generationMode === 'both' || generationMode === 'narration';
-    const needsImage = generationMode === 'both' || generationMode === 'image';
+  const updateAssetTask = (id: string, changes: Partial<AssetTask>) => {
+    setAssetTasks(tasks => tasks.map(task => (task.id === id ? { ...task, ...changes } : task)));
+  };
 
-    if (needsNarration && !narrationInput.trim()) {
+  // New results replace the asset list; regenerations still running belong to the old ones
+  const replaceAssetTasks = (tasks: AssetTask[]) => {
+    assetRegenerationsRef.current.forEach(controller => controller.abort());
+    assetRegenerationsRef.current.clear();
+    setAssetTasks(tasks);
+  };
+
+  const assetPipelineOptions = (signal: AbortSignal) => ({
+    concurrency: DEFAULT_ASSET_CONCURRENCY,
+    signal,
+    ttsProviderId,
+    imageProviderId,
+    apiKey,
+    aspectRatio: project.aspectRatio,
+    stylePresetFor: (scene: Scene) => findStylePreset(scene.stylePresetId),
+    chunking,
+    lexicon,
+  });
+
+  /**
+   * Soft budget: estimated spend including this run, for the current key.
+   * False when the run is blocked or the user backs out of the warning.
+   */
+  const confirmBudget = (scenes: Scene[], mode: GenerationMode): boolean => {
+    const prices = loadPrices();
+    const budgetCheck = checkBudget(
+      loadBudget(),
+      prices,
+      keyIdFor(apiKey),
+      estimateGenerationCost(scenes, mode, { tts: getTtsProvider(ttsProviderId).model, image: getImageProvider(imageProviderId).model }, prices)
+    );
+    if (budgetCheck.status === 'block') {
       setGenerationState({
         isGenerating: false,
         stage: 'error',
-        error: "Please provide narration text.",
+        error: `${budgetCheck.message} Raise the budget under Usage to continue.`,
         progressMessage: ''
       });
-      return;
+      return false;
     }
+    return budgetCheck.status !== 'warn' || window.confirm(`${budgetCheck.message} Generate anyway?`);
+  };
 
-    if (needsImage && !visualPromptInput.trim()) {
-      setGenerationState({
-        isGenerating: false,
-        stage: 'error',
-        error: "Please provide a visual description.",
-        progressMessage: ''
-      });
+  const handleGenerate = async () => {
+    const needsNarration = generationMode === 'both' || generationMode === 'narration';
+    const needsImage = generationMode === 'both' || generationMode === 'image';
+    const ttsProvider = getTtsProvider(ttsProviderId);
+    const imageProvider = getImageProvider(imageProviderId);
+
+    // Basic validation: only providers that call out to an API need a key
+    const needsApiKey = (needsNarration && ttsProvider.requiresApiKey) || (needsImage && imageProvider.requiresApiKey);
+    if (needsApiKey && !apiKey) {
+      setShowKeyInput(true);
       return;
     }
 
+    const scenes = project.scenes;
+    const sceneLabel = (index: number) => scenes.length > 1 ? `Scene ${index + 1}: ` : '';
+
+    for (const [index, scene] of scenes.entries()) {
+      let validationError: string | null = null;
+      if (needsNarration && !scene.narrationText.trim()) {
+        validationError = `${sceneLabel(index)}Please provide narration text.`;
+      } else if (needsImage && !scene.visualPrompt.trim()) {
+        validationError = `${sceneLabel(index)}Please provide a visual description.`;
+      }
+      if (validationError) {
+        setGenerationState({
+          isGenerating: false,
+          stage: 'error',
+          error: validationError,
+          progressMessage: ''
+        });
+        return;
+      }
+    }
+
+    if (!confirmBudget(scenes, generationMode)) return;
+
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    const tasks = planAssetTasks(scenes, generationMode);
+    replaceAssetTasks(tasks);
+    // Saved as a new library entry once the run settles
+    historySessionRef.current = { entryId: null, saved: null };
+    let finished = 0;
+
     setGenerationState({
       isGenerating: true,
       stage: needsNarration ? 'generating-audio' : 'generating-visuals',
       error: null,
-      progressMessage: needsNarration ? 'Generating Voiceover (TTS)...' : 'Generating Visuals...'
+      progressMessage: `Generating assets... 0/${tasks.length} done`,
+      progress: 0
     });
 
-    try {
-      let audioUrl = null;
-      let imageUrl = null;
-
-      // 1. Generate Audio if needed
-      if (needsNarration) {
-        audioUrl = await generateNarration(narrationInput, apiKey, speakingRate, selectedVoice);
+    // Results appear with the first finished asset and fill in as the others arrive
+    const emptyResults = emptySceneResults(scenes, generationMode);
+    setCurrentSceneIndex(0);
 
-        if (needsImage) {
+    try {
+      // Voiceovers and images of all scenes run side by side; each reports its own status
+      const outcomes = await runAssetPipeline(tasks, scenes, {
+        ...assetPipelineOptions(abortController.signal),
+        onOutcome: (outcome) => {
+          const scene = scenes.find(candidate => candidate.id === outcome.task.sceneId);
+          if (scene) applyAssetOutcome(scene, outcome, emptyResults);
+        },
+        onUpdate: (id, changes) => {
+          updateAssetTask(id, changes);
+          if (changes.status !== 'done' && changes.status !== 'failed') return;
+          finished++;
           setGenerationState(prev => ({
             ...prev,
-            stage: 'generating-visuals',
-            progressMessage: 'Generating 16:9 Visuals with Gemini Flash...'
+            progressMessage: `Generating assets... ${finished}/${tasks.length} done`,
+            progress: finished / tasks.length
           }));
-        }
-      }
+        },
+      });
 
-      // 2. Generate Image if needed
-      if (needsImage) {
-        imageUrl = await generateImage(visualPromptInput, apiKey);
+      const failures = outcomes.flatMap(outcome => ('error' in outcome ? [outcome.error] : []));
+
+      if (abortController.signal.aborted) {
+        // Assets finished before the cancel stay; the rest can be retried from the list
+        if (failures.length === outcomes.length) setAssetTasks([]);
+        setGenerationState({
+          isGenerating: false,
+          stage: 'idle',
+          error: null,
+          progressMessage: 'Generation cancelled.'
+        });
+        return;
       }
 
-      // 3. Complete
-      setResult({
-        audioUrl,
-        imageUrl,
-        narrationText: narrationInput,
-        visualPrompt: visualPromptInput,
-        mode: generationMode
-      });
+      if (failures.length === outcomes.length) {
+        throw new Error(failures[0]);
+      }
 
-      setGenerationState({
+      // 3. Complete, keeping whatever succeeded; failed assets are retried one by one
+      setGenerationState(failures.length > 0 ? {
+        isGenerating: false,
+        stage: 'error',
+        error: `${failures.length} of ${tasks.length} assets failed. Retry them from the asset list.`,
+        progressMessage: ''
+      } : {
         isGenerating: false,
         stage: 'complete',
         error: null,
@@ -134,6 +388,274 @@ const App: React.FC = () => {
         error: errorMessage,
         progressMessage: ''
       });
+    } finally {
+      generationAbortRef.current = null;
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  /**
+   * Puts a finished asset into its scene's result as soon as it arrives,
+   * starting from `emptyResults` during a run. Edits made to an old take or
+   * image no longer apply; the old image stays in the version history.
+   */
+  const applyAssetOutcome = (scene: Scene, outcome: AssetOutcome, emptyResults?: GeneratedContent[]) => {
+    if ('error' in outcome) return;
+    if (outcome.kind === 'narration') {
+      const replaced = resultsRef.current?.find(result => result.sceneId === scene.id);
+      if (replaced) releaseAudio(replaced);
+    }
+    setResults(current => (current ?? emptyResults)?.map(result => {
+      if (result.sceneId !== scene.id) return result;
+      if (outcome.kind === 'narration') {
+        return {
+          ...result,
+          ...outcome.narration,
+          originalAudio: undefined,
+          audioEdit: undefined,
+          narrationText: scene.narrationText,
+          voice: scene.voice,
+          speakingRate: scene.speakingRate,
+        };
+      }
+      return {
+        ...result,
+        imageUrl: outcome.imageUrl,
+        imageVersions: result.imageUrl
+          ? addVersion(result.imageVersions ?? createVersionTree(result.imageUrl), outcome.imageUrl, 'Regenerated')
+          : undefined,
+        originalImageUrl: undefined,
+        visualPrompt: scene.visualPrompt,
+      };
+    }) ?? null);
+    // The video and the music mix were made from the old asset
+    setRenderedVideo(video => {
+      if (video) URL.revokeObjectURL(video.url);
+      return null;
+    });
+    if (outcome.kind === 'narration') {
+      setSoundtrack(mix => {
+        if (mix) revokeSoundtrack(mix);
+        return null;
+      });
+    }
+  };
+
+  const handleRegenerateAsset = async (task: AssetTask) => {
+    const scene = project.scenes.find(candidate => candidate.id === task.sceneId);
+    if (!scene) return;
+    const provider = task.kind === 'narration' ? getTtsProvider(ttsProviderId) : getImageProvider(imageProviderId);
+    if (provider.requiresApiKey && !apiKey) {
+      setShowKeyInput(true);
+      return;
+    }
+    if (!confirmBudget([scene], task.kind)) return;
+
+    // The run's failure notice is about to be out of date
+    setGenerationState(prev => (prev.stage === 'error' ? { ...prev, stage: 'complete', error: null } : prev));
+    const controller = new AbortController();
+    assetRegenerationsRef.current.add(controller);
+    const queued = requeueTask(task);
+    updateAssetTask(task.id, queued);
+    try {
+      const [outcome] = await runAssetPipeline([queued], [scene], {
+        ...assetPipelineOptions(controller.signal),
+        onUpdate: updateAssetTask,
+      });
+      if (controller.signal.aborted) {
+        if ('narration' in outcome) URL.revokeObjectURL(outcome.narration.audioUrl);
+        return;
+      }
+      applyAssetOutcome(scene, outcome);
+    } finally {
+      assetRegenerationsRef.current.delete(controller);
+    }
+  };
+
+  const changeSoundtrack = (next: MixedSoundtrack | null) => {
+    if (soundtrack) revokeSoundtrack(soundtrack);
+    setSoundtrack(next);
+    // A video rendered with the old audio no longer matches
+    if (renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+      setRenderedVideo(null);
+    }
+  };
+
+  const changeOverlays = (overlays: OverlayLayer[]) => {
+    setProject({ ...project, overlays });
+    // Overlays are burned into the video, so a rendered one is now stale
+    if (renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+      setRenderedVideo(null);
+    }
+  };
+
+  // Overlays attach to scene ids; results restored without one fall back to their position
+  const sceneKey = (scene: GeneratedContent, index: number) => scene.sceneId ?? `scene-${index + 1}`;
+
+  const sceneOverlays = (scene: GeneratedContent, index: number) =>
+    resolveSceneOverlays(project.overlays, sceneKey(scene, index), index, project.title);
+
+  const outputFormat = getOutputFormat(project.aspectRatio);
+  const outputSize = `${outputFormat.width}x${outputFormat.height}`;
+
+  /**
+   * Switches the output format after generation by smart-cropping the
+   * existing images instead of regenerating them
+   */
+  const handleReframe = async (aspectRatio: AspectRatio) => {
+    if (!results || aspectRatio === project.aspectRatio) return;
+    setIsReframing(true);
+    try {
+      const reframed = await Promise.all(results.map(async (scene) => {
+        if (!scene.imageUrl) return scene;
+        const originalImageUrl = scene.originalImageUrl ?? scene.imageUrl;
+        const imageUrl = await reframeImage(originalImageUrl, aspectRatio);
+        const imageVersions = scene.imageVersions && addVersion(scene.imageVersions, imageUrl, `Reframed to ${aspectRatio}`);
+        return { ...scene, originalImageUrl, imageUrl, imageVersions };
+      }));
+      setResults(reframed);
+      setProject({ ...project, aspectRatio });
+      if (renderedVideo) {
+        URL.revokeObjectURL(renderedVideo.url);
+        setRenderedVideo(null);
+      }
+    } catch (error: any) {
+      console.error("Reframing failed:", error);
+      setGenerationState({
+        isGenerating: false,
+        stage: 'error',
+        error: error instanceof Error ? error.message : "Reframing failed.",
+        progressMessage: ''
+      });
+    } finally {
+      setIsReframing(false);
+    }
+  };
+
+  const updateResult = (index: number, changes: Partial<GeneratedContent>) => {
+    if (!results) return;
+    // Functional, so assets still streaming in from a run aren't overwritten
+    setResults(current => current && current.map((scene, i) => (i === index ? { ...scene, ...changes } : scene)));
+    if ((changes.imageUrl || changes.audioUrl) && renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+      setRenderedVideo(null);
+    }
+    // The music mix was built from the old narration
+    if (changes.audioUrl && soundtrack) changeSoundtrack(null);
+  };
+
+  const canRenderVideo = !!results && results.every(scene => scene.imageUrl && scene.audioUrl);
+
+  const handleRenderVideo = async () => {
+    if (!results || !canRenderVideo) return;
+
+    // Stop the preview so it doesn't compete with the recorder for the audio device
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    if (renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+      setRenderedVideo(null);
+    }
+
+    setGenerationState({
+      isGenerating: true,
+      stage: 'rendering-video',
+      error: null,
+      progressMessage: `Rendering ${outputSize} video...`,
+      progress: 0
+    });
+
+    try {
+      const video = await renderVideo({
+        segments: results.map((scene, index) => ({
+          imageUrl: scene.imageUrl!,
+          audioUrl: scene.audioUrl!,
+          captions: showCaptions ? scene.captions : undefined,
+          overlays: sceneOverlays(scene, index)
+        })),
+        width: outputFormat.width,
+        height: outputFormat.height,
+        soundtrackUrl: soundtrack?.mixUrl,
+        onProgress: (progress) => {
+          setGenerationState(prev => ({
+            ...prev,
+            progress,
+            progressMessage: `Rendering ${outputSize} video... ${Math.round(progress * 100)}%`
+          }));
+        }
+      });
+      setRenderedVideo(video);
+      setGenerationState({
+        isGenerating: false,
+        stage: 'complete',
+        error: null,
+        progressMessage: 'Video ready!'
+      });
+    } catch (error: any) {
+      console.error("Video rendering failed:", error);
+      setGenerationState({
+        isGenerating: false,
+        stage: 'error',
+        error: error instanceof Error ? error.message : "Video rendering failed.",
+        progressMessage: ''
+      });
+    }
+  };
+
+  const currentResult = results?.[currentSceneIndex] ?? null;
+  // Memoised so the preview only reloads overlay images when the layers change
+  const currentOverlays = useMemo(
+    () => (currentResult ? sceneOverlays(currentResult, currentSceneIndex) : []),
+    [project.overlays, project.title, currentResult?.sceneId, currentSceneIndex]
+  );
+
+  /**
+   * Saves the preview's current frame at full output size, composited
+   * exactly as the video renderer would draw it
+   */
+  const handleSaveFrame = async () => {
+    if (!currentResult?.imageUrl) return;
+    try {
+      const blob = await renderFrame({
+        imageUrl: currentResult.imageUrl,
+        time: audioRef.current?.currentTime ?? 0,
+        duration: currentResult.audioDuration ?? audioRef.current?.duration ?? 0,
+        captions: showCaptions ? currentResult.captions : undefined,
+        overlays: currentOverlays,
+      }, outputFormat.width, outputFormat.height);
+      downloadBlob(blob, results && results.length > 1 ? `scene-${currentSceneIndex + 1}-frame.png` : 'video-frame.png');
+    } catch (error) {
+      console.error("Frame export failed:", error);
+    }
+  };
+
+  // Keep the sequence going when playback advances to the next scene
+  React.useEffect(() => {
+    if (isPlaying && audioRef.current) {
+      audioRef.current.play().catch((error) => console.error("Playback failed:", error));
+    }
+  }, [currentSceneIndex]);
+
+  const hasCaptions = !!results && results.some(scene => scene.captions?.length);
+
+  const exportCaptions = (format: 'srt' | 'vtt') => {
+    if (!results) return;
+    // Scenes play back to back, so each scene's cues shift by the narration before it
+    let offset = 0;
+    const cues = results.flatMap(scene => {
+      const shifted = offsetCaptions(scene.captions ?? [], offset);
+      offset += scene.audioDuration ?? 0;
+      return shifted;
+    });
+    if (format === 'srt') {
+      downloadText(captionsToSrt(cues), 'generated-captions.srt', 'application/x-subrip');
+    } else {
+      downloadText(captionsToVtt(cues), 'generated-captions.vtt', 'text/vtt');
     }
   };
 
@@ -141,6 +663,9 @@ const App: React.FC = () => {
     if (audioRef.current) {
       if (isPlaying) {
         audioRef.current.pause();
+      } else if (audioRef.current.ended && results && results.length > 1 && currentSceneIndex === results.length - 1) {
+        // Restart the whole sequence once the last scene has finished
+        setCurrentSceneIndex(0);
       } else {
         // Reset to start if finished
         if (audioRef.current.ended) {
@@ -153,19 +678,148 @@ const App: React.FC = () => {
   };
 
   const handleAudioEnded = () => {
+    if (results && currentSceneIndex < results.length - 1) {
+      setCurrentSceneIndex(currentSceneIndex + 1);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const selectScene = (index: number) => {
+    audioRef.current?.pause();
     setIsPlaying(false);
+    setCurrentSceneIndex(index);
+  };
+
+  // Frees the media of results about to be replaced, once a library save still reading it is done
+  const releaseResults = () => {
+    if (!results) return;
+    const released = results;
+    historySaveRef.current = historySaveRef.current.then(() => revokeResultUrls(released));
+  };
+
+  // Same for a scene's takes when its narration is regenerated
+  const releaseAudio = (result: GeneratedContent) => {
+    const released = [result.audioUrl, result.originalAudio?.url];
+    historySaveRef.current = historySaveRef.current.then(() => released.forEach(url => url && URL.revokeObjectURL(url)));
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    const restored = restoreHistoryEntry(entry);
+    releaseResults();
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    if (renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+      setRenderedVideo(null);
+    }
+    if (soundtrack) revokeSoundtrack(soundtrack);
+    setSoundtrack(null);
+    setProject(restored.project);
+    setGenerationMode(entry.mode);
+    setResults(restored.results);
+    replaceAssetTasks(tasksForResults(restored.results));
+    historySessionRef.current = { entryId: entry.id, saved: { results: restored.results, overlays: restored.project.overlays } };
+    setCurrentSceneIndex(0);
+    setGenerationState({
+      isGenerating: false,
+      stage: 'complete',
+      error: null,
+      progressMessage: ''
+    });
+    setShowLibrary(false);
+  };
+
+  const handleExportProject = async (kind: ProjectFileKind) => {
+    try {
+      const blob = await exportProject({
+        project,
+        results,
+        generationMode,
+        currentSceneIndex,
+        showCaptions,
+        stylePresets,
+        lexicon,
+      }, kind);
+      downloadBlob(blob, `${slugify(project.title)}.factvideo.${kind}`);
+    } catch (error) {
+      console.error("Project export failed:", error);
+      setGenerationState(prev => ({
+        ...prev,
+        stage: 'error',
+        error: error instanceof Error ? error.message : "Project export failed."
+      }));
+    }
+  };
+
+  /**
+   * Replaces the whole editor with an imported project. Style presets and
+   * pronunciations the project brought along are added to the local ones.
+   */
+  const handleImportProject = async (file: File) => {
+    try {
+      const snapshot = await importProject(file);
+      releaseResults();
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      if (renderedVideo) {
+        URL.revokeObjectURL(renderedVideo.url);
+        setRenderedVideo(null);
+      }
+      if (soundtrack) revokeSoundtrack(soundtrack);
+      setSoundtrack(null);
+      setProject(snapshot.project);
+      setGenerationMode(snapshot.generationMode);
+      setResults(snapshot.results);
+      replaceAssetTasks(tasksForResults(snapshot.results));
+      // Saved to the library on the first edit
+      historySessionRef.current = { entryId: null, saved: { results: snapshot.results, overlays: snapshot.project.overlays } };
+      setCurrentSceneIndex(snapshot.currentSceneIndex);
+      setShowCaptions(snapshot.showCaptions);
+
+      const newPresets = snapshot.stylePresets.filter(preset => !stylePresets.some(existing => existing.id === preset.id));
+      if (newPresets.length > 0) changeStylePresets([...stylePresets, ...newPresets]);
+      const knownTerms = new Set(lexicon.map(entry => entry.term.trim().toLowerCase()));
+      const newEntries = snapshot.lexicon.filter(entry => !knownTerms.has(entry.term.trim().toLowerCase()));
+      if (newEntries.length > 0) changeLexicon([...lexicon, ...newEntries]);
+
+      setGenerationState({
+        isGenerating: false,
+        stage: snapshot.results ? 'complete' : 'idle',
+        error: null,
+        progressMessage: ''
+      });
+    } catch (error) {
+      console.error("Project import failed:", error);
+      setGenerationState({
+        isGenerating: false,
+        stage: 'error',
+        error: error instanceof Error ? error.message : "Project import failed.",
+        progressMessage: ''
+      });
+    }
   };
 
   const reset = () => {
-    setResult(null);
+    if (renderedVideo) {
+      URL.revokeObjectURL(renderedVideo.url);
+    }
+    setRenderedVideo(null);
+    if (soundtrack) revokeSoundtrack(soundtrack);
+    setSoundtrack(null);
+    releaseResults();
+    setResults(null);
+    replaceAssetTasks([]);
+    setCurrentSceneIndex(0);
+    setIsPlaying(false);
     setGenerationState({
       isGenerating: false,
       stage: 'idle',
       error: null,
       progressMessage: ''
     });
-    setNarrationInput('');
-    setVisualPromptInput('');
+    // Keep the chosen output format for the next video
+    setProject({ ...createProject(), aspectRatio: project.aspectRatio });
   };
 
   return (
@@ -173,43 +827,70 @@ const App: React.FC = () => {
 
       {/* API Key Modal */}
       {showKeyInput && (
-        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <div className="bg-gray-900 border border-white/10 rounded-2xl p-8 max-w-md w-full shadow-2xl">
-            <h2 className="text-2xl font-bold mb-4 text-white">Setup API Key</h2>
-            <p className="text-gray-400 mb-6">
-              To use this free tool, please provide your own Google Gemini API Key.
-              It will be stored locally in your browser.
-            </p>
-            <input
-              type="password"
-              placeholder="Paste Gemini API Key here..."
-              className="w-full bg-black/50 border border-white/20 rounded-xl p-4 text-white mb-4 focus:outline-none focus:border-pink-500"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  saveApiKey((e.target as HTMLInputElement).value);
-                }
-              }}
-              onChange={(e) => {
-                // Optional: could validate format on change
-              }}
-              autoFocus
-            />
-            <button
-              onClick={(e) => {
-                const input = e.currentTarget.previousElementSibling as HTMLInputElement;
-                saveApiKey(input.value);
-              }}
-              className="w-full bg-gradient-to-r from-pink-600 to-rose-600 text-white font-bold py-3 rounded-xl hover:opacity-90 transition-opacity"
-            >
-              Save & Continue
-            </button>
-            <div className="mt-4 text-center">
-              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-sm text-pink-400 hover:text-pink-300 underline">
-                Get a free API Key here
-              </a>
-            </div>
-          </div>
-        </div>
+        <ApiKeyManager
+          store={keyStore}
+          loadedProfileId={loadedProfileId}
+          onStoreChange={changeKeyStore}
+          onActivate={activateApiKey}
+          onClose={() => setShowKeyInput(false)}
+        />
+      )}
+
+      {/* Image Styles */}
+      {showStyles && (
+        <StylePresetManager presets={stylePresets} onChange={changeStylePresets} onClose={() => setShowStyles(false)} />
+      )}
+
+      {/* Voices */}
+      {voiceGallery && (
+        <VoiceGallery
+          apiKey={apiKey}
+          providerId={ttsProviderId}
+          requiresApiKey={getTtsProvider(ttsProviderId).requiresApiKey}
+          presets={voicePresets}
+          onPresetsChange={changeVoicePresets}
+          selectedVoice={voiceGalleryScene?.voice}
+          onPickVoice={voiceGalleryScene && ((voice) => {
+            setProject(updateScene(project, voiceGalleryScene.id, { voice }));
+            setVoiceGallery(null);
+          })}
+          onApplyPreset={voiceGalleryScene && ((preset) => {
+            setProject(updateScene(project, voiceGalleryScene.id, {
+              voice: preset.voice,
+              speakingRate: preset.speakingRate,
+              direction: preset.direction || undefined,
+            }));
+            setVoiceGallery(null);
+          })}
+          onNeedApiKey={() => setShowKeyInput(true)}
+          onClose={() => setVoiceGallery(null)}
+        />
+      )}
+
+      {/* Batch Mode */}
+      {showBatch && (
+        <BatchRunner
+          apiKey={apiKey}
+          ttsProviderId={ttsProviderId}
+          imageProviderId={imageProviderId}
+          ttsRequiresApiKey={getTtsProvider(ttsProviderId).requiresApiKey}
+          imageRequiresApiKey={getImageProvider(imageProviderId).requiresApiKey}
+          chunking={chunking}
+          lexicon={lexicon}
+          aspectRatio={project.aspectRatio}
+          onNeedApiKey={() => setShowKeyInput(true)}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
+      {/* Usage & Cost */}
+      {showUsage && (
+        <UsageDashboard apiKey={apiKey} onClose={() => setShowUsage(false)} />
+      )}
+
+      {/* Library */}
+      {showLibrary && (
+        <HistoryGallery onOpen={openHistoryEntry} onClose={() => setShowLibrary(false)} />
       )}
 
       {/* Header */}
@@ -225,17 +906,46 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-4">
-            {apiKey ? (
-              <button onClick={removeApiKey} className="text-xs text-gray-500 hover:text-red-400 transition-colors">
-                Change API Key
-              </button>
-            ) : null}
+            <ProjectFileMenu
+              disabled={generationState.isGenerating}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+            />
+            <button
+              onClick={() => setShowLibrary(true)}
+              disabled={generationState.isGenerating}
+              className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Library
+            </button>
+            <button
+              onClick={() => setShowBatch(true)}
+              disabled={generationState.isGenerating}
+              className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Batch
+            </button>
+            <button
+              onClick={() => setVoiceGallery({ sceneId: null })}
+              className="text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Voices
+            </button>
+            <button
+              onClick={() => setShowUsage(true)}
+              className="text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Usage
+            </button>
+            <button onClick={() => setShowKeyInput(true)} className="text-xs text-gray-500 hover:text-white transition-colors">
+              {apiKey ? 'API Keys' : 'Add API Key'}
+            </button>
             <div className="flex items-center gap-2">
               <span className={`flex h-2 w-2 relative`}>
                 <span className={`relative inline-flex rounded-full h-2 w-2 ${apiKey ? 'bg-green-500' : 'bg-red-500'}`}></span>
               </span>
               <span className={`text-xs font-mono hidden sm:block ${apiKey ? 'text-green-400' : 'text-red-400'}`}>
-                {apiKey ? 'Generic Ready' : 'NO KEY'}
+                {apiKey ? apiKeyLabel : 'NO KEY'}
               </span>
             </div>
           </div>
@@ -247,7 +957,7 @@ const App: React.FC = () => {
         {/* Intro / Prompt */}
         <section className="text-center space-y-4">
           <h2 className="text-4xl md:text-5xl font-extrabold tracking-tight">
-            YouTube Fact Videos (16:9)
+            Fact Videos for YouTube, Shorts &amp; Reels
           </h2>
           <p className="text-gray-400 max-w-2xl mx-auto text-lg">
             Create engaging, narrated fact videos instantly using Gemini Flash for high-quality images and Gemini TTS for voiceovers.
@@ -278,72 +988,97 @@ const App: React.FC = () => {
           </div>
         </section>
 
+        {/* Output Format */}
+        <section className="flex justify-center">
+          <div className="bg-gray-900/50 p-1 rounded-xl border border-white/5 flex flex-wrap justify-center gap-1">
+            {OUTPUT_FORMATS.map(format => (
+              <button
+                key={format.aspectRatio}
+                onClick={() => results ? handleReframe(format.aspectRatio) : setProject({ ...project, aspectRatio: format.aspectRatio })}
+                disabled={isReframing || generationState.isGenerating}
+                title={results ? `Smart-crop the generated images to ${format.aspectRatio}` : format.platforms}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${project.aspectRatio === format.aspectRatio ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {format.aspectRatio} <span className="text-xs opacity-70">{format.platforms}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+        {results && (
+          <p className="-mt-8 text-center text-xs text-gray-500">
+            {isReframing ? 'Reframing images...' : 'Switching format smart-crops the existing images without regenerating them.'}
+          </p>
+        )}
+
+        {/* Provider Selection */}
+        <section className="flex flex-col sm:flex-row justify-center gap-3 text-xs">
+          <label className="flex items-center gap-2 text-gray-500">
+            Voice
+            <select
+              value={ttsProviderId}
+              onChange={(e) => changeTtsProvider(e.target.value)}
+              className="bg-gray-900 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            >
+              {TTS_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label} — {provider.description}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-gray-500">
+            Images
+            <select
+              value={imageProviderId}
+              onChange={(e) => changeImageProvider(e.target.value)}
+              className="bg-gray-900 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-pink-500"
+            >
+              {IMAGE_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label} — {provider.description}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-gray-500">
+            Script
+            <select
+              value={scriptProviderId}
+              onChange={(e) => changeScriptProvider(e.target.value)}
+              className="bg-gray-900 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            >
+              {SCRIPT_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label} — {provider.description}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
         {/* Input Form */}
-        {!result && (
+        {!results && (
           <div className={`space-y-8 transition-opacity duration-500 ${generationState.isGenerating ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
 
-            {/* Step 1: Narration */}
-            {(generationMode === 'both' || generationMode === 'narration') && (
-              <div className="bg-gray-900/50 border border-white/5 rounded-2xl p-6 sm:p-8 backdrop-blur-sm relative overflow-hidden group animate-fade-in">
-                <div className="absolute top-0 left-0 w-1 h-full bg-purple-500 group-hover:shadow-[0_0_20px_rgba(168,85,247,0.4)] transition-shadow"></div>
-                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                  <span className="flex items-center justify-center w-6 h-6 rounded-full bg-purple-500/20 text-purple-400 text-xs">1</span>
-                  Narration Script
-                </h3>
-                <textarea
-                  value={narrationInput}
-                  onChange={(e) => setNarrationInput(e.target.value)}
-                  placeholder="Enter the fact or story (e.g., 'Did you know that octopuses have three hearts? Two pump blood to the gills, while the third pumps it to the rest of the body...')"
-                  className="w-full bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500/50 min-h-[120px] resize-none"
-                />
-                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mt-4">
-                  <div className="flex items-center gap-4 flex-1 w-full sm:w-auto">
-                    <span className="text-xs font-bold text-purple-400 uppercase tracking-wider whitespace-nowrap">Speed: {speakingRate}x</span>
-                    <input
-                      type="range"
-                      min="0.5"
-                      max="2.0"
-                      step="0.1"
-                      value={speakingRate}
-                      onChange={(e) => setSpeakingRate(parseFloat(e.target.value))}
-                      className="flex-1 h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
-                    />
-                  </div>
-                  <p className="text-xs text-gray-500">{narrationInput.length} chars</p>
-                </div>
+            {/* Topic to Script */}
+            <ScriptWriter
+              apiKey={apiKey}
+              providerId={scriptProviderId}
+              requiresApiKey={getScriptProvider(scriptProviderId).requiresApiKey}
+              speakingRate={project.scenes[0].speakingRate}
+              onNeedApiKey={() => setShowKeyInput(true)}
+              onScript={applyScript}
+            />
 
-                {/* Voice Selection */}
-                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mt-4">
-                  {(['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'] as const).map((voice) => (
-                    <button
-                      key={voice}
-                      onClick={() => setSelectedVoice(voice)}
-                      className={`px-3 py-2 rounded-lg text-xs font-semibold border transition-all ${selectedVoice === voice
-                          ? 'bg-purple-600 border-purple-500 text-white shadow-[0_0_15px_rgba(168,85,247,0.4)]'
-                          : 'bg-black/20 border-white/5 text-gray-400 hover:border-white/20 hover:text-white'
-                        }`}
-                    >
-                      {voice}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
+            {/* Storyboard: one card per scene */}
+            <SceneEditor
+              project={project}
+              generationMode={generationMode}
+              stylePresets={stylePresets}
+              voicePresets={voicePresets}
+              onChange={setProject}
+              onManageStyles={() => setShowStyles(true)}
+              onBrowseVoices={(sceneId) => setVoiceGallery({ sceneId })}
+            />
 
-            {/* Step 2: Visuals */}
-            {(generationMode === 'both' || generationMode === 'image') && (
-              <div className="bg-gray-900/50 border border-white/5 rounded-2xl p-6 sm:p-8 backdrop-blur-sm relative overflow-hidden group animate-fade-in">
-                <div className="absolute top-0 left-0 w-1 h-full bg-pink-500 group-hover:shadow-[0_0_20px_rgba(236,72,153,0.4)] transition-shadow"></div>
-                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                  <span className="flex items-center justify-center w-6 h-6 rounded-full bg-pink-500/20 text-pink-400 text-xs">{generationMode === 'both' ? '2' : '1'}</span>
-                  Image Visual Prompt
-                </h3>
-                <textarea
-                  value={visualPromptInput}
-                  onChange={(e) => setVisualPromptInput(e.target.value)}
-                  placeholder="Describe the image scene (e.g., 'A cinematic underwater shot of a majestic octopus with three glowing hearts visible, photorealistic, 8k resolution')"
-                  className="w-full bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-pink-500/50 min-h-[100px] resize-none"
-                />
+            {(generationMode === 'both' || generationMode === 'narration') && (
+              <div className="space-y-3">
+                <PronunciationPanel lexicon={lexicon} onChange={changeLexicon} />
+                <NarrationSettings chunking={chunking} onChange={changeChunking} />
               </div>
             )}
 
@@ -353,6 +1088,9 @@ const App: React.FC = () => {
                 {generationState.error}
               </div>
             )}
+            {generationState.stage === 'idle' && generationState.progressMessage && (
+              <p className="text-center text-sm text-gray-500">{generationState.progressMessage}</p>
+            )}
 
             {/* Action Button */}
             <div className="flex justify-center pt-4">
@@ -376,26 +1114,57 @@ const App: React.FC = () => {
                   </div>
                 )}
               </button>
+              {generationState.isGenerating && (
+                <button
+                  onClick={handleCancelGeneration}
+                  className="pointer-events-auto ml-3 px-6 py-4 rounded-full text-sm font-medium border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
         )}
 
+        {/* Per-asset progress while generating, and what failed if nothing came through */}
+        {!results && assetTasks.length > 0 && (
+          <AssetProgress tasks={assetTasks} scenes={project.scenes} />
+        )}
+
         {/* Results Section */}
-        {result && (
+        {results && currentResult && (
           <div className="animate-fade-in space-y-8">
             <div className="bg-gray-900 border border-white/10 rounded-3xl p-6 shadow-2xl overflow-hidden">
 
-              {/* Horizontal 16:9 Player / Image Display */}
-              {result.imageUrl ? (
-                <div className="relative w-full aspect-video bg-black rounded-xl overflow-hidden shadow-lg mx-auto mb-8 border border-white/5">
-                  <img
-                    src={result.imageUrl}
-                    className={`w-full h-full object-cover transition-transform duration-[40s] ease-linear ${isPlaying ? 'scale-125' : 'scale-100'}`}
-                    alt="Generated visual"
-                  />
+              {/* Player / Image Display in the output format */}
+              {currentResult.imageUrl ? (
+                <div
+                  className="relative w-full bg-black rounded-xl overflow-hidden shadow-lg mx-auto mb-8 border border-white/5"
+                  style={{ aspectRatio: `${outputFormat.width} / ${outputFormat.height}`, maxWidth: `calc(70vh * ${outputFormat.width / outputFormat.height})` }}
+                >
+                  {currentResult.audioUrl ? (
+                    <KenBurnsPreview
+                      imageUrl={currentResult.imageUrl}
+                      audioRef={audioRef}
+                      isPlaying={isPlaying}
+                      captions={showCaptions ? currentResult.captions : undefined}
+                      overlays={currentOverlays}
+                      duration={currentResult.audioDuration}
+                      showGuides={showSafeAreas}
+                      width={outputFormat.width}
+                      height={outputFormat.height}
+                      className="w-full h-full"
+                    />
+                  ) : (
+                    <img
+                      src={currentResult.imageUrl}
+                      className="w-full h-full object-cover"
+                      alt="Generated visual"
+                    />
+                  )}
 
                   {/* Overlay Controls for Audio */}
-                  {result.audioUrl && (
+                  {currentResult.audioUrl && (
                     <div className="absolute inset-0 bg-black/20 hover:bg-black/10 transition-colors flex items-center justify-center group cursor-pointer" onClick={togglePlay}>
                       <div className="bg-white/10 backdrop-blur-md p-6 rounded-full group-hover:scale-110 transition-transform shadow-2xl">
                         {isPlaying ? <PauseIcon className="w-10 h-10 text-white" /> : <PlayIcon className="w-10 h-10 text-white ml-1" />}
@@ -403,7 +1172,7 @@ const App: React.FC = () => {
                     </div>
                   )}
                 </div>
-              ) : result.audioUrl ? (
+              ) : currentResult.audioUrl ? (
                 <div className="w-full aspect-video bg-gray-800 rounded-xl flex flex-col items-center justify-center gap-6 mb-8 border border-white/5 bg-gradient-to-br from-gray-800 to-gray-900">
                   <div className="bg-purple-500/20 p-8 rounded-full">
                     <VideoIcon className="w-16 h-16 text-purple-400" />
@@ -417,25 +1186,50 @@ const App: React.FC = () => {
                 </div>
               ) : null}
 
+              {/* Scene Strip: jump between scenes of the sequence */}
+              {results.length > 1 && (
+                <div className="flex gap-3 overflow-x-auto pb-2 mb-8 custom-scrollbar">
+                  {results.map((scene, index) => (
+                    <button
+                      key={scene.sceneId ?? index}
+                      onClick={() => selectScene(index)}
+                      style={{ aspectRatio: `${outputFormat.width} / ${outputFormat.height}` }}
+                      className={`relative shrink-0 h-20 rounded-lg overflow-hidden border-2 transition-all ${index === currentSceneIndex ? 'border-pink-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                    >
+                      {scene.imageUrl ? (
+                        <img src={scene.imageUrl} className="w-full h-full object-cover" alt={`Scene ${index + 1}`} />
+                      ) : (
+                        <div className="w-full h-full bg-gray-800" />
+                      )}
+                      <span className="absolute bottom-1 left-1 text-[10px] font-bold bg-black/70 text-white px-1.5 py-0.5 rounded">
+                        {index + 1}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Controls & Details */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="space-y-6">
-                  {result.narrationText && (
+                  {currentResult.narrationText && (
                     <div>
-                      <h3 className="text-purple-400 text-sm font-bold uppercase tracking-wider mb-2">Narration Script</h3>
+                      <h3 className="text-purple-400 text-sm font-bold uppercase tracking-wider mb-2">
+                        Narration Script{results.length > 1 && <span className="text-gray-500"> · Scene {currentSceneIndex + 1}/{results.length}</span>}
+                      </h3>
                       <div className="p-4 bg-gray-800/50 rounded-xl border border-white/5 text-gray-300 italic leading-relaxed h-[150px] overflow-y-auto custom-scrollbar">
-                        "{result.narrationText}"
+                        "{currentResult.narrationText}"
                       </div>
                     </div>
                   )}
                 </div>
 
                 <div className="space-y-6 flex flex-col justify-between">
-                  {result.visualPrompt && (
+                  {currentResult.visualPrompt && (
                     <div>
                       <h3 className="text-pink-400 text-sm font-bold uppercase tracking-wider mb-2">Visual Prompt</h3>
                       <div className="p-4 bg-gray-800/50 rounded-xl border border-white/5 text-gray-400 text-sm">
-                        {result.visualPrompt}
+                        {currentResult.visualPrompt}
                       </div>
                     </div>
                   )}
@@ -443,29 +1237,198 @@ const App: React.FC = () => {
                   <div className="flex flex-col gap-3">
                     {/* Download Helper */}
                     <div className="flex gap-2">
-                      {result.imageUrl && (
+                      {currentResult.imageUrl && (
                         <a
-                          href={result.imageUrl}
-                          download="generated-image.png"
+                          href={currentResult.imageUrl}
+                          download={results.length > 1 ? `scene-${currentSceneIndex + 1}-image.png` : 'generated-image.png'}
                           className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-gray-800 hover:bg-gray-700 text-sm font-medium transition-colors"
                         >
                           <PhotoIcon className="w-4 h-4" /> Save Image
                         </a>
                       )}
 
-                      {result.audioUrl && (
+                      {currentResult.audioUrl && (
                         <a
-                          href={result.audioUrl}
-                          download="generated-audio.wav"
+                          href={currentResult.audioUrl}
+                          download={results.length > 1 ? `scene-${currentSceneIndex + 1}-audio.wav` : 'generated-audio.wav'}
                           className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-gray-800 hover:bg-gray-700 text-sm font-medium transition-colors"
                         >
                           <DownloadIcon className="w-4 h-4" /> Save Audio
                         </a>
                       )}
+
+                      {currentResult.imageUrl && currentResult.audioUrl && (
+                        <button
+                          onClick={handleSaveFrame}
+                          title="Save the frame shown in the preview, with overlays and captions"
+                          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-gray-800 hover:bg-gray-700 text-sm font-medium transition-colors"
+                        >
+                          <FilmIcon className="w-4 h-4" /> Save Frame
+                        </button>
+                      )}
                     </div>
+
+                    {/* Asset Status & Regeneration */}
+                    {assetTasks.length > 0 && (
+                      <AssetProgress
+                        tasks={assetTasks}
+                        scenes={project.scenes}
+                        defaultOpen={generationState.isGenerating || assetTasks.some(task => task.status === 'failed')}
+                        onRegenerate={generationState.isGenerating ? undefined : handleRegenerateAsset}
+                      />
+                    )}
+                    {generationState.isGenerating && generationState.stage !== 'rendering-video' && (
+                      <button
+                        onClick={handleCancelGeneration}
+                        className="w-full py-2 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors text-xs font-medium"
+                      >
+                        Cancel ({generationState.progressMessage})
+                      </button>
+                    )}
+
+                    {/* Image Iteration */}
+                    {currentResult.imageUrl && (
+                      <ImageStudio
+                        key={currentResult.sceneId ?? currentSceneIndex}
+                        result={currentResult}
+                        aspectRatio={project.aspectRatio}
+                        stylePreset={findStylePreset(project.scenes.find(scene => scene.id === currentResult.sceneId)?.stylePresetId)}
+                        apiKey={apiKey}
+                        providerId={imageProviderId}
+                        requiresApiKey={getImageProvider(imageProviderId).requiresApiKey}
+                        onNeedApiKey={() => setShowKeyInput(true)}
+                        onChange={(changes) => updateResult(currentSceneIndex, changes)}
+                      />
+                    )}
+
+                    {/* Narration Editing */}
+                    {currentResult.audioUrl && (
+                      <WaveformEditor
+                        key={currentResult.sceneId ?? currentSceneIndex}
+                        result={currentResult}
+                        onChange={(changes) => updateResult(currentSceneIndex, changes)}
+                      />
+                    )}
+
+                    {/* Text & Image Overlays */}
+                    {currentResult.imageUrl && (
+                      <OverlayEditor
+                        overlays={project.overlays ?? []}
+                        sceneId={sceneKey(currentResult, currentSceneIndex)}
+                        duration={currentResult.audioDuration ?? 0}
+                        showGuides={showSafeAreas}
+                        onShowGuides={setShowSafeAreas}
+                        onChange={changeOverlays}
+                      />
+                    )}
+
+                    {/* Captions */}
+                    {hasCaptions && (
+                      <div className="flex items-center gap-2">
+                        <label className="flex-1 flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                          <input
+                            type="checkbox"
+                            checked={showCaptions}
+                            onChange={(e) => {
+                              setShowCaptions(e.target.checked);
+                              // A video rendered with the other setting no longer matches the preview
+                              if (renderedVideo) {
+                                URL.revokeObjectURL(renderedVideo.url);
+                                setRenderedVideo(null);
+                              }
+                            }}
+                            className="accent-pink-500"
+                          />
+                          Show &amp; burn in captions
+                        </label>
+                        <button
+                          onClick={() => exportCaptions('srt')}
+                          className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-medium transition-colors"
+                        >
+                          Save .srt
+                        </button>
+                        <button
+                          onClick={() => exportCaptions('vtt')}
+                          className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-medium transition-colors"
+                        >
+                          Save .vtt
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Audio Export */}
+                    {currentResult.audioUrl && (
+                      <AudioExportPanel
+                        results={results}
+                        currentIndex={currentSceneIndex}
+                        projectTitle={project.title}
+                        soundtrack={soundtrack}
+                      />
+                    )}
+
+                    {/* Background Music */}
+                    {results.some(scene => scene.audioUrl) && (
+                      <MusicBedPanel
+                        audioUrls={results.flatMap(scene => scene.audioUrl ? [scene.audioUrl] : [])}
+                        soundtrack={soundtrack}
+                        onSoundtrack={changeSoundtrack}
+                      />
+                    )}
+
+                    {/* Video Export */}
+                    {canRenderVideo && (
+                      generationState.stage === 'rendering-video' ? (
+                        <div className="space-y-2">
+                          <div className="h-2 w-full bg-gray-800 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-[width] duration-300"
+                              style={{ width: `${Math.round((generationState.progress ?? 0) * 100)}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500 text-center">{generationState.progressMessage}</p>
+                        </div>
+                      ) : renderedVideo ? (
+                        <a
+                          href={renderedVideo.url}
+                          download={`generated-video.${renderedVideo.extension}`}
+                          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-gradient-to-r from-purple-600 to-pink-600 hover:opacity-90 text-sm font-semibold transition-opacity"
+                        >
+                          <DownloadIcon className="w-4 h-4" /> Save Video ({renderedVideo.extension.toUpperCase()})
+                        </a>
+                      ) : (
+                        <button
+                          onClick={handleRenderVideo}
+                          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-gradient-to-r from-purple-600 to-pink-600 hover:opacity-90 text-sm font-semibold transition-opacity"
+                        >
+                          <FilmIcon className="w-4 h-4" /> Render Video ({outputSize})
+                        </button>
+                      )
+                    )}
+
+                    {/* Publishing Prep */}
+                    {results.some(scene => scene.narrationText) && (
+                      <PublishingPanel
+                        key={project.id}
+                        results={results}
+                        currentIndex={currentSceneIndex}
+                        projectTitle={project.title}
+                        apiKey={apiKey}
+                        providerId={scriptProviderId}
+                        requiresApiKey={getScriptProvider(scriptProviderId).requiresApiKey}
+                        onNeedApiKey={() => setShowKeyInput(true)}
+                      />
+                    )}
+
+                    {generationState.stage === 'error' && generationState.error && (
+                      <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm">
+                        {generationState.error}
+                      </div>
+                    )}
+
                     <button
                       onClick={reset}
-                      className="w-full py-3 rounded-xl border border-white/10 text-gray-400 hover:bg-white/5 hover:text-white transition-colors text-sm"
+                      disabled={generationState.isGenerating}
+                      className="w-full py-3 rounded-xl border border-white/10 text-gray-400 hover:bg-white/5 hover:text-white transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       Create Another Video
                     </button>
@@ -474,10 +1437,10 @@ const App: React.FC = () => {
               </div>
 
               {/* Hidden Audio Player */}
-              {result.audioUrl && (
+              {currentResult.audioUrl && (
                 <audio
                   ref={audioRef}
-                  src={result.audioUrl}
+                  src={currentResult.audioUrl}
                   onEnded={handleAudioEnded}
                 />
               )}
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { KeyProfile, KeyStore, createKeyProfile, unlockKeyProfile } from '../services/apiKeys';
+import { validateGeminiKey } from '../services/geminiService';
+import { TrashIcon } from './Icons';
+
+type StorageMode = 'plain' | 'encrypted' | 'session';
+
+interface ApiKeyManagerProps {
+  store: KeyStore;
+  /** Profile whose key is loaded right now; null with a session-only or no key */
+  loadedProfileId: string | null;
+  onStoreChange: (store: KeyStore) => void;
+  /** Loads a key into the app; an empty key unloads it */
+  onActivate: (apiKey: string, profileId: string | null, label: string) => void;
+  onClose: () => void;
+}
+
+const STORAGE_MODES: { id: StorageMode; label: string; description: string }[] = [
+  { id: 'plain', label: 'Save in this browser', description: 'Stored unencrypted in local storage.' },
+  { id: 'encrypted', label: 'Save encrypted', description: 'Locked with a passphrase you enter once per visit.' },
+  { id: 'session', label: 'This session only', description: 'Kept in memory and forgotten when the tab closes.' },
+];
+
+const fieldClass = 'w-full bg-black/50 border border-white/20 rounded-xl px-4 py-3 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-pink-500';
+
+/**
+ * Saved key profiles with switching, plus adding a key: it is validated with
+ * a test call first, then saved plainly, encrypted with a passphrase, or
+ * held for this session only
+ */
+export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ store, loadedProfileId, onStoreChange, onActivate, onClose }) => {
+  const activeProfile = store.profiles.find(profile => profile.id === store.activeId);
+  const [unlockingId, setUnlockingId] = useState<string | null>(
+    activeProfile?.encrypted && activeProfile.id !== loadedProfileId ? activeProfile.id : null
+  );
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [isAdding, setIsAdding] = useState(store.profiles.length === 0);
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+  const [mode, setMode] = useState<StorageMode>('plain');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const activateProfile = (profile: KeyProfile, profilePassphrase?: string) => run(async () => {
+    const unlocked = await unlockKeyProfile(profile, profilePassphrase);
+    onStoreChange({ ...store, activeId: profile.id });
+    setUnlockingId(null);
+    setUnlockPassphrase('');
+    onActivate(unlocked, profile.id, profile.name);
+  });
+
+  const deleteProfile = (profile: KeyProfile) => {
+    if (!window.confirm(`Delete the key "${profile.name}" from this browser?`)) return;
+    const wasActive = store.activeId === profile.id;
+    onStoreChange({
+      profiles: store.profiles.filter(p => p.id !== profile.id),
+      activeId: wasActive ? null : store.activeId,
+    });
+    if (profile.id === loadedProfileId) onActivate('', null, '');
+  };
+
+  const addKey = () => run(async () => {
+    const trimmed = key.trim();
+    if (!trimmed) throw new Error('Paste an API key first.');
+    if (mode === 'encrypted') {
+      if (passphrase.length < 8) throw new Error('Use a passphrase of at least 8 characters.');
+      if (passphrase !== confirmPassphrase) throw new Error('The passphrases do not match.');
+    }
+
+    await validateGeminiKey(trimmed);
+
+    if (mode === 'session') {
+      onActivate(trimmed, null, 'Session key');
+      return;
+    }
+    const profile = await createKeyProfile(name || `Key ${store.profiles.length + 1}`, trimmed, mode === 'encrypted' ? passphrase : undefined);
+    onStoreChange({ profiles: [...store.profiles, profile], activeId: profile.id });
+    onActivate(trimmed, profile.id, profile.name);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-8 max-w-md w-full max-h-[85vh] overflow-y-auto custom-scrollbar shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">API Keys</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+        <p className="text-gray-400 mb-6 text-sm">
+          To use this free tool, please provide your own Google Gemini API Key. Keys never leave your browser except to call Gemini.
+        </p>
+
+        {/* Saved Profiles */}
+        {store.profiles.length > 0 && (
+          <div className="space-y-2 mb-6">
+            {store.profiles.map(profile => (
+              <div key={profile.id} className="bg-gray-800/50 border border-white/5 rounded-xl p-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-200 truncate">{profile.name}</p>
+                    <p className="text-xs text-gray-500 font-mono">{profile.hint}{profile.encrypted ? ' · encrypted' : ''}</p>
+                  </div>
+                  {profile.id === loadedProfileId ? (
+                    <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-green-500/20 text-green-400">Active</span>
+                  ) : (
+                    <button
+                      onClick={() => (profile.encrypted ? setUnlockingId(profile.id) : activateProfile(profile))}
+                      disabled={isBusy}
+                      className="text-xs text-pink-400 hover:text-pink-300 disabled:opacity-50"
+                    >
+                      Use
+                    </button>
+                  )}
+                  <button title="Delete" onClick={() => deleteProfile(profile)} className="text-gray-500 hover:text-red-400 transition-colors">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                {unlockingId === profile.id && (
+                  <div className="flex gap-2 mt-3">
+                    <input
+                      type="password"
+                      placeholder="Passphrase"
+                      value={unlockPassphrase}
+                      onChange={(e) => setUnlockPassphrase(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && activateProfile(profile, unlockPassphrase)}
+                      className={fieldClass}
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => activateProfile(profile, unlockPassphrase)}
+                      disabled={isBusy}
+                      className="px-4 rounded-xl bg-gray-800 hover:bg-gray-700 text-sm text-gray-200 disabled:opacity-50"
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add Key */}
+        {isAdding ? (
+          <div className="space-y-4">
+            <input placeholder="Name (e.g., Personal, Client A)" value={name} onChange={(e) => setName(e.target.value)} className={fieldClass} />
+            <input
+              type="password"
+              placeholder="Paste Gemini API Key here..."
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && mode !== 'encrypted' && addKey()}
+              className={fieldClass}
+              autoFocus={store.profiles.length === 0}
+            />
+            <div className="space-y-2">
+              {STORAGE_MODES.map(option => (
+                <label key={option.id} className="flex items-start gap-3 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="key-storage"
+                    checked={mode === option.id}
+                    onChange={() => setMode(option.id)}
+                    className="mt-1 accent-pink-500"
+                  />
+                  <span>
+                    <span className="text-gray-200">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {mode === 'encrypted' && (
+              <div className="grid grid-cols-2 gap-2">
+                <input type="password" placeholder="Passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={fieldClass} />
+                <input type="password" placeholder="Repeat passphrase" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} className={fieldClass} />
+              </div>
+            )}
+            <button
+              onClick={addKey}
+              disabled={isBusy}
+              className="w-full bg-gradient-to-r from-pink-600 to-rose-600 text-white font-bold py-3 rounded-xl hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isBusy ? 'Checking key...' : mode === 'session' ? 'Validate & Use' : 'Validate & Save'}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="w-full py-3 rounded-xl text-sm text-gray-400 hover:text-white border border-dashed border-white/10 transition-colors"
+          >
+            + Add another key
+          </button>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-4 text-center">
+          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-sm text-pink-400 hover:text-pink-300 underline">
+            Get a free API Key here
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
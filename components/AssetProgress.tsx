@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Scene } from '../types';
+import { ASSET_LABELS, AssetStatus, AssetTask, formatElapsed, isTaskActive, taskElapsed } from '../services/assetPipeline';
+
+interface AssetProgressProps {
+  tasks: AssetTask[];
+  scenes: Scene[];
+  defaultOpen?: boolean;
+  /** Omitted while the whole run is in flight */
+  onRegenerate?: (task: AssetTask) => void;
+}
+
+const STATUS_STYLES: Record<AssetStatus, string> = {
+  queued: 'bg-gray-800 text-gray-400',
+  running: 'bg-purple-500/20 text-purple-300 animate-pulse',
+  retrying: 'bg-yellow-500/20 text-yellow-300 animate-pulse',
+  done: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+// Often enough for the running timers to read as live
+const TICK_MS = 250;
+
+/**
+ * Every asset of the run with its own status and timer, so a slow image
+ * doesn't hide a finished voiceover, and a failed or disliked asset can be
+ * generated again without redoing the rest
+ */
+export const AssetProgress: React.FC<AssetProgressProps> = ({ tasks, scenes, defaultOpen = true, onRegenerate }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [now, setNow] = useState(Date.now());
+  const hasActive = tasks.some(isTaskActive);
+
+  useEffect(() => {
+    if (!hasActive) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [hasActive]);
+
+  const doneCount = tasks.filter(task => task.status === 'done').length;
+  const failedCount = tasks.filter(task => task.status === 'failed').length;
+  const sceneRows = scenes
+    .map((scene, index) => ({ scene, index, tasks: tasks.filter(task => task.sceneId === scene.id) }))
+    .filter(row => row.tasks.length > 0);
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Assets ({doneCount}/{tasks.length} done{failedCount > 0 ? `, ${failedCount} failed` : ''})
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-3 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          {sceneRows.map(row => (
+            <div key={row.scene.id} className="space-y-1">
+              {scenes.length > 1 && <p className="text-gray-500 font-semibold">Scene {row.index + 1}</p>}
+              {row.tasks.map(task => {
+                const elapsed = taskElapsed(task, now);
+                return (
+                  <div key={task.id} className="flex items-center gap-3 p-2 rounded-lg bg-black/20">
+                    <span className={`w-16 text-center text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded ${STATUS_STYLES[task.status]}`}>
+                      {task.status}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-200">
+                        {ASSET_LABELS[task.kind]}
+                        {task.detail && <span className="text-gray-500"> · {task.detail}</span>}
+                        {task.retries > 0 && <span className="text-gray-500"> · retry {task.retries}</span>}
+                      </p>
+                      {task.error && <p className="text-red-400 truncate" title={task.error}>{task.error}</p>}
+                    </div>
+                    {elapsed !== null && <span className="font-mono text-gray-500">{formatElapsed(elapsed)}</span>}
+                    {onRegenerate && (task.status === 'done' || task.status === 'failed') && (
+                      <button
+                        onClick={() => onRegenerate(task)}
+                        className="px-2 py-1 rounded-lg bg-gray-800 hover:bg-purple-600 text-gray-300 hover:text-white transition-colors"
+                      >
+                        {task.status === 'failed' ? 'Retry' : 'Regenerate'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
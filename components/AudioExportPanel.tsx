@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { AudioMetadata, GeneratedContent } from '../types';
+import { MixedSoundtrack } from '../services/audioMixer';
+import { decodeNarration } from '../services/audioEditor';
+import {
+  AUDIO_EXPORT_FORMATS,
+  AudioExportFormat,
+  AudioExportSettings,
+  exportAudio,
+  findAudioFormat,
+  loadAudioExportSettings,
+  normalizeAudioExport,
+  resampleBuffer,
+  saveAudioExportSettings,
+} from '../services/audioExport';
+import { concatAudioBuffers } from '../services/audioUtils';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './Icons';
+
+interface AudioExportPanelProps {
+  results: GeneratedContent[];
+  currentIndex: number;
+  projectTitle: string;
+  soundtrack: MixedSoundtrack | null;
+}
+
+type ExportScope = 'scene' | 'all' | 'mix';
+
+const selectClass = 'bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-pink-500';
+
+const excerpt = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text);
+
+/**
+ * Joins every scene's narration, resampling clips whose rate differs from
+ * the first (edited takes keep their own rate)
+ */
+const decodeAllNarration = async (urls: string[]): Promise<AudioBuffer> => {
+  const buffers = await Promise.all(urls.map(decodeNarration));
+  const sampleRate = buffers[0].sampleRate;
+  const matched = await Promise.all(buffers.map(buffer => resampleBuffer(buffer, sampleRate)));
+  return concatAudioBuffers(matched, new OfflineAudioContext(1, 1, sampleRate));
+};
+
+/**
+ * Narration download in a chosen format, sample rate and quality, tagged
+ * with a title and artist taken from the project and voice
+ */
+export const AudioExportPanel: React.FC<AudioExportPanelProps> = ({ results, currentIndex, projectTitle, soundtrack }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<AudioExportSettings>(() => normalizeAudioExport(loadAudioExportSettings()));
+  const [scope, setScope] = useState<ExportScope>('scene');
+  const [title, setTitle] = useState('');
+  const [artist, setArtist] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = results[currentIndex];
+  const audioUrls = results.flatMap(result => (result.audioUrl ? [result.audioUrl] : []));
+  const format = findAudioFormat(settings.format);
+  const effectiveScope: ExportScope = scope === 'mix' && !soundtrack ? 'all' : scope;
+
+  const defaultTitle = effectiveScope === 'scene'
+    ? (projectTitle ? `${projectTitle} (Scene ${currentIndex + 1})` : excerpt(current.narrationText, 60))
+    : projectTitle || 'Narration';
+  const defaultArtist = current.voice ?? '';
+
+  const change = (changes: Partial<AudioExportSettings>) => {
+    const next = normalizeAudioExport({ ...settings, ...changes });
+    setSettings(next);
+    saveAudioExportSettings(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const metadata: AudioMetadata = {
+        title: title.trim() || defaultTitle,
+        artist: artist.trim() || defaultArtist,
+        album: effectiveScope === 'scene' ? projectTitle : undefined,
+        comment: effectiveScope === 'scene' ? current.narrationText : undefined,
+      };
+      const buffer = effectiveScope === 'scene'
+        ? await decodeNarration(current.audioUrl!)
+        : effectiveScope === 'mix'
+          ? await decodeNarration(soundtrack!.mixUrl)
+          : await decodeAllNarration(audioUrls);
+      const blob = await exportAudio(buffer, settings, metadata);
+      const baseName = effectiveScope === 'mix'
+        ? 'soundtrack-mix'
+        : effectiveScope === 'all'
+          ? 'narration'
+          : results.length > 1 ? `scene-${currentIndex + 1}-audio` : 'generated-audio';
+      downloadBlob(blob, `${baseName}.${format.extension}`);
+    } catch (e) {
+      console.error("Audio export failed:", e);
+      setError(e instanceof Error ? e.message : "Could not export the audio.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canExport = effectiveScope === 'scene' ? !!current.audioUrl : audioUrls.length > 0;
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Export audio (MP3, Opus, FLAC...)
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-gray-400">
+              Audio
+              <select value={effectiveScope} onChange={(e) => setScope(e.target.value as ExportScope)} className={selectClass}>
+                <option value="scene">{results.length > 1 ? `Scene ${currentIndex + 1} narration` : 'Narration'}</option>
+                {results.length > 1 && <option value="all">All scenes, joined</option>}
+                {soundtrack && <option value="mix">Soundtrack with music</option>}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-400">
+              Format
+              <select value={settings.format} onChange={(e) => change({ format: e.target.value as AudioExportFormat })} className={selectClass}>
+                {AUDIO_EXPORT_FORMATS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-400">
+              Sample rate
+              <select value={settings.sampleRate} onChange={(e) => change({ sampleRate: parseInt(e.target.value, 10) })} className={selectClass}>
+                {format.sampleRates.map(rate => (
+                  <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 1 : 0)} kHz{rate === 24000 ? ' (original)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            {format.bitrates ? (
+              <label className="flex flex-col gap-1 text-gray-400">
+                Bitrate
+                <select value={settings.bitrateKbps} onChange={(e) => change({ bitrateKbps: parseInt(e.target.value, 10) })} className={selectClass}>
+                  {format.bitrates.map(bitrate => (
+                    <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label className="flex flex-col gap-1 text-gray-400">
+                Bit depth
+                <select value={settings.bitDepth} onChange={(e) => change({ bitDepth: parseInt(e.target.value, 10) as AudioExportSettings['bitDepth'] })} className={selectClass}>
+                  {format.bitDepths?.map(depth => (
+                    <option key={depth} value={depth}>{depth === 32 ? '32-bit float' : `${depth}-bit`}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-gray-400">
+              Title
+              <input value={title} placeholder={defaultTitle} onChange={(e) => setTitle(e.target.value)} className={selectClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-gray-400">
+              Artist
+              <input value={artist} placeholder={defaultArtist || 'Artist'} onChange={(e) => setArtist(e.target.value)} className={selectClass} />
+            </label>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !canExport}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-3 h-3" /> {isExporting ? 'Encoding...' : `Export ${format.extension.toUpperCase()}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
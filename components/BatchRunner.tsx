@@ -0,0 +1,291 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { ChunkingOptions } from '../services/chunker';
+import { PronunciationEntry } from '../services/narrationMarkup';
+import { generateSceneContent } from '../services/generationService';
+import {
+  BatchItem,
+  BatchItemStatus,
+  BatchQueueController,
+  BatchRowError,
+  buildBatchZip,
+  parseBatchFile,
+  runBatchQueue,
+} from '../services/batch';
+import { downloadBlob } from '../services/download';
+import { getImageProvider, getTtsProvider } from '../services/providers';
+import { checkBudget, estimateGenerationCost, keyIdFor, loadBudget, loadPrices } from '../services/usageTracker';
+import { DownloadIcon } from './Icons';
+
+interface BatchRunnerProps {
+  apiKey: string;
+  ttsProviderId: string;
+  imageProviderId: string;
+  ttsRequiresApiKey: boolean;
+  imageRequiresApiKey: boolean;
+  chunking: ChunkingOptions;
+  lexicon: PronunciationEntry[];
+  aspectRatio: AspectRatio;
+  onNeedApiKey: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-800 text-gray-400',
+  running: 'bg-purple-500/20 text-purple-300 animate-pulse',
+  done: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-gray-800 text-gray-500',
+};
+
+const buttonClass = 'px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const revokeResults = (items: BatchItem[]) => {
+  for (const item of items) {
+    if (item.result?.audioUrl) URL.revokeObjectURL(item.result.audioUrl);
+  }
+};
+
+/**
+ * Batch mode: import many rows from CSV/JSON, validate them, generate them
+ * through a pausable queue and download everything as one ZIP
+ */
+export const BatchRunner: React.FC<BatchRunnerProps> = ({
+  apiKey,
+  ttsProviderId,
+  imageProviderId,
+  ttsRequiresApiKey,
+  imageRequiresApiKey,
+  chunking,
+  lexicon,
+  aspectRatio,
+  onNeedApiKey,
+  onClose,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [errors, setErrors] = useState<BatchRowError[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [queue, setQueue] = useState<BatchQueueController | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Latest items for cleanup on unmount
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  useEffect(() => () => {
+    queueRef.current?.cancel();
+    revokeResults(itemsRef.current);
+  }, []);
+
+  const isRunning = !!queue;
+  const counts = items.reduce((total, item) => ({ ...total, [item.status]: (total[item.status] ?? 0) + 1 }), {} as Partial<Record<BatchItemStatus, number>>);
+  const finished = (counts.done ?? 0) + (counts.failed ?? 0) + (counts.cancelled ?? 0);
+
+  const handleFile = async (file: File) => {
+    revokeResults(items);
+    const parsed = parseBatchFile(await file.text(), file.name);
+    setFileName(file.name);
+    setItems(parsed.items);
+    setErrors(parsed.errors);
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const start = () => {
+    const runnable = items.filter(item => item.status !== 'done');
+    const needsKey = runnable.some(item =>
+      ((item.mode === 'both' || item.mode === 'narration') && ttsRequiresApiKey) ||
+      ((item.mode === 'both' || item.mode === 'image') && imageRequiresApiKey)
+    );
+    if (needsKey && !apiKey) {
+      onNeedApiKey();
+      return;
+    }
+
+    const prices = loadPrices();
+    const models = { tts: getTtsProvider(ttsProviderId).model, image: getImageProvider(imageProviderId).model };
+    const upcomingCost = runnable.reduce((total, item) => total + estimateGenerationCost([item.scene], item.mode, models, prices), 0);
+    const budgetCheck = checkBudget(loadBudget(), prices, keyIdFor(apiKey), upcomingCost);
+    if (budgetCheck.status === 'block') {
+      window.alert(`${budgetCheck.message} Raise the budget under Usage to run this batch.`);
+      return;
+    }
+    if (budgetCheck.status === 'warn' && !window.confirm(`${budgetCheck.message} Run the batch anyway?`)) {
+      return;
+    }
+
+    // Failed and cancelled rows go back in the queue; finished ones are kept
+    const queued = items.map(item => (item.status === 'done' ? item : { ...item, status: 'queued' as const, error: undefined }));
+    setItems(queued);
+    setIsPaused(false);
+
+    const controller = runBatchQueue(queued, {
+      concurrency,
+      run: (item, signal) => generateSceneContent(item.scene, {
+        mode: item.mode,
+        signal,
+        ttsProviderId,
+        imageProviderId,
+        apiKey,
+        aspectRatio,
+        chunking,
+        lexicon,
+      }),
+      onUpdate: updateItem,
+    });
+    setQueue(controller);
+    controller.done.finally(() => setQueue(null));
+  };
+
+  const togglePause = () => {
+    if (!queue) return;
+    if (isPaused) queue.resume();
+    else queue.pause();
+    setIsPaused(!isPaused);
+  };
+
+  const handleDownload = async () => {
+    setIsZipping(true);
+    setDownloadError(null);
+    try {
+      const zip = await buildBatchZip(items);
+      downloadBlob(zip, `${fileName.replace(/\.[^.]+$/, '') || 'batch'}-results.zip`);
+    } catch (e) {
+      console.error("Batch ZIP failed:", e);
+      setDownloadError(e instanceof Error ? e.message : 'Could not build the ZIP.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isRunning && !window.confirm('Cancel the running batch and close?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={handleClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-6 sm:p-8 max-w-4xl w-full max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Batch Mode</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Import a CSV (with a header row) or JSON array with <code className="text-pink-300">narration</code>, <code className="text-pink-300">visual_prompt</code>, <code className="text-pink-300">voice</code>, <code className="text-pink-300">speed</code> and <code className="text-pink-300">mode</code> columns. Each row becomes one {aspectRatio} clip.
+        </p>
+
+        {/* Import & Controls */}
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-xs">
+          <label className={`${buttonClass} bg-gray-800 hover:bg-gray-700 text-gray-200 cursor-pointer ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}>
+            {fileName ? 'Import another file...' : 'Import CSV / JSON...'}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-400">
+            Parallel: <span className="text-purple-400 font-bold">{concurrency}</span>
+            <input
+              type="range"
+              min="1"
+              max="4"
+              step="1"
+              value={concurrency}
+              disabled={isRunning}
+              onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+              className="h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+            />
+          </label>
+          <div className="flex-1" />
+          {isRunning ? (
+            <>
+              <button onClick={togglePause} className={`${buttonClass} bg-gray-800 hover:bg-gray-700 text-gray-200`}>
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button onClick={() => queue?.cancel()} className={`${buttonClass} border border-red-500/30 text-red-400 hover:bg-red-500/10`}>
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={start}
+              disabled={items.length === 0 || items.every(item => item.status === 'done')}
+              className={`${buttonClass} bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:opacity-90`}
+            >
+              {finished > 0 && items.some(item => item.status !== 'done') ? 'Retry Remaining' : `Generate ${items.length} Clips`}
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={isRunning || isZipping || !counts.done}
+            className={`${buttonClass} flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-200`}
+          >
+            <DownloadIcon className="w-4 h-4" /> {isZipping ? 'Zipping...' : 'Download ZIP'}
+          </button>
+        </div>
+
+        {items.length > 0 && (
+          <div className="mb-4 space-y-1">
+            <div className="h-1.5 w-full bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-[width] duration-300" style={{ width: `${(finished / items.length) * 100}%` }} />
+            </div>
+            <p className="text-xs text-gray-500">
+              {counts.done ?? 0} done · {counts.running ?? 0} running · {counts.queued ?? 0} queued · {counts.failed ?? 0} failed{counts.cancelled ? ` · ${counts.cancelled} cancelled` : ''}{isPaused ? ' · paused' : ''}
+            </p>
+          </div>
+        )}
+
+        {downloadError && (
+          <div className="mb-4 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-xs">
+            {downloadError}
+          </div>
+        )}
+
+        {/* Validation Errors */}
+        {errors.length > 0 && (
+          <div className="mb-4 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-xs max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+            <p className="font-bold">{errors.length} problem{errors.length === 1 ? '' : 's'} found; these rows were skipped:</p>
+            {errors.map((error, index) => (
+              <p key={index}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Queue */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 bg-gray-800/50 border border-white/5 rounded-xl p-3 text-sm">
+              <span className="text-xs text-gray-500 w-10 shrink-0">#{item.row}</span>
+              {item.result?.imageUrl ? (
+                <img src={item.result.imageUrl} className="w-16 h-9 object-cover rounded shrink-0" alt="" />
+              ) : (
+                <div className="w-16 h-9 rounded bg-gray-800 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-200 truncate">{item.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {item.error ?? `${item.mode} · ${item.scene.voice} · ${item.scene.speakingRate}x`}
+                </p>
+              </div>
+              <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded ${STATUS_STYLES[item.status]}`}>
+                {item.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
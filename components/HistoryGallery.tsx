@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  HistoryEntry,
+  StorageUsage,
+  deleteHistoryEntry,
+  getStorageUsage,
+  searchHistory,
+} from '../services/historyStore';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, TrashIcon, VideoIcon } from './Icons';
+
+interface HistoryGalleryProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const downloadEntry = (entry: HistoryEntry) => {
+  const multiScene = entry.scenes.length > 1;
+  entry.scenes.forEach((scene, index) => {
+    const prefix = multiScene ? `scene-${index + 1}-` : 'generated-';
+    if (scene.imageBlob) downloadBlob(scene.imageBlob, `${prefix}image.png`);
+    if (scene.audioBlob) downloadBlob(scene.audioBlob, `${prefix}audio.wav`);
+  });
+};
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async (search: string) => {
+    try {
+      setEntries(await searchHistory(search));
+      setUsage(await getStorageUsage());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to load history:", e);
+      setError("Could not open the local library.");
+    }
+  };
+
+  useEffect(() => {
+    refresh(query);
+  }, [query]);
+
+  // One thumbnail URL per entry, released when the list changes or the gallery closes
+  const thumbnails = useMemo(() => {
+    const urls = new Map<string, string>();
+    for (const entry of entries) {
+      const blob = entry.scenes.find(scene => scene.imageBlob)?.imageBlob;
+      if (blob) urls.set(entry.id, URL.createObjectURL(blob));
+    }
+    return urls;
+  }, [entries]);
+
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.id);
+    refresh(query);
+  };
+
+  const usageRatio = usage && usage.quota ? usage.usage / usage.quota : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-6 sm:p-8 max-w-4xl w-full max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Library</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search narration..."
+          className="w-full bg-black/50 border border-white/20 rounded-xl p-3 text-white mb-4 focus:outline-none focus:border-pink-500"
+          autoFocus
+        />
+
+        {usage && usage.quota > 0 && (
+          <div className="mb-4">
+            <div className="h-1.5 w-full bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usageRatio > 0.8 ? 'bg-red-500' : 'bg-purple-500'}`}
+                style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used. Oldest items are removed automatically when storage runs low.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-y-auto custom-scrollbar -mx-2 px-2">
+          {entries.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">
+              {query ? 'No matches.' : 'Generated videos will appear here.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {entries.map(entry => (
+                <div key={entry.id} className="bg-black/30 border border-white/5 rounded-xl overflow-hidden flex flex-col">
+                  <button onClick={() => onOpen(entry)} className="relative aspect-video bg-gray-800 group">
+                    {thumbnails.get(entry.id) ? (
+                      <img src={thumbnails.get(entry.id)} className="w-full h-full object-cover" alt={entry.title} />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <VideoIcon className="w-10 h-10 text-purple-400/60" />
+                      </div>
+                    )}
+                    <span className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors flex items-center justify-center text-sm font-semibold text-white opacity-0 group-hover:opacity-100">
+                      Open
+                    </span>
+                  </button>
+                  <div className="p-3 flex-1 flex flex-col gap-2">
+                    <div>
+                      <h3 className="text-sm font-semibold text-white truncate">{entry.title}</h3>
+                      <p className="text-[11px] text-gray-500">
+                        {new Date(entry.createdAt).toLocaleString()} · {entry.scenes.length} scene{entry.scenes.length === 1 ? '' : 's'} · {formatBytes(entry.sizeBytes)}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-400 line-clamp-2 flex-1">{entry.scenes[0]?.narrationText || entry.scenes[0]?.visualPrompt}</p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => downloadEntry(entry)}
+                        className="flex-1 flex items-center justify-center gap-1 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-medium transition-colors"
+                      >
+                        <DownloadIcon className="w-3.5 h-3.5" /> Download
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        title="Delete"
+                        className="px-3 rounded-lg bg-gray-800 hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+                      >
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, GeneratedContent, ImageVersionTree, StylePreset } from '../types';
+import { editImage, generateImageVariations } from '../services/generationService';
+import { getImageProvider } from '../services/providers';
+import { isAbortError } from '../services/requestScheduler';
+import { applyStylePreset } from '../services/stylePresets';
+import { PriceTable, checkCallBudget, estimateImageCost } from '../services/usageTracker';
+import { addVersion, canUndo, createVersionTree, flattenVersionTree, getCurrentVersion, selectVersion, undoVersion } from '../services/imageVersions';
+
+interface ImageStudioProps {
+  result: GeneratedContent;
+  aspectRatio: AspectRatio;
+  stylePreset?: StylePreset;
+  apiKey: string;
+  providerId: string;
+  requiresApiKey: boolean;
+  onNeedApiKey: () => void;
+  onChange: (changes: Partial<GeneratedContent>) => void;
+}
+
+const VARIATION_COUNTS = [2, 3, 4];
+
+interface RequestControl {
+  signal: AbortSignal;
+  onRetry: (attempt: number) => void;
+}
+
+/**
+ * Iterate on a scene's image without starting over: pick from N variations of
+ * the prompt or apply instruction-based edits, with every result kept in a
+ * version tree that can be stepped back through.
+ */
+export const ImageStudio: React.FC<ImageStudioProps> = ({
+  result,
+  aspectRatio,
+  stylePreset,
+  apiKey,
+  providerId,
+  requiresApiKey,
+  onNeedApiKey,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [variationCount, setVariationCount] = useState(3);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [busy, setBusy] = useState<'edit' | 'variations' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [retries, setRetries] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop paying for an edit nobody will see
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!result.imageUrl) return null;
+  const tree = result.imageVersions ?? createVersionTree(result.imageUrl);
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':');
+
+  const apply = (next: ImageVersionTree) => {
+    // A new current version becomes the base for any later reframe
+    onChange({ imageUrl: getCurrentVersion(next).imageUrl, imageVersions: next, originalImageUrl: undefined });
+  };
+
+  const run = async (kind: 'edit' | 'variations', estimate: (prices: PriceTable) => number, task: (control: RequestControl) => Promise<void>) => {
+    if (requiresApiKey && !apiKey) {
+      onNeedApiKey();
+      return;
+    }
+    const budgetCheck = checkCallBudget(apiKey, estimate);
+    if (budgetCheck.status === 'block') {
+      setError(`${budgetCheck.message} Raise the budget under Usage to continue.`);
+      return;
+    }
+    if (budgetCheck.status === 'warn' && !window.confirm(`${budgetCheck.message} Generate anyway?`)) {
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(kind);
+    setRetries(0);
+    setError(null);
+    try {
+      await task({ signal: controller.signal, onRetry: () => setRetries(count => count + 1) });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Image iteration failed:", e);
+      setError(e instanceof Error ? e.message : "Image request failed.");
+    } finally {
+      abortRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const handleEdit = () => {
+    const text = instruction.trim();
+    if (!text) return;
+    run('edit', prices => estimateImageCost(1, getImageProvider(providerId).model, prices, text.length), async (control) => {
+      const imageUrl = await editImage({ imageUrl: result.imageUrl!, instruction: text, aspectRatio, apiKey, ...control }, providerId);
+      apply(addVersion(tree, imageUrl, `Edit: ${text}`));
+      setInstruction('');
+    });
+  };
+
+  const handleVariations = () => {
+    run('variations', prices => estimateImageCost(variationCount, getImageProvider(providerId).model, prices), async (control) => {
+      const request = applyStylePreset({ prompt: result.visualPrompt, aspectRatio, apiKey, ...control }, stylePreset);
+      const images = await generateImageVariations(request, variationCount, providerId);
+      setCandidates(images);
+      if (images.length < variationCount) {
+        setError(`Only ${images.length} of ${variationCount} variations came through. Pick one or try again.`);
+      }
+    });
+  };
+
+  const pickCandidate = (imageUrl: string, index: number) => {
+    apply(addVersion(tree, imageUrl, `Variation ${index + 1}`));
+    setCandidates([]);
+  };
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Edit image &amp; variations {tree.versions.length > 1 && <span className="text-pink-400">({tree.versions.length} versions)</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          {/* Instruction Edit */}
+          <div className="flex gap-2">
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
+              placeholder="Describe an edit (e.g., 'make it night time', 'remove the text')"
+              className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-pink-500"
+            />
+            <button
+              onClick={handleEdit}
+              disabled={!!busy || !instruction.trim()}
+              className="px-4 py-2 rounded-lg bg-pink-600 hover:bg-pink-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'edit' ? 'Editing...' : 'Apply Edit'}
+            </button>
+          </div>
+
+          {/* Variations */}
+          <div className="flex items-center gap-2">
+            <select
+              value={variationCount}
+              onChange={(e) => setVariationCount(parseInt(e.target.value, 10))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-pink-500"
+            >
+              {VARIATION_COUNTS.map(count => (
+                <option key={count} value={count}>{count} variations</option>
+              ))}
+            </select>
+            <button
+              onClick={handleVariations}
+              disabled={!!busy}
+              className="flex-1 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'variations' ? 'Generating...' : 'Generate Variations'}
+            </button>
+          </div>
+          {busy && (
+            <div className="flex items-center justify-between gap-2 text-gray-500">
+              <span>{busy === 'edit' ? 'Applying the edit' : 'Generating variations'}{retries > 0 ? ` · retry ${retries}` : ''}</span>
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-1 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          {candidates.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-gray-500">Pick one to use it, or generate again.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {candidates.map((imageUrl, index) => (
+                  <button
+                    key={index}
+                    onClick={() => pickCandidate(imageUrl, index)}
+                    style={{ aspectRatio: `${ratioWidth} / ${ratioHeight}` }}
+                    className="rounded-lg overflow-hidden border-2 border-transparent hover:border-pink-500 transition-colors"
+                  >
+                    <img src={imageUrl} className="w-full h-full object-cover" alt={`Variation ${index + 1}`} />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center">
+              {error}
+            </div>
+          )}
+
+          {/* Version Tree */}
+          {tree.versions.length > 1 && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-bold text-gray-400 uppercase tracking-wider">Versions</span>
+                <button
+                  onClick={() => apply(undoVersion(tree))}
+                  disabled={!canUndo(tree) || !!busy}
+                  className="px-3 py-1 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors disabled:opacity-30"
+                >
+                  Undo
+                </button>
+              </div>
+              <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                {flattenVersionTree(tree).map(({ version, depth }) => (
+                  <button
+                    key={version.id}
+                    onClick={() => apply(selectVersion(tree, version.id))}
+                    style={{ paddingLeft: `${8 + depth * 16}px` }}
+                    className={`w-full flex items-center gap-2 py-1 pr-2 rounded-lg text-left transition-colors ${version.id === tree.currentId ? 'bg-pink-500/10 text-pink-300' : 'text-gray-400 hover:bg-white/5'}`}
+                  >
+                    <img src={version.imageUrl} className="w-10 h-6 object-cover rounded" alt="" />
+                    <span className="truncate">{version.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
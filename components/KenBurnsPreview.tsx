@@ -0,0 +1,97 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionCue, OverlayLayer } from '../types';
+import { drawSceneFrame, loadImage } from '../services/videoRenderer';
+import { drawSafeAreaGuides, loadOverlayImages } from '../services/overlays';
+
+interface KenBurnsPreviewProps {
+  imageUrl: string;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  isPlaying: boolean;
+  captions?: CaptionCue[];
+  /** Layers already resolved for this scene */
+  overlays?: OverlayLayer[];
+  /** Narration length, used until the audio element has loaded its own */
+  duration?: number;
+  /** Safe-area guides, drawn in the preview only */
+  showGuides?: boolean;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Canvas preview driven by the narration's playback position, using the exact
+ * same frame function as the video renderer so the preview matches the export.
+ */
+export const KenBurnsPreview: React.FC<KenBurnsPreviewProps> = ({
+  imageUrl,
+  audioRef,
+  isPlaying,
+  captions,
+  overlays,
+  duration = 0,
+  showGuides = false,
+  width = 1920,
+  height = 1080,
+  className,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const overlayImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const image = imageRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ctx || !image) return;
+
+    const audio = audioRef.current;
+    drawSceneFrame(ctx, {
+      image,
+      time: audio?.currentTime ?? 0,
+      duration: audio && audio.duration ? audio.duration : duration,
+      captions: audio ? captions : undefined,
+      overlays,
+      overlayImages: overlayImagesRef.current,
+    }, width, height);
+    if (showGuides) drawSafeAreaGuides(ctx, width, height);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then((image) => {
+      if (cancelled) return;
+      imageRef.current = image;
+      draw();
+    }).catch((error) => console.error('Preview image failed to load:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayImages(overlays ?? []).then((images) => {
+      if (cancelled) return;
+      overlayImagesRef.current = images;
+      draw();
+    }).catch((error) => console.error('Overlay image failed to load:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [overlays]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      draw();
+      return;
+    }
+    let frame = requestAnimationFrame(function loop() {
+      draw();
+      frame = requestAnimationFrame(loop);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, captions, overlays, duration, showGuides, width, height]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className={className} />;
+};
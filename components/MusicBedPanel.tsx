@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+  MUSIC_LOOPS,
+  MixedSoundtrack,
+  MusicBedSettings,
+  MusicLoopId,
+  decodeMusicFile,
+  generateMusicLoop,
+  loadMusicSettings,
+  mixSoundtrack,
+  saveMusicSettings,
+} from '../services/audioMixer';
+import { DownloadIcon } from './Icons';
+
+interface MusicBedPanelProps {
+  audioUrls: string[];
+  soundtrack: MixedSoundtrack | null;
+  onSoundtrack: (soundtrack: MixedSoundtrack | null) => void;
+}
+
+type MusicSource = { kind: 'none' } | { kind: 'loop'; id: MusicLoopId } | { kind: 'file'; file: File };
+
+const sliderClass = 'h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500';
+const linkClass = 'flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-medium transition-colors';
+
+/**
+ * Background music under the narration: pick a bundled loop or a local file,
+ * then mix it offline with automatic ducking. The mix replaces the narration
+ * in the rendered video; the stems can be downloaded separately.
+ */
+export const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ audioUrls, soundtrack, onSoundtrack }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<MusicSource>({ kind: 'none' });
+  const [settings, setSettings] = useState<MusicBedSettings>(loadMusicSettings);
+  const [isMixing, setIsMixing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const change = (changes: Partial<MusicBedSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveMusicSettings(next);
+  };
+
+  const handleMix = async () => {
+    if (source.kind === 'none') return;
+    setIsMixing(true);
+    setError(null);
+    try {
+      const music = source.kind === 'loop' ? generateMusicLoop(source.id) : await decodeMusicFile(source.file);
+      onSoundtrack(await mixSoundtrack(audioUrls, music, settings));
+    } catch (e) {
+      console.error("Music mixing failed:", e);
+      setError(e instanceof Error ? e.message : "Could not mix the music.");
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  const sourceValue = source.kind === 'loop' ? source.id : source.kind;
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Background music {soundtrack && <span className="text-purple-400">(mixed)</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={sourceValue}
+              onChange={(e) => {
+                const value = e.target.value;
+                if (value === 'none') setSource({ kind: 'none' });
+                else if (value !== 'file') setSource({ kind: 'loop', id: value as MusicLoopId });
+              }}
+              className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            >
+              <option value="none">No music</option>
+              {MUSIC_LOOPS.map(loop => (
+                <option key={loop.id} value={loop.id}>{loop.label} (built-in)</option>
+              ))}
+              {source.kind === 'file' && <option value="file">{source.file.name}</option>}
+            </select>
+            <label className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 font-medium transition-colors cursor-pointer text-center">
+              Import file...
+              <input
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) setSource({ kind: 'file', file });
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-2 text-gray-400">
+              <span>Music volume: <span className="text-purple-400 font-bold">{Math.round(settings.volume * 100)}%</span></span>
+              <input type="range" min="0" max="1" step="0.05" value={settings.volume} onChange={(e) => change({ volume: parseFloat(e.target.value) })} className={sliderClass} />
+            </label>
+            <label className="flex flex-col gap-2 text-gray-400">
+              <span>Duck under voice: <span className="text-purple-400 font-bold">{settings.duckingDb === 0 ? 'off' : `-${settings.duckingDb} dB`}</span></span>
+              <input type="range" min="0" max="30" step="1" value={settings.duckingDb} onChange={(e) => change({ duckingDb: parseInt(e.target.value, 10) })} className={sliderClass} />
+            </label>
+            <label className="flex flex-col gap-2 text-gray-400">
+              <span>Fade in: <span className="text-purple-400 font-bold">{settings.fadeInSeconds.toFixed(1)}s</span></span>
+              <input type="range" min="0" max="10" step="0.5" value={settings.fadeInSeconds} onChange={(e) => change({ fadeInSeconds: parseFloat(e.target.value) })} className={sliderClass} />
+            </label>
+            <label className="flex flex-col gap-2 text-gray-400">
+              <span>Fade out: <span className="text-purple-400 font-bold">{settings.fadeOutSeconds.toFixed(1)}s</span></span>
+              <input type="range" min="0" max="10" step="0.5" value={settings.fadeOutSeconds} onChange={(e) => change({ fadeOutSeconds: parseFloat(e.target.value) })} className={sliderClass} />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+            <input type="checkbox" checked={settings.loop} onChange={(e) => change({ loop: e.target.checked })} className="accent-purple-500" />
+            Loop the music for the whole video
+          </label>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleMix}
+              disabled={isMixing || source.kind === 'none' || audioUrls.length === 0}
+              className="flex-1 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isMixing ? 'Mixing...' : soundtrack ? 'Remix' : 'Mix Music'}
+            </button>
+            {soundtrack && (
+              <button
+                onClick={() => onSoundtrack(null)}
+                className="px-3 py-2 rounded-lg border border-white/10 text-gray-400 hover:text-white transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+
+          {soundtrack && (
+            <div className="space-y-2">
+              <audio controls src={soundtrack.mixUrl} className="w-full h-8" />
+              <div className="flex gap-2">
+                <a href={soundtrack.mixUrl} download="soundtrack-mix.wav" className={linkClass}>
+                  <DownloadIcon className="w-3 h-3" /> Mix
+                </a>
+                <a href={soundtrack.narrationUrl} download="soundtrack-narration.wav" className={linkClass}>
+                  <DownloadIcon className="w-3 h-3" /> Voice stem
+                </a>
+                <a href={soundtrack.musicUrl} download="soundtrack-music.wav" className={linkClass}>
+                  <DownloadIcon className="w-3 h-3" /> Music stem
+                </a>
+              </div>
+              <p className="text-gray-500">The rendered video uses this mix as its audio.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ChunkingOptions } from '../services/chunker';
+
+interface NarrationSettingsProps {
+  chunking: ChunkingOptions;
+  onChange: (chunking: ChunkingOptions) => void;
+}
+
+const sliderClass = 'h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500';
+
+/**
+ * Advanced controls for how long scripts are split and synthesized
+ */
+export const NarrationSettings: React.FC<NarrationSettingsProps> = ({ chunking, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const change = (changes: Partial<ChunkingOptions>) => onChange({ ...chunking, ...changes });
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Long script settings
+      </button>
+      {isOpen && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <label className="flex flex-col gap-2 text-gray-400">
+            <span>Max characters per request: <span className="text-purple-400 font-bold">{chunking.maxChars}</span></span>
+            <input
+              type="range"
+              min="200"
+              max="4000"
+              step="100"
+              value={chunking.maxChars}
+              onChange={(e) => change({ maxChars: parseInt(e.target.value, 10) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-gray-400">
+            <span>Pause between parts: <span className="text-purple-400 font-bold">{chunking.pauseSeconds.toFixed(2)}s</span></span>
+            <input
+              type="range"
+              min="0"
+              max="1.5"
+              step="0.05"
+              value={chunking.pauseSeconds}
+              onChange={(e) => change({ pauseSeconds: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-gray-400">
+            <span>Parallel requests: <span className="text-purple-400 font-bold">{chunking.concurrency}</span></span>
+            <input
+              type="range"
+              min="1"
+              max="4"
+              step="1"
+              value={chunking.concurrency}
+              onChange={(e) => change({ concurrency: parseInt(e.target.value, 10) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-gray-400" title="For parts that come back without audio. Rate limits and server errors are always retried with backoff.">
+            <span>Retries per part: <span className="text-purple-400 font-bold">{chunking.maxRetries}</span></span>
+            <input
+              type="range"
+              min="0"
+              max="5"
+              step="1"
+              value={chunking.maxRetries}
+              onChange={(e) => change({ maxRetries: parseInt(e.target.value, 10) })}
+              className={sliderClass}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
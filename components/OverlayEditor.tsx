@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { ImageOverlay, OverlayAnimation, OverlayLayer, TextOverlay } from '../types';
+import {
+  OVERLAY_ANIMATIONS,
+  OVERLAY_FONTS,
+  OVERLAY_POSITIONS,
+  OVERLAY_PRESETS,
+  createImageOverlay,
+  createTextOverlay,
+  prepareWatermark,
+} from '../services/overlays';
+import { ArrowUpIcon, ArrowDownIcon, TrashIcon } from './Icons';
+
+interface OverlayEditorProps {
+  overlays: OverlayLayer[];
+  /** Scene the preview is showing; new layers attach to it */
+  sceneId: string;
+  /** Narration length of that scene, for the timing sliders */
+  duration: number;
+  showGuides: boolean;
+  onShowGuides: (show: boolean) => void;
+  onChange: (overlays: OverlayLayer[]) => void;
+}
+
+const inputClass = 'bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500';
+const sliderClass = 'h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500';
+const chipClass = 'px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 font-medium transition-colors';
+
+const layerLabel = (layer: OverlayLayer) =>
+  layer.kind === 'text' ? layer.text.split('\n')[0] || 'Empty text' : 'Image watermark';
+
+/**
+ * Text and image layers over the video: presets for title cards, fact
+ * numbers, lower thirds and watermarks, with styling, placement inside the
+ * safe areas and timed in/out animations on the scene's narration
+ */
+export const OverlayEditor: React.FC<OverlayEditorProps> = ({ overlays, sceneId, duration, showGuides, onShowGuides, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sceneLayers = overlays.filter(layer => layer.sceneId === 'all' || layer.sceneId === sceneId);
+  const selected = sceneLayers.find(layer => layer.id === selectedId) ?? null;
+  const maxTime = Math.max(1, Math.ceil(duration));
+
+  const add = (layer: OverlayLayer) => {
+    onChange([...overlays, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const update = (changes: Partial<TextOverlay> | Partial<ImageOverlay>) => {
+    if (!selected) return;
+    onChange(overlays.map(layer => (layer.id === selected.id ? { ...layer, ...changes } as OverlayLayer : layer)));
+  };
+
+  const move = (layer: OverlayLayer, direction: -1 | 1) => {
+    const index = overlays.indexOf(layer);
+    const target = index + direction;
+    if (target < 0 || target >= overlays.length) return;
+    const next = [...overlays];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addWatermark = async (file: File) => {
+    setError(null);
+    try {
+      add(createImageOverlay('all', await prepareWatermark(file)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the image.');
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Text &amp; overlays {sceneLayers.length > 0 && <span className="text-purple-400">({sceneLayers.length})</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <div className="flex flex-wrap gap-2">
+            {OVERLAY_PRESETS.map(preset => (
+              <button key={preset.id} onClick={() => add(preset.create(sceneId))} className={chipClass}>
+                + {preset.label}
+              </button>
+            ))}
+            <button onClick={() => add(createTextOverlay(sceneId, { text: 'Your text' }))} className={chipClass}>+ Text</button>
+            <label className={`${chipClass} cursor-pointer`}>
+              + Logo / watermark
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) addWatermark(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+            <input type="checkbox" checked={showGuides} onChange={(e) => onShowGuides(e.target.checked)} className="accent-purple-500" />
+            Show safe-area guides in the preview
+          </label>
+
+          {sceneLayers.length > 0 && (
+            <div className="space-y-1">
+              {sceneLayers.map(layer => (
+                <div
+                  key={layer.id}
+                  onClick={() => setSelectedId(layer.id === selectedId ? null : layer.id)}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer border transition-colors ${layer.id === selectedId ? 'border-purple-500/50 bg-purple-500/10' : 'border-white/5 bg-black/20 hover:border-white/20'}`}
+                >
+                  <span className="flex-1 truncate text-gray-200">{layerLabel(layer)}</span>
+                  <span className="text-gray-500">{layer.sceneId === 'all' ? 'All scenes' : 'This scene'}</span>
+                  <button title="Move down a layer" onClick={(e) => { e.stopPropagation(); move(layer, -1); }} className="text-gray-500 hover:text-white">
+                    <ArrowDownIcon className="w-3 h-3" />
+                  </button>
+                  <button title="Move up a layer" onClick={(e) => { e.stopPropagation(); move(layer, 1); }} className="text-gray-500 hover:text-white">
+                    <ArrowUpIcon className="w-3 h-3" />
+                  </button>
+                  <button title="Delete" onClick={(e) => { e.stopPropagation(); onChange(overlays.filter(other => other.id !== layer.id)); }} className="text-gray-500 hover:text-red-400">
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selected && (
+            <div className="space-y-4 border-t border-white/5 pt-4">
+              {selected.kind === 'text' && (
+                <>
+                  <textarea
+                    value={selected.text}
+                    onChange={(e) => update({ text: e.target.value })}
+                    rows={2}
+                    className={`${inputClass} w-full resize-none`}
+                  />
+                  <p className="text-gray-500">{'{n}'} is replaced with the scene number, {'{title}'} with the project title.</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <label className="flex flex-col gap-1 text-gray-400">
+                      Font
+                      <select value={selected.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass}>
+                        {OVERLAY_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                      Weight
+                      <select value={selected.fontWeight} onChange={(e) => update({ fontWeight: parseInt(e.target.value, 10) })} className={inputClass}>
+                        {[400, 600, 700, 800, 900].map(weight => <option key={weight} value={weight}>{weight}</option>)}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                      Color
+                      <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value })} className="h-9 w-full bg-transparent cursor-pointer" />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                      Outline
+                      <input type="color" value={selected.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} className="h-9 w-full bg-transparent cursor-pointer" />
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-2 text-gray-400">
+                      <span>Size: <span className="text-purple-400 font-bold">{Math.round(selected.fontSize * 100)}</span></span>
+                      <input type="range" min="0.02" max="0.2" step="0.005" value={selected.fontSize} onChange={(e) => update({ fontSize: parseFloat(e.target.value) })} className={sliderClass} />
+                    </label>
+                    <label className="flex flex-col gap-2 text-gray-400">
+                      <span>Outline width: <span className="text-purple-400 font-bold">{Math.round(selected.strokeWidth * 100)}%</span></span>
+                      <input type="range" min="0" max="0.2" step="0.01" value={selected.strokeWidth} onChange={(e) => update({ strokeWidth: parseFloat(e.target.value) })} className={sliderClass} />
+                    </label>
+                  </div>
+                  <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={selected.backgroundColor !== null}
+                      onChange={(e) => update({ backgroundColor: e.target.checked ? 'rgba(0, 0, 0, 0.6)' : null })}
+                      className="accent-purple-500"
+                    />
+                    Background box
+                  </label>
+                </>
+              )}
+
+              {selected.kind === 'image' && (
+                <label className="flex flex-col gap-2 text-gray-400">
+                  <span>Width: <span className="text-purple-400 font-bold">{Math.round(selected.width * 100)}%</span></span>
+                  <input type="range" min="0.03" max="0.6" step="0.01" value={selected.width} onChange={(e) => update({ width: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="grid grid-cols-3 gap-1 w-24 shrink-0" title="Quick position inside the title-safe area">
+                  {OVERLAY_POSITIONS.map(position => (
+                    <button
+                      key={`${position.x}-${position.y}`}
+                      onClick={() => update(selected.kind === 'text' ? position : { x: position.x, y: position.y })}
+                      className={`h-6 rounded ${selected.x === position.x && selected.y === position.y ? 'bg-purple-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="flex flex-col gap-2 text-gray-400">
+                    <span>Horizontal: <span className="text-purple-400 font-bold">{Math.round(selected.x * 100)}%</span></span>
+                    <input type="range" min="0" max="1" step="0.01" value={selected.x} onChange={(e) => update({ x: parseFloat(e.target.value) })} className={sliderClass} />
+                  </label>
+                  <label className="flex flex-col gap-2 text-gray-400">
+                    <span>Vertical: <span className="text-purple-400 font-bold">{Math.round(selected.y * 100)}%</span></span>
+                    <input type="range" min="0" max="1" step="0.01" value={selected.y} onChange={(e) => update({ y: parseFloat(e.target.value) })} className={sliderClass} />
+                  </label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="flex flex-col gap-2 text-gray-400">
+                  <span>Opacity: <span className="text-purple-400 font-bold">{Math.round(selected.opacity * 100)}%</span></span>
+                  <input type="range" min="0.1" max="1" step="0.05" value={selected.opacity} onChange={(e) => update({ opacity: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                  Shown on
+                  <select
+                    value={selected.sceneId === 'all' ? 'all' : 'scene'}
+                    onChange={(e) => update({ sceneId: e.target.value === 'all' ? 'all' : sceneId })}
+                    className={inputClass}
+                  >
+                    <option value="scene">This scene</option>
+                    <option value="all">Every scene</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2 text-gray-400">
+                  <span>Appears at: <span className="text-purple-400 font-bold">{selected.start.toFixed(1)}s</span></span>
+                  <input type="range" min="0" max={maxTime} step="0.1" value={selected.start} onChange={(e) => update({ start: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+                <label className="flex flex-col gap-2 text-gray-400">
+                  <span>Disappears at: <span className="text-purple-400 font-bold">{selected.end === null ? 'scene end' : `${selected.end.toFixed(1)}s`}</span></span>
+                  <input
+                    type="range"
+                    min="0"
+                    max={maxTime}
+                    step="0.1"
+                    value={selected.end ?? maxTime}
+                    onChange={(e) => {
+                      const end = parseFloat(e.target.value);
+                      update({ end: end >= maxTime ? null : Math.max(selected.start, end) });
+                    }}
+                    className={sliderClass}
+                  />
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="flex flex-col gap-1 text-gray-400">
+                  In
+                  <select value={selected.animationIn} onChange={(e) => update({ animationIn: e.target.value as OverlayAnimation })} className={inputClass}>
+                    {OVERLAY_ANIMATIONS.map(animation => <option key={animation.id} value={animation.id}>{animation.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                  Out
+                  <select value={selected.animationOut} onChange={(e) => update({ animationOut: e.target.value as OverlayAnimation })} className={inputClass}>
+                    {OVERLAY_ANIMATIONS.map(animation => <option key={animation.id} value={animation.id}>{animation.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2 text-gray-400">
+                  <span>Animation: <span className="text-purple-400 font-bold">{selected.animationSeconds.toFixed(1)}s</span></span>
+                  <input type="range" min="0.1" max="2" step="0.1" value={selected.animationSeconds} onChange={(e) => update({ animationSeconds: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useRef, useState } from 'react';
+import { ProjectFileKind } from '../services/projectFile';
+
+interface ProjectFileMenuProps {
+  disabled: boolean;
+  onExport: (kind: ProjectFileKind) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+}
+
+const itemClass = 'w-full text-left px-4 py-2 hover:bg-white/5 transition-colors';
+
+/**
+ * Header menu for saving the whole editor to a portable project file and
+ * opening one a teammate sent
+ */
+export const ProjectFileMenu: React.FC<ProjectFileMenuProps> = ({ disabled, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsOpen(false);
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isBusy}
+        className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+      >
+        {isBusy ? 'Working...' : 'Project ▾'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 py-1 bg-gray-900 border border-white/10 rounded-xl shadow-2xl text-xs text-gray-300 animate-fade-in">
+          <button onClick={() => run(() => onExport('zip'))} className={itemClass}>
+            Export project <span className="text-gray-500">(.zip bundle)</span>
+          </button>
+          <button onClick={() => run(() => onExport('json'))} className={itemClass}>
+            Export project <span className="text-gray-500">(single .json)</span>
+          </button>
+          <button onClick={() => inputRef.current?.click()} className={`${itemClass} border-t border-white/5`}>
+            Import project...
+          </button>
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,.json,application/zip,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) run(() => onImport(file));
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { PronunciationEntry, createLexiconEntry } from '../services/narrationMarkup';
+import { TrashIcon } from './Icons';
+
+interface PronunciationPanelProps {
+  lexicon: PronunciationEntry[];
+  onChange: (lexicon: PronunciationEntry[]) => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500';
+
+const MARKUP_HELP: { syntax: string; effect: string }[] = [
+  { syntax: '[pause 500ms]', effect: 'Inserts silence (also 1.5s, or [pause] for half a second)' },
+  { syntax: '*word*', effect: 'Stresses the word or phrase' },
+  { syntax: '[style: whispering]', effect: 'Reads the sentence that follows in this style' },
+];
+
+/**
+ * Pronunciation lexicon (term → respelling, applied to every narration
+ * before it is sent) and a cheat sheet for the inline script markup
+ */
+export const PronunciationPanel: React.FC<PronunciationPanelProps> = ({ lexicon, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (id: string, changes: Partial<PronunciationEntry>) =>
+    onChange(lexicon.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Pronunciation &amp; script markup {lexicon.length > 0 && <span className="text-purple-400">({lexicon.length})</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <div className="space-y-1 text-gray-400">
+            {MARKUP_HELP.map(item => (
+              <p key={item.syntax}>
+                <code className="text-purple-300 bg-black/40 rounded px-1.5 py-0.5">{item.syntax}</code> {item.effect}
+              </p>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-gray-400">Say it like this: terms are replaced as whole words before the text is sent to the voice.</p>
+            {lexicon.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2">
+                <input
+                  value={entry.term}
+                  placeholder="Term (e.g., Tardigrada)"
+                  onChange={(e) => update(entry.id, { term: e.target.value })}
+                  className={inputClass}
+                />
+                <span className="text-gray-600">→</span>
+                <input
+                  value={entry.respelling}
+                  placeholder="Respelling (e.g., tar-dih-GRAY-duh)"
+                  onChange={(e) => update(entry.id, { respelling: e.target.value })}
+                  className={inputClass}
+                />
+                <label className="flex items-center gap-1 text-gray-500 cursor-pointer select-none whitespace-nowrap" title="Only replace exact-case matches">
+                  <input type="checkbox" checked={entry.matchCase} onChange={(e) => update(entry.id, { matchCase: e.target.checked })} className="accent-purple-500" />
+                  Aa
+                </label>
+                <button title="Remove" onClick={() => onChange(lexicon.filter(other => other.id !== entry.id))} className="text-gray-500 hover:text-red-400 transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange([...lexicon, createLexiconEntry()])}
+              className="w-full py-2 rounded-lg text-gray-400 hover:text-white border border-dashed border-white/10 transition-colors"
+            >
+              + Add pronunciation
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedContent, GeneratedMetadata } from '../types';
+import { generateMetadata } from '../services/generationService';
+import { isAbortError } from '../services/requestScheduler';
+import {
+  PublishingPackage,
+  buildChapters,
+  buildPublishingBundle,
+  composeDescription,
+  formatTimestamp,
+  normalizeMetadata,
+  renderThumbnail,
+} from '../services/publishing';
+import { slugify } from '../services/batch';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, SparklesIcon } from './Icons';
+
+interface PublishingPanelProps {
+  results: GeneratedContent[];
+  currentIndex: number;
+  projectTitle: string;
+  apiKey: string;
+  providerId: string;
+  requiresApiKey: boolean;
+  onNeedApiKey: () => void;
+}
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500';
+const buttonClass = 'flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const splitList = (text: string) => text.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Publishing prep: title options, SEO description, tags, hashtags and
+ * chapters written from the scenes, plus a headline thumbnail, exported
+ * together as a JSON/TXT bundle for the upload form
+ */
+export const PublishingPanel: React.FC<PublishingPanelProps> = ({
+  results,
+  currentIndex,
+  projectTitle,
+  apiKey,
+  providerId,
+  requiresApiKey,
+  onNeedApiKey,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [metadata, setMetadata] = useState<GeneratedMetadata | null>(null);
+  const [title, setTitle] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [hashtagsText, setHashtagsText] = useState('');
+  const [thumbnailScene, setThumbnailScene] = useState(currentIndex);
+  const [thumbnail, setThumbnail] = useState<{ blob: Blob; url: string } | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retries, setRetries] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const thumbnailImage = results[thumbnailScene]?.imageUrl ?? results.find(result => result.imageUrl)?.imageUrl;
+  const durations = results.map(result => result.audioDuration);
+  const chapters = metadata && durations.every(duration => duration !== undefined)
+    ? buildChapters(durations as number[], metadata.chapterTitles)
+    : [];
+
+  useEffect(() => {
+    if (!metadata || !thumbnailImage) return;
+    let cancelled = false;
+    renderThumbnail(thumbnailImage, metadata.thumbnailText).then((blob) => {
+      if (cancelled) return;
+      setThumbnail({ blob, url: URL.createObjectURL(blob) });
+    }).catch((e) => console.error('Thumbnail rendering failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [metadata?.thumbnailText, thumbnailImage]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Releases each preview once it is replaced or the panel unmounts
+  useEffect(() => () => {
+    if (thumbnail) URL.revokeObjectURL(thumbnail.url);
+  }, [thumbnail]);
+
+  const handleGenerate = async () => {
+    if (requiresApiKey && !apiKey) {
+      onNeedApiKey();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setRetries(0);
+    setError(null);
+    try {
+      const generated = await generateMetadata({
+        title: projectTitle,
+        scenes: results.map(result => ({ narration: result.narrationText, visualPrompt: result.visualPrompt })),
+        apiKey,
+        signal: controller.signal,
+        onRetry: () => setRetries(count => count + 1),
+      }, providerId);
+      setMetadata(generated);
+      setTitle(generated.titles[0]);
+      setTagsText(generated.tags.join(', '));
+      setHashtagsText(generated.hashtags.join(' '));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Metadata generation failed:", e);
+      setError(e instanceof Error ? e.message : "Could not write the metadata.");
+    } finally {
+      abortRef.current = null;
+      setIsWriting(false);
+    }
+  };
+
+  // The edited fields, cleaned up to YouTube's limits the same way as the generated ones
+  const buildPackage = (): PublishingPackage | null => {
+    if (!metadata) return null;
+    const cleaned = normalizeMetadata({
+      ...metadata,
+      tags: splitList(tagsText),
+      hashtags: hashtagsText.split(/[\s,]+/).filter(Boolean),
+    }, results.length);
+    return { ...cleaned, title: title.trim() || cleaned.titles[0], chapters };
+  };
+
+  const baseName = slugify(title || projectTitle || 'video');
+
+  const handleExport = async () => {
+    const pkg = buildPackage();
+    if (!pkg) return;
+    try {
+      downloadBlob(await buildPublishingBundle(pkg, thumbnail?.blob ?? null), `${baseName}-youtube.zip`);
+    } catch (e) {
+      console.error("Metadata export failed:", e);
+      setError(e instanceof Error ? e.message : "Could not export the metadata.");
+    }
+  };
+
+  const pkg = buildPackage();
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} YouTube metadata &amp; thumbnail
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in">
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={isWriting}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <SparklesIcon className="w-3 h-3" /> {isWriting ? `Writing${retries > 0 ? ` (retry ${retries})` : ''}...` : metadata ? 'Write again' : 'Write title, description & tags'}
+            </button>
+            {isWriting && (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {metadata && pkg && (
+            <>
+              <div className="space-y-2">
+                <label className="flex flex-col gap-1 text-gray-400">
+                  Title <span className="text-gray-600">{title.length}/100</span>
+                  <input value={title} maxLength={100} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+                </label>
+                <div className="flex flex-wrap gap-1">
+                  {metadata.titles.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setTitle(option)}
+                      className={`px-2 py-1 rounded-lg text-left transition-colors ${option === title ? 'bg-purple-500/20 text-purple-300' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex flex-col gap-1 text-gray-400">
+                Description
+                <textarea
+                  value={metadata.description}
+                  rows={5}
+                  onChange={(e) => setMetadata({ ...metadata, description: e.target.value })}
+                  className={`${inputClass} resize-y custom-scrollbar`}
+                />
+              </label>
+
+              {chapters.length > 0 ? (
+                <div className="space-y-1 text-gray-400">
+                  <p>Chapters (added to the description)</p>
+                  {chapters.map(chapter => (
+                    <p key={chapter.start} className="font-mono text-gray-300">{formatTimestamp(chapter.start)} {chapter.title}</p>
+                  ))}
+                </div>
+              ) : results.length > 1 && (
+                <p className="text-gray-500">No chapters: YouTube needs at least 3 of 10 seconds or more.</p>
+              )}
+
+              <label className="flex flex-col gap-1 text-gray-400">
+                Tags <span className="text-gray-600">{pkg.tags.length} kept of {splitList(tagsText).length}, comma separated</span>
+                <textarea value={tagsText} rows={2} onChange={(e) => setTagsText(e.target.value)} className={`${inputClass} resize-y`} />
+              </label>
+
+              <label className="flex flex-col gap-1 text-gray-400">
+                Hashtags
+                <input value={hashtagsText} onChange={(e) => setHashtagsText(e.target.value)} className={inputClass} />
+              </label>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-1 text-gray-400">
+                    Thumbnail headline
+                    <input
+                      value={metadata.thumbnailText}
+                      onChange={(e) => setMetadata({ ...metadata, thumbnailText: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                  {results.length > 1 && (
+                    <label className="flex flex-col gap-1 text-gray-400">
+                      Background
+                      <select value={thumbnailScene} onChange={(e) => setThumbnailScene(parseInt(e.target.value, 10))} className={inputClass}>
+                        {results.map((result, index) => result.imageUrl && (
+                          <option key={result.sceneId ?? index} value={index}>Scene {index + 1}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                {thumbnail && (
+                  <img src={thumbnail.url} alt="Thumbnail preview" className="w-full aspect-video rounded-lg border border-white/10" />
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button onClick={() => navigator.clipboard.writeText(composeDescription(pkg))} className={buttonClass}>
+                  Copy description
+                </button>
+                <button onClick={() => thumbnail && downloadBlob(thumbnail.blob, `${baseName}-thumbnail.jpg`)} disabled={!thumbnail} className={buttonClass}>
+                  <DownloadIcon className="w-3 h-3" /> Thumbnail
+                </button>
+                <button onClick={handleExport} className={buttonClass}>
+                  <DownloadIcon className="w-3 h-3" /> Bundle (.zip)
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
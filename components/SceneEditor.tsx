@@ -0,0 +1,254 @@
+import React from 'react';
+import { GenerationMode, Project, Scene, StylePreset } from '../types';
+import { VOICES, addScene, duplicateScene, moveScene, removeScene, updateScene } from '../services/project';
+import { estimateSpeechSeconds } from '../services/scriptWriter';
+import { dialogueToPlainText, getSpeakers, parseSceneDialogue, resolveSpeakerVoices } from '../services/dialogue';
+import { markupPauseSeconds, stripMarkup } from '../services/narrationMarkup';
+import { VoicePreset, findVoice } from '../services/voiceCatalog';
+import { ArrowUpIcon, ArrowDownIcon, DuplicateIcon, TrashIcon, PlusIcon } from './Icons';
+
+interface SceneEditorProps {
+  project: Project;
+  generationMode: GenerationMode;
+  stylePresets: StylePreset[];
+  voicePresets: VoicePreset[];
+  onChange: (project: Project) => void;
+  onManageStyles: () => void;
+  /** Opens the voice gallery for one scene */
+  onBrowseVoices: (sceneId: string) => void;
+}
+
+const voiceButtonClass = (selected: boolean) => `px-3 py-2 rounded-lg text-xs font-semibold border transition-all ${selected
+  ? 'bg-purple-600 border-purple-500 text-white shadow-[0_0_15px_rgba(168,85,247,0.4)]'
+  : 'bg-black/20 border-white/5 text-gray-400 hover:border-white/20 hover:text-white'
+}`;
+
+// Quick picks under each scene; the gallery has the rest
+const FEATURED_VOICES = VOICES.slice(0, 5);
+
+const voiceLabel = (voice: string) => {
+  const info = findVoice(voice);
+  return info ? `${voice} (${info.gender === 'female' ? 'F' : 'M'}, ${info.tone})` : voice;
+};
+
+const iconButtonClass = 'p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+export const SceneEditor: React.FC<SceneEditorProps> = ({
+  project,
+  generationMode,
+  stylePresets,
+  voicePresets,
+  onChange,
+  onManageStyles,
+  onBrowseVoices,
+}) => {
+  const showNarration = generationMode === 'both' || generationMode === 'narration';
+  const showVisuals = generationMode === 'both' || generationMode === 'image';
+
+  const change = (scene: Scene, changes: Partial<Omit<Scene, 'id'>>) => {
+    onChange(updateScene(project, scene.id, changes));
+  };
+
+  return (
+    <div className="space-y-6">
+      <input
+        value={project.title}
+        onChange={(e) => onChange({ ...project, title: e.target.value })}
+        placeholder="Project title"
+        className="w-full bg-transparent border-b border-white/10 pb-2 text-xl font-semibold text-white placeholder-gray-600 focus:outline-none focus:border-pink-500"
+      />
+
+      {project.scenes.map((scene, index) => {
+        const dialogue = parseSceneDialogue(scene);
+        const speakerVoices = dialogue ? resolveSpeakerVoices(getSpeakers(dialogue), scene) : null;
+
+        return (
+          <div key={scene.id} className="bg-gray-900/50 border border-white/5 rounded-2xl p-6 sm:p-8 backdrop-blur-sm relative overflow-hidden group animate-fade-in space-y-6">
+            <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-purple-500 to-pink-500 group-hover:shadow-[0_0_20px_rgba(236,72,153,0.4)] transition-shadow"></div>
+
+            {/* Scene Header */}
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">
+                Scene {index + 1} <span className="text-gray-600 font-normal normal-case">of {project.scenes.length}</span>
+              </h3>
+              <div className="flex items-center gap-1">
+                <button title="Move up" onClick={() => onChange(moveScene(project, scene.id, -1))} disabled={index === 0} className={iconButtonClass}>
+                  <ArrowUpIcon className="w-4 h-4" />
+                </button>
+                <button title="Move down" onClick={() => onChange(moveScene(project, scene.id, 1))} disabled={index === project.scenes.length - 1} className={iconButtonClass}>
+                  <ArrowDownIcon className="w-4 h-4" />
+                </button>
+                <button title="Duplicate" onClick={() => onChange(duplicateScene(project, scene.id))} className={iconButtonClass}>
+                  <DuplicateIcon className="w-4 h-4" />
+                </button>
+                <button title="Delete" onClick={() => onChange(removeScene(project, scene.id))} disabled={project.scenes.length <= 1} className={`${iconButtonClass} hover:text-red-400`}>
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {/* Narration */}
+            {showNarration && (
+              <div>
+                <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <span className="flex items-center justify-center w-6 h-6 rounded-full bg-purple-500/20 text-purple-400 text-xs">1</span>
+                  Narration Script
+                </h4>
+                <textarea
+                  value={scene.narrationText}
+                  onChange={(e) => change(scene, { narrationText: e.target.value })}
+                  placeholder="Enter the fact or story (e.g., 'Did you know that octopuses have three hearts? Two pump blood to the gills, while the third pumps it to the rest of the body...')"
+                  className="w-full bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500/50 min-h-[120px] resize-none"
+                />
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mt-4">
+                  <div className="flex items-center gap-4 flex-1 w-full sm:w-auto">
+                    <span className="text-xs font-bold text-purple-400 uppercase tracking-wider whitespace-nowrap">Speed: {scene.speakingRate}x</span>
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="2.0"
+                      step="0.05"
+                      value={scene.speakingRate}
+                      onChange={(e) => change(scene, { speakingRate: parseFloat(e.target.value) })}
+                      className="flex-1 h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    />
+                  </div>
+                  <div className="flex items-center gap-4 flex-1 w-full sm:w-auto">
+                    <span className="text-xs font-bold text-purple-400 uppercase tracking-wider whitespace-nowrap">
+                      Pitch: {(scene.pitchSemitones ?? 0) > 0 ? '+' : ''}{scene.pitchSemitones ?? 0} st
+                    </span>
+                    <input
+                      type="range"
+                      min="-6"
+                      max="6"
+                      step="1"
+                      value={scene.pitchSemitones ?? 0}
+                      onChange={(e) => change(scene, { pitchSemitones: parseInt(e.target.value, 10) })}
+                      className="flex-1 h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {scene.narrationText.length} chars · ~{Math.round(estimateSpeechSeconds(stripMarkup(dialogueToPlainText(scene)), scene.speakingRate) + markupPauseSeconds(scene.narrationText))}s
+                  </p>
+                </div>
+
+                {/* Voice Selection */}
+                {speakerVoices ? (
+                  <div className="space-y-3 mt-4">
+                    <p className="text-xs text-gray-500">Pick a voice for each speaker.</p>
+                    {Object.entries(speakerVoices).map(([speaker, assigned]) => (
+                      <div key={speaker} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <span className="text-xs font-bold text-purple-400 uppercase tracking-wider w-24 truncate">{speaker}</span>
+                        <select
+                          value={assigned}
+                          onChange={(e) => change(scene, { speakerVoices: { ...speakerVoices, [speaker]: e.target.value } })}
+                          className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-gray-200 focus:outline-none focus:border-purple-500"
+                        >
+                          {VOICES.map(voice => <option key={voice} value={voice}>{voiceLabel(voice)}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 mt-4">
+                      {(FEATURED_VOICES.includes(scene.voice) ? FEATURED_VOICES : [...FEATURED_VOICES.slice(0, 4), scene.voice]).map((voice) => (
+                        <button
+                          key={voice}
+                          title={voiceLabel(voice)}
+                          onClick={() => change(scene, { voice })}
+                          className={voiceButtonClass(scene.voice === voice)}
+                        >
+                          {voice}
+                        </button>
+                      ))}
+                      <button onClick={() => onBrowseVoices(scene.id)} className={voiceButtonClass(false)}>
+                        All voices...
+                      </button>
+                    </div>
+                  </>
+                )}
+                <label className="flex items-center gap-2 mt-3 text-xs text-gray-500 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={scene.dialogue}
+                    onChange={(e) => change(scene, e.target.checked ? { dialogue: true } : { dialogue: false, speakerVoices: undefined })}
+                    className="accent-purple-500"
+                  />
+                  Dialogue: read lines written as "Host: ..." and "Guest: ..." with a voice per speaker
+                </label>
+                {scene.dialogue && !dialogue && (
+                  <p className="text-xs text-gray-600 mt-1">Label each line with its speaker, with at least two speakers, to hear separate voices.</p>
+                )}
+
+                {/* Delivery */}
+                <div className="flex flex-col sm:flex-row gap-2 mt-3 text-xs">
+                  <input
+                    value={scene.direction ?? ''}
+                    onChange={(e) => change(scene, { direction: e.target.value || undefined })}
+                    placeholder='Delivery direction (e.g., "excited documentary narrator")'
+                    className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+                  />
+                  {voicePresets.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const preset = voicePresets.find(candidate => candidate.id === e.target.value);
+                        if (preset) change(scene, { voice: preset.voice, speakingRate: preset.speakingRate, direction: preset.direction || undefined });
+                      }}
+                      className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+                    >
+                      <option value="">Apply voice preset...</option>
+                      {voicePresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                    </select>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Visuals */}
+            {showVisuals && (
+              <div>
+                <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <span className="flex items-center justify-center w-6 h-6 rounded-full bg-pink-500/20 text-pink-400 text-xs">{generationMode === 'both' ? '2' : '1'}</span>
+                  Image Visual Prompt
+                </h4>
+                <textarea
+                  value={scene.visualPrompt}
+                  onChange={(e) => change(scene, { visualPrompt: e.target.value })}
+                  placeholder="Describe the image scene (e.g., 'A cinematic underwater shot of a majestic octopus with three glowing hearts visible, photorealistic, 8k resolution')"
+                  className="w-full bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-pink-500/50 min-h-[100px] resize-none"
+                />
+                <div className="flex items-center gap-2 mt-4 text-xs">
+                  <span className="font-bold text-pink-400 uppercase tracking-wider">Style</span>
+                  <select
+                    value={stylePresets.some(preset => preset.id === scene.stylePresetId) ? scene.stylePresetId : ''}
+                    onChange={(e) => change(scene, { stylePresetId: e.target.value || undefined })}
+                    className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-pink-500"
+                  >
+                    <option value="">No style preset</option>
+                    {stylePresets.map(preset => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.name}{preset.referenceImages.length > 0 ? ` (${preset.referenceImages.length} ref)` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button onClick={onManageStyles} className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 font-medium transition-colors">
+                    Manage...
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange(addScene(project))}
+        className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl border border-dashed border-white/10 text-gray-400 hover:text-white hover:border-white/30 transition-colors text-sm font-medium"
+      >
+        <PlusIcon className="w-4 h-4" /> Add Scene
+      </button>
+    </div>
+  );
+};
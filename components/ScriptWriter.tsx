@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedScript, ScriptTone } from '../types';
+import { generateScript } from '../services/generationService';
+import { isAbortError } from '../services/requestScheduler';
+import { SCRIPT_TONES, estimateWordBudget } from '../services/scriptWriter';
+import { SparklesIcon } from './Icons';
+
+interface ScriptWriterProps {
+  apiKey: string;
+  providerId: string;
+  requiresApiKey: boolean;
+  speakingRate: number;
+  onNeedApiKey: () => void;
+  onScript: (script: GeneratedScript) => void;
+}
+
+/**
+ * "Topic to script" panel: writes a hook, N facts and an outro with a visual
+ * prompt each, which then land in the storyboard for editing.
+ */
+export const ScriptWriter: React.FC<ScriptWriterProps> = ({
+  apiKey,
+  providerId,
+  requiresApiKey,
+  speakingRate,
+  onNeedApiKey,
+  onScript,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [topic, setTopic] = useState('');
+  const [tone, setTone] = useState<ScriptTone>('curious');
+  const [audience, setAudience] = useState('');
+  const [targetSeconds, setTargetSeconds] = useState(60);
+  const [factCount, setFactCount] = useState(5);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retries, setRetries] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleWrite = async () => {
+    if (!topic.trim()) {
+      setError("Please enter a topic.");
+      return;
+    }
+    if (requiresApiKey && !apiKey) {
+      onNeedApiKey();
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setRetries(0);
+    setError(null);
+    try {
+      const script = await generateScript({
+        topic: topic.trim(),
+        tone,
+        audience: audience.trim(),
+        targetSeconds,
+        factCount,
+        speakingRate,
+        apiKey,
+        signal: controller.signal,
+        onRetry: () => setRetries(count => count + 1),
+      }, providerId);
+      onScript(script);
+      setIsOpen(false);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Script writing failed:", e);
+      setError(e instanceof Error ? e.message : "Script writing failed.");
+    } finally {
+      abortRef.current = null;
+      setIsWriting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl border border-purple-500/30 bg-purple-500/5 text-purple-300 hover:bg-purple-500/10 transition-colors text-sm font-medium"
+      >
+        <SparklesIcon className="w-4 h-4" /> Write the script from a topic
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900/50 border border-purple-500/20 rounded-2xl p-6 sm:p-8 backdrop-blur-sm space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <SparklesIcon className="w-5 h-5 text-purple-400" /> Topic to Script
+        </h3>
+        <button onClick={() => setIsOpen(false)} className="text-xs text-gray-500 hover:text-white">Close</button>
+      </div>
+
+      <input
+        value={topic}
+        onChange={(e) => setTopic(e.target.value)}
+        placeholder="Topic (e.g., 'octopuses', 'the deep ocean', 'black holes')"
+        className="w-full bg-black/40 border border-white/10 rounded-xl p-4 text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-xs">
+        <label className="flex flex-col gap-2 text-gray-400">
+          Tone
+          <select
+            value={tone}
+            onChange={(e) => setTone(e.target.value as ScriptTone)}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+          >
+            {SCRIPT_TONES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2 text-gray-400">
+          Audience
+          <input
+            value={audience}
+            onChange={(e) => setAudience(e.target.value)}
+            placeholder="e.g., curious teens, science fans"
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-gray-400">
+          <span>Target length: <span className="text-purple-400 font-bold">{targetSeconds}s</span> (~{estimateWordBudget(targetSeconds, speakingRate)} words at {speakingRate}x)</span>
+          <input
+            type="range"
+            min="15"
+            max="300"
+            step="15"
+            value={targetSeconds}
+            onChange={(e) => setTargetSeconds(parseInt(e.target.value, 10))}
+            className="h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-gray-400">
+          <span>Facts: <span className="text-purple-400 font-bold">{factCount}</span> (+ hook and outro)</span>
+          <input
+            type="range"
+            min="1"
+            max="15"
+            step="1"
+            value={factCount}
+            onChange={(e) => setFactCount(parseInt(e.target.value, 10))}
+            className="h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleWrite}
+          disabled={isWriting}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isWriting ? `Writing script${retries > 0 ? ` (retry ${retries})` : ''}...` : 'Write Script'}
+        </button>
+        {isWriting && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center">The script replaces the storyboard below, where every scene stays editable before you generate.</p>
+    </div>
+  );
+};
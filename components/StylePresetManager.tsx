@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { StylePreset } from '../types';
+import { MAX_REFERENCE_IMAGES, createStylePreset, prepareReferenceImage } from '../services/stylePresets';
+import { PlusIcon, TrashIcon } from './Icons';
+
+interface StylePresetManagerProps {
+  presets: StylePreset[];
+  /** Persists the presets; throws when they don't fit in storage */
+  onChange: (presets: StylePreset[]) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-pink-500';
+
+/**
+ * Create and edit named image styles: a prompt suffix, negative guidance and
+ * up to a few reference images that are attached to every image request
+ */
+export const StylePresetManager: React.FC<StylePresetManagerProps> = ({ presets, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(presets[0]?.id ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = presets.find(preset => preset.id === selectedId) ?? null;
+
+  const commit = (next: StylePreset[]) => {
+    try {
+      onChange(next);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the style presets.');
+    }
+  };
+
+  const update = (changes: Partial<Omit<StylePreset, 'id'>>) => {
+    if (!selected) return;
+    commit(presets.map(preset => (preset.id === selected.id ? { ...preset, ...changes } : preset)));
+  };
+
+  const addPreset = () => {
+    const preset = createStylePreset(`Style ${presets.length + 1}`);
+    commit([...presets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const deletePreset = (id: string) => {
+    const remaining = presets.filter(preset => preset.id !== id);
+    commit(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const addReferences = async (files: FileList) => {
+    if (!selected) return;
+    const room = MAX_REFERENCE_IMAGES - selected.referenceImages.length;
+    try {
+      const images = await Promise.all(Array.from(files).slice(0, room).map(file => prepareReferenceImage(file)));
+      update({ referenceImages: [...selected.referenceImages, ...images] });
+    } catch (e) {
+      console.error("Reference image failed to load:", e);
+      setError('Could not read that image.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-6 sm:p-8 max-w-3xl w-full max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Image Styles</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          Styles keep a series consistent: the suffix and reference images (a mascot, brand look or previous frame) are sent with every image of the scenes that use the style.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-6 min-h-0 flex-1">
+          {/* Preset List */}
+          <div className="sm:w-48 shrink-0 space-y-1 overflow-y-auto custom-scrollbar">
+            {presets.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setSelectedId(preset.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate transition-colors ${preset.id === selectedId ? 'bg-pink-500/10 text-pink-300' : 'text-gray-400 hover:bg-white/5'}`}
+              >
+                {preset.name || 'Untitled style'}
+              </button>
+            ))}
+            <button
+              onClick={addPreset}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-gray-500 hover:text-white border border-dashed border-white/10 transition-colors"
+            >
+              <PlusIcon className="w-4 h-4" /> New style
+            </button>
+          </div>
+
+          {/* Preset Editor */}
+          {selected ? (
+            <div className="flex-1 space-y-4 overflow-y-auto custom-scrollbar text-xs text-gray-400">
+              <label className="flex flex-col gap-2">
+                Name
+                <input value={selected.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+              </label>
+              <label className="flex flex-col gap-2">
+                Prompt suffix
+                <textarea
+                  value={selected.promptSuffix}
+                  onChange={(e) => update({ promptSuffix: e.target.value })}
+                  placeholder="e.g., flat vector illustration, pastel palette, soft grain"
+                  className={`${fieldClass} min-h-[60px] resize-none`}
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                Avoid
+                <textarea
+                  value={selected.negativePrompt}
+                  onChange={(e) => update({ negativePrompt: e.target.value })}
+                  placeholder="e.g., text, watermarks, photorealism"
+                  className={`${fieldClass} min-h-[60px] resize-none`}
+                />
+              </label>
+
+              <div className="space-y-2">
+                <span>Reference images ({selected.referenceImages.length}/{MAX_REFERENCE_IMAGES})</span>
+                <div className="flex flex-wrap gap-2">
+                  {selected.referenceImages.map((imageUrl, index) => (
+                    <div key={index} className="relative group">
+                      <img src={imageUrl} className="h-20 rounded-lg border border-white/10" alt={`Reference ${index + 1}`} />
+                      <button
+                        title="Remove"
+                        onClick={() => update({ referenceImages: selected.referenceImages.filter((_, i) => i !== index) })}
+                        className="absolute top-1 right-1 p-1 rounded bg-black/70 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <TrashIcon className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {selected.referenceImages.length < MAX_REFERENCE_IMAGES && (
+                    <label className="h-20 w-20 flex items-center justify-center rounded-lg border border-dashed border-white/10 text-gray-500 hover:text-white hover:border-white/30 cursor-pointer transition-colors">
+                      <PlusIcon className="w-5 h-5" />
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          if (e.target.files) addReferences(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              <button
+                onClick={() => deletePreset(selected.id)}
+                className="flex items-center gap-2 text-gray-500 hover:text-red-400 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" /> Delete style
+              </button>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+              No styles yet. Create one to get started.
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
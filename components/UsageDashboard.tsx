@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BudgetAction,
+  ModelPrice,
+  PriceTable,
+  UsageBudget,
+  clearUsage,
+  estimateCost,
+  formatCost,
+  keyIdFor,
+  loadBudget,
+  loadPrices,
+  loadUsage,
+  saveBudget,
+  savePrices,
+  summarizeByDay,
+} from '../services/usageTracker';
+
+interface UsageDashboardProps {
+  apiKey: string;
+  onClose: () => void;
+}
+
+const ALL_KEYS = '';
+const DAYS_SHOWN = 30;
+
+const fieldClass = 'w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500';
+
+const PRICE_COLUMNS: { field: keyof ModelPrice; label: string }[] = [
+  { field: 'perMillionCharacters', label: '$ / 1M chars' },
+  { field: 'perAudioMinute', label: '$ / audio min' },
+  { field: 'perImage', label: '$ / image' },
+];
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * What each API key has consumed: daily totals, estimated cost from an
+ * editable price table, and soft budgets checked before generating
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ apiKey, onClose }) => {
+  const [records, setRecords] = useState(loadUsage);
+  const [prices, setPrices] = useState<PriceTable>(loadPrices);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+  const [keyFilter, setKeyFilter] = useState(() => apiKey ? keyIdFor(apiKey) : ALL_KEYS);
+
+  const keyIds = useMemo(
+    () => [...new Set([...(apiKey ? [keyIdFor(apiKey)] : []), ...records.map(record => record.keyId)])],
+    [records, apiKey]
+  );
+  const filtered = useMemo(
+    () => (keyFilter === ALL_KEYS ? records : records.filter(record => record.keyId === keyFilter)),
+    [records, keyFilter]
+  );
+  const days = useMemo(() => summarizeByDay(filtered, prices).slice(0, DAYS_SHOWN), [filtered, prices]);
+  const models = useMemo(() => [...new Set([...Object.keys(prices), ...records.map(record => record.model)])], [prices, records]);
+
+  const total = filtered.reduce((sum, record) => sum + estimateCost(record, prices), 0);
+  const calls = filtered.length;
+  const failures = filtered.filter(record => !record.success).length;
+  const averageLatency = calls ? filtered.reduce((sum, record) => sum + record.latencyMs, 0) / calls : 0;
+
+  const changePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { perMillionCharacters: 0, perAudioMinute: 0, perImage: 0 };
+    const next = { ...prices, [model]: { ...current, [field]: Math.max(0, parseFloat(value) || 0) } };
+    setPrices(next);
+    savePrices(next);
+  };
+
+  const changeBudget = (changes: Partial<UsageBudget>) => {
+    const next = { ...budget, ...changes };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete the whole usage log? Prices and budgets are kept.')) return;
+    clearUsage();
+    setRecords([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-6 sm:p-8 max-w-4xl w-full max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Usage & Cost</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Every narration and image call is logged in this browser. Costs are estimates from the price table below, not your bill.
+        </p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-6 text-xs">
+          {/* Summary */}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-gray-400">
+              Key
+              <select value={keyFilter} onChange={(e) => setKeyFilter(e.target.value)} className={`${fieldClass} w-auto`}>
+                <option value={ALL_KEYS}>All keys</option>
+                {keyIds.map(keyId => (
+                  <option key={keyId} value={keyId}>{keyId}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex-1" />
+            <span className="text-gray-400">{calls} calls · {failures} failed · {(averageLatency / 1000).toFixed(1)}s avg</span>
+            <span className="text-pink-300 font-bold text-sm">{formatCost(total)}</span>
+          </div>
+
+          {/* Daily Totals */}
+          {days.length > 0 ? (
+            <table className="w-full text-left text-gray-300">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-1 font-medium">Day</th>
+                  <th className="py-1 font-medium text-right">Narrations</th>
+                  <th className="py-1 font-medium text-right">Characters</th>
+                  <th className="py-1 font-medium text-right">Audio</th>
+                  <th className="py-1 font-medium text-right">Images</th>
+                  <th className="py-1 font-medium text-right">Failed</th>
+                  <th className="py-1 font-medium text-right">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(day => (
+                  <tr key={day.date} className="border-t border-white/5">
+                    <td className="py-1">{day.date}</td>
+                    <td className="py-1 text-right">{day.narrationCalls}</td>
+                    <td className="py-1 text-right">{day.characters.toLocaleString()}</td>
+                    <td className="py-1 text-right">{Math.round(day.audioSeconds)}s</td>
+                    <td className="py-1 text-right">{day.images}</td>
+                    <td className={`py-1 text-right ${day.failures ? 'text-red-400' : ''}`}>{day.failures}</td>
+                    <td className="py-1 text-right">{formatCost(day.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-500 text-center py-6">No usage recorded yet.</p>
+          )}
+
+          {/* Budget */}
+          <div className="bg-gray-800/50 border border-white/5 rounded-xl p-4 space-y-3">
+            <p className="text-gray-300 font-medium">Soft budget (per key)</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-gray-400">
+              <label className="flex flex-col gap-2">
+                Daily limit ($)
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={budget.dailyLimit ?? ''}
+                  placeholder="None"
+                  onChange={(e) => changeBudget({ dailyLimit: parseLimit(e.target.value) })}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                Monthly limit ($)
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={budget.monthlyLimit ?? ''}
+                  placeholder="None"
+                  onChange={(e) => changeBudget({ monthlyLimit: parseLimit(e.target.value) })}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                When exceeded
+                <select value={budget.action} onChange={(e) => changeBudget({ action: e.target.value as BudgetAction })} className={fieldClass}>
+                  <option value="warn">Warn and ask</option>
+                  <option value="block">Block generation</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          {/* Price Table */}
+          <div className="space-y-2">
+            <p className="text-gray-300 font-medium">Price table (USD)</p>
+            <table className="w-full text-left text-gray-300">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-1 font-medium">Model</th>
+                  {PRICE_COLUMNS.map(column => <th key={column.field} className="py-1 font-medium">{column.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => (
+                  <tr key={model} className="border-t border-white/5">
+                    <td className="py-1 pr-2 font-mono">{model}</td>
+                    {PRICE_COLUMNS.map(column => (
+                      <td key={column.field} className="py-1 pr-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={prices[model]?.[column.field] ?? 0}
+                          onChange={(e) => changePrice(model, column.field, e.target.value)}
+                          className={fieldClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button onClick={handleClear} disabled={records.length === 0} className="text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50">
+            Clear usage log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
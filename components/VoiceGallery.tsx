@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { generateNarration } from '../services/generationService';
+import { getTtsProvider } from '../services/providers';
+import { checkCallBudget, estimateNarrationCost } from '../services/usageTracker';
+import {
+  ANY_FILTER,
+  PREVIEW_TEXT,
+  VOICE_CATALOG,
+  VOICE_TONES,
+  VoiceFilter,
+  VoiceGender,
+  VoicePreset,
+  clearVoicePreviews,
+  createVoicePreset,
+  filterVoices,
+  getCachedPreview,
+  listCachedPreviews,
+  storePreview,
+} from '../services/voiceCatalog';
+import { PauseIcon, PlayIcon, TrashIcon } from './Icons';
+
+interface VoiceGalleryProps {
+  apiKey: string;
+  providerId: string;
+  requiresApiKey: boolean;
+  presets: VoicePreset[];
+  onPresetsChange: (presets: VoicePreset[]) => void;
+  /** Voice of the scene the gallery was opened for, if any */
+  selectedVoice?: string;
+  onPickVoice?: (voice: string) => void;
+  onApplyPreset?: (preset: VoicePreset) => void;
+  onNeedApiKey: () => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500';
+
+/**
+ * Browse every prebuilt voice with gender and tone tags, hear a short sample
+ * (generated once, then kept locally), and save voice + speed + direction
+ * combinations as presets
+ */
+export const VoiceGallery: React.FC<VoiceGalleryProps> = ({
+  apiKey,
+  providerId,
+  requiresApiKey,
+  presets,
+  onPresetsChange,
+  selectedVoice,
+  onPickVoice,
+  onApplyPreset,
+  onNeedApiKey,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<VoiceFilter>(ANY_FILTER);
+  const [cached, setCached] = useState<Set<string>>(new Set());
+  const [loadingVoice, setLoadingVoice] = useState<string | null>(null);
+  const [playingVoice, setPlayingVoice] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VoicePreset>(() => createVoicePreset({ voice: selectedVoice ?? VOICE_CATALOG[0].name }));
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const voices = filterVoices(filter);
+
+  useEffect(() => {
+    listCachedPreviews(providerId).then(setCached).catch(() => setCached(new Set()));
+  }, [providerId]);
+
+  // Stop the sample and release its URL when the gallery closes
+  useEffect(() => () => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+    }
+  }, []);
+
+  const stop = () => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      audioRef.current = null;
+    }
+    setPlayingVoice(null);
+  };
+
+  const play = async (voice: string) => {
+    if (playingVoice === voice) {
+      stop();
+      return;
+    }
+    stop();
+    setError(null);
+    try {
+      let blob = await getCachedPreview(providerId, voice);
+      if (!blob) {
+        if (requiresApiKey && !apiKey) {
+          onNeedApiKey();
+          return;
+        }
+        const budgetCheck = checkCallBudget(apiKey, prices => estimateNarrationCost(PREVIEW_TEXT, getTtsProvider(providerId).model, prices));
+        if (budgetCheck.status === 'block') {
+          setError(`${budgetCheck.message} Raise the budget under Usage to hear new samples.`);
+          return;
+        }
+        if (budgetCheck.status === 'warn' && !window.confirm(`${budgetCheck.message} Generate the sample anyway?`)) {
+          return;
+        }
+        setLoadingVoice(voice);
+        const url = await generateNarration({ text: PREVIEW_TEXT, voiceName: voice, speakingRate: 1, apiKey }, providerId);
+        blob = await (await fetch(url)).blob();
+        URL.revokeObjectURL(url);
+        await storePreview(providerId, voice, blob);
+        setCached(previous => new Set(previous).add(voice));
+      }
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.onended = stop;
+      audioRef.current = audio;
+      setPlayingVoice(voice);
+      await audio.play();
+    } catch (e) {
+      console.error("Voice preview failed:", e);
+      setError(e instanceof Error ? e.message : 'Could not play the preview.');
+      stop();
+    } finally {
+      setLoadingVoice(null);
+    }
+  };
+
+  const handleClearPreviews = async () => {
+    stop();
+    await clearVoicePreviews();
+    setCached(new Set());
+  };
+
+  const savePreset = () => {
+    onPresetsChange([...presets, { ...draft, name: draft.name.trim() || draft.voice }]);
+    setDraft(createVoicePreset({ voice: draft.voice, speakingRate: draft.speakingRate }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-900 border border-white/10 rounded-2xl p-6 sm:p-8 max-w-4xl w-full max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Voices</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">Close</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            value={filter.query}
+            placeholder="Search voices or tones"
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            className={`${fieldClass} flex-1 min-w-[10rem]`}
+          />
+          <select value={filter.gender} onChange={(e) => setFilter({ ...filter, gender: e.target.value as VoiceGender | 'any' })} className={fieldClass}>
+            <option value="any">Any gender</option>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+          <select value={filter.tone} onChange={(e) => setFilter({ ...filter, tone: e.target.value })} className={fieldClass}>
+            <option value="any">Any tone</option>
+            {VOICE_TONES.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+          </select>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar min-h-0 flex-1 space-y-6 pr-1">
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+            {voices.map(voice => (
+              <div
+                key={voice.name}
+                className={`flex items-center gap-2 p-3 rounded-xl border transition-colors ${voice.name === selectedVoice ? 'border-purple-500 bg-purple-500/10' : 'border-white/5 bg-black/20'}`}
+              >
+                <button
+                  title={cached.has(voice.name) ? 'Play sample' : 'Generate and play a short sample'}
+                  onClick={() => play(voice.name)}
+                  disabled={loadingVoice !== null}
+                  className="shrink-0 p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+                >
+                  {loadingVoice === voice.name
+                    ? <span className="block w-3 h-3 rounded-full border-2 border-white/30 border-t-white animate-spin" />
+                    : playingVoice === voice.name ? <PauseIcon className="w-3 h-3" /> : <PlayIcon className="w-3 h-3" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-white truncate">{voice.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {voice.gender === 'female' ? 'Female' : 'Male'} · {voice.tone}{cached.has(voice.name) ? '' : ' · no sample yet'}
+                  </p>
+                </div>
+                {onPickVoice && (
+                  <button
+                    onClick={() => onPickVoice(voice.name)}
+                    className="text-xs px-2 py-1 rounded-lg bg-gray-800 hover:bg-purple-600 text-gray-300 hover:text-white transition-colors"
+                  >
+                    Use
+                  </button>
+                )}
+              </div>
+            ))}
+            {voices.length === 0 && <p className="text-sm text-gray-500 col-span-full">No voice matches these filters.</p>}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-bold uppercase tracking-wider text-purple-400">Voice presets</h3>
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center gap-3 p-3 rounded-xl border border-white/5 bg-black/20 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-white truncate">{preset.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {preset.voice} · {preset.speakingRate}x{preset.direction ? ` · "${preset.direction}"` : ''}
+                  </p>
+                </div>
+                {onApplyPreset && (
+                  <button
+                    onClick={() => onApplyPreset(preset)}
+                    className="text-xs px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-purple-600 text-gray-300 hover:text-white transition-colors"
+                  >
+                    Apply
+                  </button>
+                )}
+                <button title="Delete" onClick={() => onPresetsChange(presets.filter(other => other.id !== preset.id))} className="text-gray-500 hover:text-red-400 transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-4 rounded-xl border border-dashed border-white/10">
+              <input value={draft.name} placeholder="Preset name" onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={fieldClass} />
+              <select value={draft.voice} onChange={(e) => setDraft({ ...draft, voice: e.target.value })} className={fieldClass}>
+                {VOICE_CATALOG.map(voice => (
+                  <option key={voice.name} value={voice.name}>{voice.name} ({voice.gender === 'female' ? 'F' : 'M'}, {voice.tone})</option>
+                ))}
+              </select>
+              <input
+                value={draft.direction}
+                placeholder='Direction, e.g. "excited documentary narrator"'
+                onChange={(e) => setDraft({ ...draft, direction: e.target.value })}
+                className={`${fieldClass} sm:col-span-2`}
+              />
+              <label className="flex items-center gap-3 text-xs text-gray-400">
+                <span className="whitespace-nowrap">Speed: <span className="text-purple-400 font-bold">{draft.speakingRate}x</span></span>
+                <input
+                  type="range"
+                  min="0.5"
+                  max="2.0"
+                  step="0.05"
+                  value={draft.speakingRate}
+                  onChange={(e) => setDraft({ ...draft, speakingRate: parseFloat(e.target.value) })}
+                  className="flex-1 h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                />
+              </label>
+              <button onClick={savePreset} className="py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-semibold transition-colors">
+                Save preset
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-center text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+          <span>Samples are generated once per voice with the current speech provider and kept in this browser.</span>
+          <button onClick={handleClearPreviews} disabled={cached.size === 0} className="hover:text-white transition-colors disabled:opacity-50">
+            Clear samples
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
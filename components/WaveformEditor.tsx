@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioEditSettings, GeneratedContent } from '../types';
+import { audioBufferToWav } from '../services/audioUtils';
+import {
+  LOUDNESS_TARGETS,
+  applyAudioEdit,
+  computePeaks,
+  decodeNarration,
+  defaultAudioEdit,
+  detectSilenceBounds,
+  measureLoudness,
+} from '../services/audioEditor';
+import { trimCaptions } from '../services/captions';
+import { PauseIcon, PlayIcon } from './Icons';
+
+interface WaveformEditorProps {
+  result: GeneratedContent;
+  onChange: (changes: Partial<GeneratedContent>) => void;
+}
+
+const WAVEFORM_HEIGHT = 96;
+const MIN_SELECTION_SECONDS = 0.05;
+
+const sliderClass = 'h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-purple-500';
+const buttonClass = 'px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+
+/**
+ * Waveform of the scene's narration with scrubbing and selection, plus
+ * non-destructive trim, silence removal, loudness normalization and fades.
+ * Edits always start from the original take and are re-exported as WAV.
+ */
+export const WaveformEditor: React.FC<WaveformEditorProps> = ({ result, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<AudioBuffer | null>(null);
+  const [settings, setSettings] = useState<AudioEditSettings | null>(result.audioEdit ?? null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const dragStartRef = useRef<number | null>(null);
+
+  const sourceUrl = result.originalAudio?.url ?? result.audioUrl;
+
+  // Decode the original take when the editor is opened
+  useEffect(() => {
+    if (!isOpen || !sourceUrl || source) return;
+    let cancelled = false;
+    decodeNarration(sourceUrl)
+      .then(buffer => {
+        if (cancelled) return;
+        setSource(buffer);
+        setSettings(current => current ?? defaultAudioEdit(buffer.duration));
+      })
+      .catch(e => {
+        console.error("Could not decode narration:", e);
+        setError('Could not load the narration audio.');
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, sourceUrl, source]);
+
+  const edited = useMemo(() => (source && settings ? applyAudioEdit(source, settings) : null), [source, settings]);
+  const loudness = useMemo(() => (edited ? measureLoudness(edited) : null), [edited]);
+
+  // Preview plays the edited take
+  useEffect(() => {
+    if (!edited) return;
+    const url = URL.createObjectURL(audioBufferToWav(edited));
+    setPreviewUrl(url);
+    setIsPlaying(false);
+    return () => URL.revokeObjectURL(url);
+  }, [edited]);
+
+  // Waveform of the original take; trimmed parts and the selection are shaded
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source || !settings) return;
+    const width = canvas.clientWidth * devicePixelRatio;
+    const height = WAVEFORM_HEIGHT * devicePixelRatio;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const toX = (seconds: number) => (seconds / source.duration) * width;
+    const middle = height / 2;
+    ctx.clearRect(0, 0, width, height);
+    computePeaks(source, width).forEach(({ min, max }, x) => {
+      const time = (x / width) * source.duration;
+      ctx.fillStyle = time >= settings.trimStart && time <= settings.trimEnd ? '#c084fc' : '#4b5563';
+      ctx.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+    });
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, 0, toX(settings.trimStart), height);
+    ctx.fillRect(toX(settings.trimEnd), 0, width - toX(settings.trimEnd), height);
+    if (selection) {
+      ctx.fillStyle = 'rgba(236, 72, 153, 0.25)';
+      ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), height);
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(toX(settings.trimStart + playhead), 0, devicePixelRatio, height);
+  }, [source, settings, selection, playhead]);
+
+  if (!sourceUrl) return null;
+
+  const change = (changes: Partial<AudioEditSettings>) => setSettings(current => (current ? { ...current, ...changes } : current));
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return ratio * (source?.duration ?? 0);
+  };
+
+  const seek = (sourceTime: number) => {
+    if (!settings || !audioRef.current) return;
+    const time = Math.min(settings.trimEnd, Math.max(settings.trimStart, sourceTime)) - settings.trimStart;
+    audioRef.current.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = timeAt(event);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (start === null) return;
+    const time = timeAt(event);
+    if (Math.abs(time - start) >= MIN_SELECTION_SECONDS) {
+      setSelection({ start: Math.min(start, time), end: Math.max(start, time) });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    if (start === null) return;
+    // A click without dragging scrubs to that point
+    if (Math.abs(timeAt(event) - start) < MIN_SELECTION_SECONDS) seek(start);
+  };
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) audio.pause();
+    else audio.play().catch(e => console.error("Playback failed:", e));
+  };
+
+  const removeSilence = () => {
+    if (!source) return;
+    const { start, end } = detectSilenceBounds(source);
+    change({ trimStart: start, trimEnd: end });
+    setSelection(null);
+  };
+
+  const handleApply = () => {
+    if (!edited || !settings || !result.audioUrl) return;
+    const originalAudio = result.originalAudio ?? { url: result.audioUrl, duration: result.audioDuration, captions: result.captions };
+    // Earlier edits are replaced, never the original take
+    if (result.audioUrl !== originalAudio.url) URL.revokeObjectURL(result.audioUrl);
+    onChange({
+      audioUrl: URL.createObjectURL(audioBufferToWav(edited)),
+      audioDuration: edited.duration,
+      captions: originalAudio.captions && trimCaptions(originalAudio.captions, settings.trimStart, settings.trimEnd),
+      originalAudio,
+      audioEdit: settings,
+    });
+  };
+
+  const handleRevert = () => {
+    if (!result.originalAudio || !result.audioUrl || !source) return;
+    URL.revokeObjectURL(result.audioUrl);
+    onChange({
+      audioUrl: result.originalAudio.url,
+      audioDuration: result.originalAudio.duration,
+      captions: result.originalAudio.captions,
+      originalAudio: undefined,
+      audioEdit: undefined,
+    });
+    setSettings(defaultAudioEdit(source.duration));
+    setSelection(null);
+  };
+
+  const isUnchanged = !!settings && JSON.stringify(settings) === JSON.stringify(result.audioEdit ?? (source && defaultAudioEdit(source.duration)));
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-white transition-colors">
+        {isOpen ? '▾' : '▸'} Edit narration audio {result.audioEdit && <span className="text-purple-400">(edited)</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-4 bg-gray-900/50 border border-white/5 rounded-xl p-4 animate-fade-in text-gray-400">
+          {!source || !settings ? (
+            <p className="text-center py-6">{error ?? 'Loading waveform...'}</p>
+          ) : (
+            <>
+              <canvas
+                ref={canvasRef}
+                className="w-full rounded-lg bg-black/40 cursor-crosshair touch-none"
+                style={{ height: WAVEFORM_HEIGHT }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={togglePlay} className={buttonClass} title={isPlaying ? 'Pause' : 'Play'}>
+                  {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                </button>
+                <span className="font-mono">{formatTime(playhead)} / {formatTime(edited?.duration ?? 0)}</span>
+                <div className="flex-1" />
+                <button
+                  onClick={() => {
+                    if (!selection) return;
+                    change({ trimStart: selection.start, trimEnd: selection.end });
+                    setSelection(null);
+                  }}
+                  disabled={!selection}
+                  className={buttonClass}
+                >
+                  Trim to selection
+                </button>
+                <button onClick={removeSilence} className={buttonClass}>Remove silence</button>
+                <button onClick={() => change({ trimStart: 0, trimEnd: source.duration })} className={buttonClass}>Untrim</button>
+              </div>
+              {selection && (
+                <p>Selected {formatTime(selection.start)} – {formatTime(selection.end)} ({(selection.end - selection.start).toFixed(2)}s)</p>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="flex flex-col gap-2">
+                  <span>Fade in: <span className="text-purple-400 font-bold">{settings.fadeInSeconds.toFixed(1)}s</span></span>
+                  <input type="range" min="0" max="3" step="0.1" value={settings.fadeInSeconds} onChange={(e) => change({ fadeInSeconds: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+                <label className="flex flex-col gap-2">
+                  <span>Fade out: <span className="text-purple-400 font-bold">{settings.fadeOutSeconds.toFixed(1)}s</span></span>
+                  <input type="range" min="0" max="3" step="0.1" value={settings.fadeOutSeconds} onChange={(e) => change({ fadeOutSeconds: parseFloat(e.target.value) })} className={sliderClass} />
+                </label>
+                <label className="flex flex-col gap-2">
+                  Loudness
+                  <select
+                    value={settings.targetLufs ?? ''}
+                    onChange={(e) => change({ targetLufs: e.target.value ? parseFloat(e.target.value) : null })}
+                    className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+                  >
+                    <option value="">Keep original level</option>
+                    {LOUDNESS_TARGETS.map(target => (
+                      <option key={target.lufs} value={target.lufs}>{target.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <p className="self-end pb-2">
+                  Result: <span className="text-purple-400 font-bold">{loudness !== null && Number.isFinite(loudness) ? `${loudness.toFixed(1)} LUFS` : 'silent'}</span>
+                </p>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleApply}
+                  disabled={isUnchanged}
+                  className="flex-1 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Apply to scene
+                </button>
+                {result.originalAudio && (
+                  <button onClick={handleRevert} className={buttonClass}>Revert to original</button>
+                )}
+              </div>
+
+              {previewUrl && (
+                <audio
+                  ref={audioRef}
+                  src={previewUrl}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                  onTimeUpdate={(e) => setPlayhead(e.currentTarget.currentTime)}
+                />
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
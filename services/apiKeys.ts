@@ -0,0 +1,114 @@
+import { createId } from './project';
+
+/**
+ * AES-GCM ciphertext plus what's needed to re-derive the key from the
+ * passphrase, all base64
+ */
+export interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export interface KeyProfile {
+  id: string;
+  name: string;
+  /** Plain key; absent when the profile is encrypted */
+  key?: string;
+  encrypted?: EncryptedSecret;
+  /** Last four characters, so profiles can be told apart while locked */
+  hint: string;
+  createdAt: number;
+}
+
+export interface KeyStore {
+  profiles: KeyProfile[];
+  activeId: string | null;
+}
+
+const KEY_STORE_STORAGE_KEY = 'API_KEY_PROFILES';
+// Where earlier versions kept the single plain key
+const LEGACY_KEY_STORAGE_KEY = 'GEMINI_API_KEY';
+const PBKDF2_ITERATIONS = 250_000;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Throws a friendly error for a wrong passphrase (GCM authentication fails)
+ */
+export const decryptSecret = async (secret: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt));
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+};
+
+export const keyHint = (key: string): string => `…${key.slice(-4)}`;
+
+export const saveKeyStore = (store: KeyStore) => {
+  localStorage.setItem(KEY_STORE_STORAGE_KEY, JSON.stringify(store));
+};
+
+/**
+ * Loads the saved profiles, moving a key saved by an earlier version into a
+ * "Default" profile the first time
+ */
+export const loadKeyStore = (): KeyStore => {
+  try {
+    const saved = localStorage.getItem(KEY_STORE_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // fall through to a fresh store
+  }
+
+  const legacyKey = localStorage.getItem(LEGACY_KEY_STORAGE_KEY);
+  if (!legacyKey) return { profiles: [], activeId: null };
+  const profile: KeyProfile = { id: createId(), name: 'Default', key: legacyKey, hint: keyHint(legacyKey), createdAt: Date.now() };
+  const store = { profiles: [profile], activeId: profile.id };
+  saveKeyStore(store);
+  localStorage.removeItem(LEGACY_KEY_STORAGE_KEY);
+  return store;
+};
+
+/**
+ * Builds a profile, encrypting the key when a passphrase is given
+ */
+export const createKeyProfile = async (name: string, key: string, passphrase?: string): Promise<KeyProfile> => ({
+  id: createId(),
+  name: name.trim() || 'Untitled key',
+  hint: keyHint(key),
+  createdAt: Date.now(),
+  ...(passphrase ? { encrypted: await encryptSecret(key, passphrase) } : { key }),
+});
+
+/**
+ * The profile's key, decrypted with `passphrase` if it's encrypted
+ */
+export const unlockKeyProfile = async (profile: KeyProfile, passphrase?: string): Promise<string> => {
+  if (!profile.encrypted) return profile.key ?? '';
+  if (!passphrase) throw new Error('Enter the passphrase for this key.');
+  return decryptSecret(profile.encrypted, passphrase);
+};
@@ -0,0 +1,185 @@
+import { GeneratedContent, GenerationMode, Scene } from '../types';
+import { SceneAssetOptions, SceneNarration, generateSceneImage, generateSceneNarration, toGeneratedContent } from './generationService';
+import { isAbortError } from './requestScheduler';
+
+export type AssetKind = 'narration' | 'image';
+
+export type AssetStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+/**
+ * One independently generated piece of a scene. Tasks run side by side and
+ * each can be regenerated on its own.
+ */
+export interface AssetTask {
+  /** `${sceneId}:${kind}` */
+  id: string;
+  sceneId: string;
+  kind: AssetKind;
+  status: AssetStatus;
+  /** Retries so far in the current run */
+  retries: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** e.g. "2/5 parts" while a long narration is in flight */
+  detail?: string;
+  error?: string;
+}
+
+export type AssetOutcome =
+  | { task: AssetTask; kind: 'narration'; narration: SceneNarration }
+  | { task: AssetTask; kind: 'image'; imageUrl: string }
+  | { task: AssetTask; kind: AssetKind; error: string; cancelled: boolean };
+
+export interface AssetPipelineOptions extends SceneAssetOptions {
+  /** Assets generated at the same time, across all scenes */
+  concurrency: number;
+  /** Style preset per scene; overrides `stylePreset` */
+  stylePresetFor?: (scene: Scene) => SceneAssetOptions['stylePreset'];
+  onUpdate: (id: string, changes: Partial<AssetTask>) => void;
+  /** Each finished or failed asset, as soon as it settles */
+  onOutcome?: (outcome: AssetOutcome) => void;
+}
+
+export const DEFAULT_ASSET_CONCURRENCY = 4;
+
+export const ASSET_LABELS: Record<AssetKind, string> = {
+  narration: 'Voiceover',
+  image: 'Image',
+};
+
+export const assetTaskId = (sceneId: string, kind: AssetKind) => `${sceneId}:${kind}`;
+
+const createTask = (sceneId: string, kind: AssetKind): AssetTask => ({
+  id: assetTaskId(sceneId, kind),
+  sceneId,
+  kind,
+  status: 'queued',
+  retries: 0,
+});
+
+/**
+ * The assets the mode needs, scene by scene, so the first scene is ready
+ * first when there are more tasks than free slots
+ */
+export const planAssetTasks = (scenes: Scene[], mode: GenerationMode): AssetTask[] =>
+  scenes.flatMap(scene => [
+    ...(mode === 'both' || mode === 'narration' ? [createTask(scene.id, 'narration')] : []),
+    ...(mode === 'both' || mode === 'image' ? [createTask(scene.id, 'image')] : []),
+  ]);
+
+/**
+ * Tasks for results made elsewhere (library, project file), so their assets
+ * can be regenerated too. Assets the result lacks count as failed.
+ */
+export const tasksForResults = (results: GeneratedContent[]): AssetTask[] =>
+  results.flatMap(result => {
+    const sceneId = result.sceneId;
+    if (!sceneId) return [];
+    const kinds: [AssetKind, boolean][] = [
+      ['narration', result.mode !== 'image' && !!result.narrationText],
+      ['image', result.mode !== 'narration' && !!result.visualPrompt],
+    ];
+    return kinds.filter(([, wanted]) => wanted).map(([kind]) => {
+      const present = kind === 'narration' ? !!result.audioUrl : !!result.imageUrl;
+      return { ...createTask(sceneId, kind), status: present ? 'done' : 'failed' };
+    });
+  });
+
+/**
+ * The task back in the queue, keeping nothing from its previous run
+ */
+export const requeueTask = (task: AssetTask): AssetTask => createTask(task.sceneId, task.kind);
+
+export const isTaskActive = (task: AssetTask) => task.status === 'running' || task.status === 'retrying';
+
+/**
+ * Milliseconds the task has been running, or took; null until it starts
+ */
+export const taskElapsed = (task: AssetTask, now: number): number | null =>
+  task.startedAt === undefined ? null : (task.finishedAt ?? now) - task.startedAt;
+
+export const formatElapsed = (ms: number): string => {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+};
+
+/**
+ * Generates every task's asset, up to `concurrency` at a time, reporting each
+ * status change through `onUpdate`. Never rejects: failures (and tasks
+ * stopped by the signal) come back as outcomes with an error, so one failed
+ * asset leaves the others intact.
+ */
+export const runAssetPipeline = async (
+  tasks: AssetTask[],
+  scenes: Scene[],
+  { concurrency, stylePresetFor, onUpdate, onOutcome, ...options }: AssetPipelineOptions
+): Promise<AssetOutcome[]> => {
+  const outcomes: AssetOutcome[] = [];
+  const pending = [...tasks];
+
+  const runTask = async (task: AssetTask): Promise<AssetOutcome> => {
+    const update = (changes: Partial<AssetTask>) => onUpdate(task.id, changes);
+    const scene = scenes.find(candidate => candidate.id === task.sceneId);
+    if (!scene) {
+      const error = 'The scene no longer exists.';
+      update({ status: 'failed', error });
+      return { task, kind: task.kind, error, cancelled: false };
+    }
+    let retries = 0;
+    update({ status: 'running', startedAt: Date.now(), finishedAt: undefined, retries: 0, detail: undefined, error: undefined });
+
+    const assetOptions: SceneAssetOptions = {
+      ...options,
+      stylePreset: stylePresetFor ? stylePresetFor(scene) : options.stylePreset,
+      onRetry: () => update({ status: 'retrying', retries: ++retries }),
+      onChunkProgress: (completed, total) => {
+        if (total <= 1) return;
+        // A finished part means the retried request went through
+        update({ status: 'running', detail: `${completed}/${total} parts` });
+      },
+    };
+
+    try {
+      if (task.kind === 'narration') {
+        const narration = await generateSceneNarration(scene, assetOptions);
+        update({ status: 'done', finishedAt: Date.now(), detail: undefined });
+        return { task, kind: 'narration', narration };
+      }
+      const imageUrl = await generateSceneImage(scene, assetOptions);
+      update({ status: 'done', finishedAt: Date.now() });
+      return { task, kind: 'image', imageUrl };
+    } catch (error) {
+      const cancelled = isAbortError(error);
+      const message = cancelled ? 'Cancelled.' : error instanceof Error ? error.message : 'Generation failed.';
+      update({ status: 'failed', finishedAt: Date.now(), error: message });
+      return { task, kind: task.kind, error: message, cancelled };
+    }
+  };
+
+  const worker = async () => {
+    while (true) {
+      const task = options.signal?.aborted ? undefined : pending.shift();
+      if (!task) return;
+      const outcome = await runTask(task);
+      outcomes.push(outcome);
+      onOutcome?.(outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), Math.max(1, tasks.length)) }, worker));
+
+  // Tasks the cancellation kept from starting
+  pending.forEach(task => {
+    onUpdate(task.id, { status: 'failed', error: 'Cancelled.' });
+    outcomes.push({ task, kind: task.kind, error: 'Cancelled.', cancelled: true });
+  });
+  return outcomes;
+};
+
+/**
+ * One result per scene with no assets yet; each outcome fills in its part as
+ * it arrives, and failed ones stay empty so they can be retried on their own
+ */
+export const emptySceneResults = (scenes: Scene[], mode: GenerationMode): GeneratedContent[] =>
+  scenes.map(scene => toGeneratedContent(scene, mode, null, null));
@@ -0,0 +1,230 @@
+import { AudioEditSettings } from '../types';
+
+export const LOUDNESS_TARGETS: { lufs: number; label: string }[] = [
+  { lufs: -14, label: 'YouTube / Spotify (-14 LUFS)' },
+  { lufs: -16, label: 'Apple Podcasts (-16 LUFS)' },
+  { lufs: -23, label: 'Broadcast EBU R128 (-23 LUFS)' },
+];
+
+// Peaks stay below this after normalization, leaving headroom for encoders
+const PEAK_CEILING_DB = -1;
+const SILENCE_THRESHOLD_DB = -45;
+// Kept around detected speech so consonants aren't clipped
+const SILENCE_PADDING_SECONDS = 0.08;
+const SILENCE_WINDOW_SECONDS = 0.01;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+export const defaultAudioEdit = (duration: number): AudioEditSettings => ({
+  trimStart: 0,
+  trimEnd: duration,
+  fadeInSeconds: 0,
+  fadeOutSeconds: 0,
+  targetLufs: null,
+});
+
+/**
+ * Decodes narration at its own sample rate (read from the WAV header), so
+ * edits don't resample it to whatever rate a context defaults to
+ */
+export const decodeNarration = async (url: string): Promise<AudioBuffer> => {
+  const data = await (await fetch(url)).arrayBuffer();
+  const view = new DataView(data);
+  const isWav = data.byteLength > 28 && view.getUint32(0, false) === 0x52494646; // "RIFF"
+  const sampleRate = isWav ? view.getUint32(24, true) : 48000;
+  return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
+};
+
+const createBufferLike = (source: AudioBuffer, length: number): AudioBuffer =>
+  new OfflineAudioContext(source.numberOfChannels, 1, source.sampleRate)
+    .createBuffer(source.numberOfChannels, Math.max(1, length), source.sampleRate);
+
+/**
+ * Min/max per column for drawing, across all channels
+ */
+export const computePeaks = (buffer: AudioBuffer, columns: number): { min: number; max: number }[] => {
+  const samplesPerColumn = Math.max(1, Math.floor(buffer.length / columns));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  return Array.from({ length: columns }, (_, column) => {
+    let min = 0;
+    let max = 0;
+    const from = column * samplesPerColumn;
+    const to = Math.min(buffer.length, from + samplesPerColumn);
+    for (const data of channels) {
+      for (let i = from; i < to; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+    }
+    return { min, max };
+  });
+};
+
+export const trimBuffer = (buffer: AudioBuffer, startSeconds: number, endSeconds: number): AudioBuffer => {
+  const start = Math.max(0, Math.min(buffer.length, Math.round(startSeconds * buffer.sampleRate)));
+  const end = Math.max(start, Math.min(buffer.length, Math.round(endSeconds * buffer.sampleRate)));
+  const output = createBufferLike(buffer, end - start);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    output.getChannelData(channel).set(buffer.getChannelData(channel).subarray(start, end));
+  }
+  return output;
+};
+
+/**
+ * Where speech starts and ends: the first and last 10 ms windows louder than
+ * the threshold, padded a little
+ */
+export const detectSilenceBounds = (buffer: AudioBuffer, thresholdDb: number = SILENCE_THRESHOLD_DB): { start: number; end: number } => {
+  const window = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * buffer.sampleRate));
+  const threshold = dbToGain(thresholdDb);
+  const windows = Math.ceil(buffer.length / window);
+  const isLoud = (index: number) => {
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      let sum = 0;
+      const from = index * window;
+      const to = Math.min(buffer.length, from + window);
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      if (Math.sqrt(sum / Math.max(1, to - from)) > threshold) return true;
+    }
+    return false;
+  };
+
+  let first = 0;
+  while (first < windows && !isLoud(first)) first++;
+  if (first === windows) return { start: 0, end: buffer.duration };
+  let last = windows - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  return {
+    start: Math.max(0, (first * window) / buffer.sampleRate - SILENCE_PADDING_SECONDS),
+    end: Math.min(buffer.duration, ((last + 1) * window) / buffer.sampleRate + SILENCE_PADDING_SECONDS),
+  };
+};
+
+/**
+ * Second-order IIR section applied in place, direct form I
+ */
+const biquad = (data: Float32Array, [b0, b1, b2, a1, a2]: number[]) => {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    data[i] = y;
+  }
+};
+
+/**
+ * ITU-R BS.1770 K-weighting (high shelf + high pass) for any sample rate,
+ * using the analog prototype parameters from libebur128
+ */
+const kWeightingFilters = (sampleRate: number): number[][] => {
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = dbToGain(3.999843853973347);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    [
+      (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      2 * (shelfK * shelfK - vh) / shelfA0,
+      (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      2 * (shelfK * shelfK - 1) / shelfA0,
+      (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    ],
+    [1, -2, 1, 2 * (passK * passK - 1) / passA0, (1 - passK / passQ + passK * passK) / passA0],
+  ];
+};
+
+/**
+ * Integrated loudness in LUFS (BS.1770-4): K-weighted mean square over 400 ms
+ * blocks with 75% overlap, absolute gate at -70 LUFS and relative gate 10 LU
+ * below the ungated level. -Infinity for silence.
+ */
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const filters = kWeightingFilters(buffer.sampleRate);
+  const weighted = Array.from({ length: buffer.numberOfChannels }, (_, channel) => {
+    const data = buffer.getChannelData(channel).slice();
+    filters.forEach(filter => biquad(data, filter));
+    return data;
+  });
+
+  const blockSize = Math.round(0.4 * buffer.sampleRate);
+  const step = Math.round(0.1 * buffer.sampleRate);
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const gatedMean = (powers: number[]) => powers.reduce((total, power) => total + power, 0) / powers.length;
+
+  const absolute = blockPowers.filter(power => toLufs(power) > -70);
+  if (absolute.length === 0) return -Infinity;
+  const relativeGate = toLufs(gatedMean(absolute)) - 10;
+  const relative = absolute.filter(power => toLufs(power) > relativeGate);
+  return toLufs(gatedMean(relative));
+};
+
+const samplePeak = (buffer: AudioBuffer): number => {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  return peak;
+};
+
+/**
+ * Gain in dB that brings the buffer to `targetLufs`, reduced if needed so
+ * sample peaks stay under the ceiling
+ */
+export const loudnessGainDb = (buffer: AudioBuffer, targetLufs: number): number => {
+  const loudness = measureLoudness(buffer);
+  const peak = samplePeak(buffer);
+  if (!Number.isFinite(loudness) || peak === 0) return 0;
+  const peakRoomDb = PEAK_CEILING_DB - 20 * Math.log10(peak);
+  return Math.min(targetLufs - loudness, peakRoomDb);
+};
+
+/**
+ * Applies gain and linear fades in place
+ */
+const applyGainAndFades = (buffer: AudioBuffer, gain: number, fadeInSeconds: number, fadeOutSeconds: number) => {
+  const fadeIn = Math.min(buffer.length, Math.round(fadeInSeconds * buffer.sampleRate));
+  const fadeOut = Math.min(buffer.length, Math.round(fadeOutSeconds * buffer.sampleRate));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      let sampleGain = gain;
+      if (i < fadeIn) sampleGain *= i / fadeIn;
+      const fromEnd = data.length - 1 - i;
+      if (fromEnd < fadeOut) sampleGain *= fromEnd / fadeOut;
+      data[i] *= sampleGain;
+    }
+  }
+};
+
+/**
+ * Renders the edit settings against the original take: trim, loudness
+ * normalization measured on the kept part, then fades
+ */
+export const applyAudioEdit = (source: AudioBuffer, settings: AudioEditSettings): AudioBuffer => {
+  const trimmed = trimBuffer(source, settings.trimStart, settings.trimEnd);
+  const gainDb = settings.targetLufs === null ? 0 : loudnessGainDb(trimmed, settings.targetLufs);
+  applyGainAndFades(trimmed, dbToGain(gainDb), settings.fadeInSeconds, settings.fadeOutSeconds);
+  return trimmed;
+};
@@ -0,0 +1,139 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudioMetadata } from '../types';
+import { buildId3Tag } from './audioTags';
+import { WavBitDepth, audioBufferToWav } from './audioUtils';
+import { encodeFlac } from './flacEncoder';
+import { encodeOpus } from './opusEncoder';
+
+export type AudioExportFormat = 'wav' | 'mp3' | 'ogg-opus' | 'webm-opus' | 'flac';
+
+export interface AudioFormatInfo {
+  id: AudioExportFormat;
+  label: string;
+  extension: string;
+  sampleRates: number[];
+  /** Lossy formats only */
+  bitrates?: number[];
+  /** Lossless formats only */
+  bitDepths?: WavBitDepth[];
+}
+
+export const AUDIO_EXPORT_FORMATS: AudioFormatInfo[] = [
+  { id: 'wav', label: 'WAV (uncompressed)', extension: 'wav', sampleRates: [24000, 44100, 48000], bitDepths: [16, 24, 32] },
+  { id: 'flac', label: 'FLAC (lossless)', extension: 'flac', sampleRates: [24000, 44100, 48000], bitDepths: [16, 24] },
+  // MPEG-1 rates only: below 44.1 kHz lamejs writes MPEG-2, which tops out at 160 kbps.
+  // The 24 kHz narration is resampled up before encoding.
+  { id: 'mp3', label: 'MP3', extension: 'mp3', sampleRates: [44100, 48000], bitrates: [64, 96, 128, 192, 256, 320] },
+  { id: 'ogg-opus', label: 'Opus (.ogg)', extension: 'ogg', sampleRates: [48000, 24000, 16000], bitrates: [24, 32, 48, 64, 96, 128] },
+  { id: 'webm-opus', label: 'Opus (.webm)', extension: 'webm', sampleRates: [48000, 24000, 16000], bitrates: [24, 32, 48, 64, 96, 128] },
+];
+
+export const findAudioFormat = (id: AudioExportFormat): AudioFormatInfo =>
+  AUDIO_EXPORT_FORMATS.find(format => format.id === id) ?? AUDIO_EXPORT_FORMATS[0];
+
+export interface AudioExportSettings {
+  format: AudioExportFormat;
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  bitrateKbps: number;
+}
+
+export const DEFAULT_AUDIO_EXPORT: AudioExportSettings = {
+  format: 'mp3',
+  sampleRate: 44100,
+  bitDepth: 16,
+  bitrateKbps: 128,
+};
+
+const AUDIO_EXPORT_STORAGE_KEY = 'AUDIO_EXPORT';
+
+export const loadAudioExportSettings = (): AudioExportSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIO_EXPORT_STORAGE_KEY);
+    return saved ? { ...DEFAULT_AUDIO_EXPORT, ...JSON.parse(saved) } : DEFAULT_AUDIO_EXPORT;
+  } catch {
+    return DEFAULT_AUDIO_EXPORT;
+  }
+};
+
+export const saveAudioExportSettings = (settings: AudioExportSettings) => {
+  localStorage.setItem(AUDIO_EXPORT_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Keeps the settings valid for their format: an unsupported rate, depth or
+ * bitrate falls back to the closest one the format offers
+ */
+export const normalizeAudioExport = (settings: AudioExportSettings): AudioExportSettings => {
+  const format = findAudioFormat(settings.format);
+  const closest = <T extends number>(options: T[] | undefined, value: T): T =>
+    options?.length ? options.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best)) : value;
+  return {
+    format: format.id,
+    sampleRate: closest(format.sampleRates, settings.sampleRate),
+    bitDepth: closest(format.bitDepths, settings.bitDepth),
+    bitrateKbps: closest(format.bitrates, settings.bitrateKbps),
+  };
+};
+
+/**
+ * Band-limited resampling through an offline context
+ */
+export const resampleBuffer = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const length = Math.max(1, Math.round(buffer.duration * sampleRate));
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+const MP3_FRAME_SAMPLES = 1152;
+
+const toInt16 = (data: Float32Array): Int16Array => {
+  const samples = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    samples[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return samples;
+};
+
+/**
+ * MP3 through lamejs (mono or stereo), with an ID3v2 tag in front
+ */
+const encodeMp3 = (buffer: AudioBuffer, bitrateKbps: number, metadata: AudioMetadata): Blob => {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const pcm = Array.from({ length: channels }, (_, channel) => toInt16(buffer.getChannelData(channel)));
+  const encoder = new Mp3Encoder(channels, buffer.sampleRate, bitrateKbps);
+  const parts: Uint8Array[] = [buildId3Tag(metadata)];
+  for (let start = 0; start < buffer.length; start += MP3_FRAME_SAMPLES) {
+    const [left, right] = pcm.map(samples => samples.subarray(start, start + MP3_FRAME_SAMPLES));
+    const encoded = encoder.encodeBuffer(left, right);
+    if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+  }
+  parts.push(new Uint8Array(encoder.flush()));
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+/**
+ * Encodes a buffer in the chosen format, resampling first when the target
+ * rate differs from the source (TTS narration is 24 kHz)
+ */
+export const exportAudio = async (buffer: AudioBuffer, settings: AudioExportSettings, metadata: AudioMetadata): Promise<Blob> => {
+  const { format, sampleRate, bitDepth, bitrateKbps } = normalizeAudioExport(settings);
+  const resampled = await resampleBuffer(buffer, sampleRate);
+  switch (format) {
+    case 'wav':
+      return audioBufferToWav(resampled, { bitDepth, metadata });
+    case 'flac':
+      return encodeFlac(resampled, bitDepth === 24 ? 24 : 16, metadata);
+    case 'mp3':
+      return encodeMp3(resampled, bitrateKbps, metadata);
+    case 'ogg-opus':
+    case 'webm-opus':
+      return encodeOpus(resampled, { container: format === 'ogg-opus' ? 'ogg' : 'webm', bitrateKbps, metadata });
+  }
+};
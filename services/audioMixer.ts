@@ -0,0 +1,314 @@
+import { audioBufferToWav, concatAudioBuffers, loadAudioBuffer } from './audioUtils';
+
+export const MIX_SAMPLE_RATE = 48000;
+
+const ENVELOPE_FRAME_SECONDS = 0.01;
+const DUCK_ATTACK_SECONDS = 0.05;
+const DUCK_RELEASE_SECONDS = 0.35;
+
+export interface MusicBedSettings {
+  /** Linear gain applied to the music, 0..1 */
+  volume: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  loop: boolean;
+  /** How far the music drops while narration is present, in dB */
+  duckingDb: number;
+}
+
+export const DEFAULT_MUSIC_SETTINGS: MusicBedSettings = {
+  volume: 0.35,
+  fadeInSeconds: 1.5,
+  fadeOutSeconds: 2.5,
+  loop: true,
+  duckingDb: 12,
+};
+
+const MUSIC_SETTINGS_STORAGE_KEY = 'MUSIC_BED';
+
+export const loadMusicSettings = (): MusicBedSettings => {
+  try {
+    const saved = localStorage.getItem(MUSIC_SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_MUSIC_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MUSIC_SETTINGS;
+  } catch {
+    return DEFAULT_MUSIC_SETTINGS;
+  }
+};
+
+export const saveMusicSettings = (settings: MusicBedSettings) => {
+  localStorage.setItem(MUSIC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export type MusicLoopId = 'ambient' | 'lofi' | 'pulse';
+
+export const MUSIC_LOOPS: { id: MusicLoopId; label: string }[] = [
+  { id: 'ambient', label: 'Ambient Pad' },
+  { id: 'lofi', label: 'Lo-fi Beat' },
+  { id: 'pulse', label: 'Documentary Pulse' },
+];
+
+export interface MixResult {
+  mix: AudioBuffer;
+  narration: AudioBuffer;
+  music: AudioBuffer;
+}
+
+/** WAV blob URLs for the mixed soundtrack of a whole project */
+export interface MixedSoundtrack {
+  mixUrl: string;
+  narrationUrl: string;
+  musicUrl: string;
+  duration: number;
+}
+
+const midiToHz = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+// Am - F - C - G, the most royalty-free progression there is
+const PROGRESSION = [
+  [57, 60, 64],
+  [53, 57, 60],
+  [48, 52, 55],
+  [55, 59, 62],
+];
+
+/**
+ * Generates one of the bundled loops directly as PCM. Everything is computed
+ * from code, so there are no licensed assets to ship and the loop is
+ * sample-identical on every machine.
+ */
+export const generateMusicLoop = (id: MusicLoopId): AudioBuffer => {
+  const bpm = id === 'ambient' ? 60 : id === 'lofi' ? 84 : 100;
+  const beat = 60 / bpm;
+  const bars = 4;
+  const duration = bars * 4 * beat;
+  const length = Math.round(duration * MIX_SAMPLE_RATE);
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  const buffer = ctx.createBuffer(2, length, MIX_SAMPLE_RATE);
+  const left = buffer.getChannelData(0);
+  const right = buffer.getChannelData(1);
+
+  const add = (start: number, sample: (t: number) => number, seconds: number, pan = 0) => {
+    const from = Math.round(start * MIX_SAMPLE_RATE);
+    const count = Math.round(seconds * MIX_SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      // Wrap around so notes ringing past the end continue at the start of the loop
+      const index = (from + i) % length;
+      const value = sample(i / MIX_SAMPLE_RATE);
+      left[index] += value * (1 - pan) * 0.5;
+      right[index] += value * (1 + pan) * 0.5;
+    }
+  };
+
+  let noiseState = 12345;
+  const noise = () => {
+    noiseState = (noiseState * 1103515245 + 12345) & 0x7fffffff;
+    return noiseState / 0x3fffffff - 1;
+  };
+
+  PROGRESSION.forEach((chord, bar) => {
+    const barStart = bar * 4 * beat;
+    const barLength = 4 * beat;
+
+    if (id === 'ambient') {
+      chord.forEach((note, voice) => {
+        const freq = midiToHz(note);
+        add(barStart, t => {
+          const envelope = Math.min(1, t / 1.2) * Math.min(1, (barLength + 1 - t) / 1.5);
+          return envelope * 0.12 * (Math.sin(2 * Math.PI * freq * t) + 0.5 * Math.sin(2 * Math.PI * freq * 1.003 * t));
+        }, barLength + 1, voice === 0 ? -0.4 : voice === 2 ? 0.4 : 0);
+      });
+    }
+
+    if (id === 'lofi') {
+      // Soft electric-piano chord on every half bar
+      for (let half = 0; half < 2; half++) {
+        chord.forEach((note) => {
+          const freq = midiToHz(note);
+          add(barStart + half * 2 * beat, t => Math.exp(-t * 2.5) * 0.12 * (Math.sin(2 * Math.PI * freq * t) + 0.3 * Math.sin(4 * Math.PI * freq * t)), 2 * beat);
+        });
+      }
+      for (let step = 0; step < 8; step++) {
+        const time = barStart + step * (beat / 2);
+        if (step % 4 === 0) add(time, t => Math.exp(-t * 18) * 0.6 * Math.sin(2 * Math.PI * (50 + 90 * Math.exp(-t * 30)) * t), 0.3);
+        if (step % 4 === 2) add(time, t => Math.exp(-t * 25) * 0.2 * noise(), 0.2);
+        add(time, t => Math.exp(-t * 80) * 0.06 * noise(), 0.05, step % 2 ? 0.3 : -0.3);
+      }
+    }
+
+    if (id === 'pulse') {
+      const bass = midiToHz(chord[0] - 24);
+      add(barStart, t => Math.min(1, t * 20) * Math.exp(-t * 0.4) * 0.25 * Math.sin(2 * Math.PI * bass * t), barLength);
+      for (let step = 0; step < 16; step++) {
+        const note = chord[step % 3] + (step % 6 >= 3 ? 12 : 0);
+        const freq = midiToHz(note);
+        add(barStart + step * (beat / 4), t => {
+          let value = 0;
+          for (let harmonic = 1; harmonic <= 4; harmonic++) value += Math.sin(2 * Math.PI * freq * harmonic * t) / harmonic;
+          return Math.exp(-t * 12) * 0.07 * value;
+        }, beat, step % 2 ? 0.35 : -0.35);
+      }
+    }
+  });
+
+  return buffer;
+};
+
+/**
+ * Decodes a user-supplied music file at the mix sample rate
+ */
+export const decodeMusicFile = async (file: Blob): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  return ctx.decodeAudioData(await file.arrayBuffer());
+};
+
+/**
+ * Gain curve (one point per envelope frame) that drops by `depthDb` while the
+ * narration has energy, with a fast attack and slow release so the music
+ * doesn't pump between words.
+ */
+export const computeDuckingCurve = (narration: AudioBuffer, depthDb: number): Float32Array => {
+  const data = narration.getChannelData(0);
+  const frameLength = Math.max(1, Math.round(narration.sampleRate * ENVELOPE_FRAME_SECONDS));
+  const frameCount = Math.max(2, Math.ceil(data.length / frameLength));
+  const rms = new Float32Array(frameCount);
+  let peak = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const start = frame * frameLength;
+    const end = Math.min(data.length, start + frameLength);
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    rms[frame] = Math.sqrt(sum / Math.max(1, end - start));
+    peak = Math.max(peak, rms[frame]);
+  }
+
+  const threshold = Math.max(peak * 0.05, 1e-4);
+  const attack = 1 - Math.exp(-ENVELOPE_FRAME_SECONDS / DUCK_ATTACK_SECONDS);
+  const release = 1 - Math.exp(-ENVELOPE_FRAME_SECONDS / DUCK_RELEASE_SECONDS);
+  const floor = 10 ** (-depthDb / 20);
+
+  const curve = new Float32Array(frameCount);
+  let envelope = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    const target = rms[frame] > threshold ? 1 : 0;
+    envelope += (target - envelope) * (target > envelope ? attack : release);
+    curve[frame] = 1 - (1 - floor) * envelope;
+  }
+  return curve;
+};
+
+/**
+ * Renders the music bed (volume, loop, fades and ducking) offline to the
+ * narration's exact length
+ */
+const renderMusicStem = async (narration: AudioBuffer, music: AudioBuffer, settings: MusicBedSettings): Promise<AudioBuffer> => {
+  const duration = narration.duration;
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(duration * MIX_SAMPLE_RATE)), MIX_SAMPLE_RATE);
+
+  const source = ctx.createBufferSource();
+  source.buffer = music;
+  source.loop = settings.loop;
+
+  const volume = ctx.createGain();
+  volume.gain.value = settings.volume;
+
+  const duck = ctx.createGain();
+  if (settings.duckingDb > 0) {
+    duck.gain.setValueCurveAtTime(computeDuckingCurve(narration, settings.duckingDb), 0, duration);
+  }
+
+  const fade = ctx.createGain();
+  const fadeIn = Math.min(settings.fadeInSeconds, duration / 2);
+  const fadeOut = Math.min(settings.fadeOutSeconds, duration / 2);
+  fade.gain.setValueAtTime(fadeIn > 0 ? 0 : 1, 0);
+  if (fadeIn > 0) fade.gain.linearRampToValueAtTime(1, fadeIn);
+  if (fadeOut > 0) {
+    fade.gain.setValueAtTime(1, duration - fadeOut);
+    fade.gain.linearRampToValueAtTime(0, duration);
+  }
+
+  source.connect(volume).connect(duck).connect(fade).connect(ctx.destination);
+  source.start(0);
+  return ctx.startRendering();
+};
+
+/**
+ * Resamples narration to the mix format (stereo, MIX_SAMPLE_RATE)
+ */
+const renderNarrationStem = async (narration: AudioBuffer): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(narration.duration * MIX_SAMPLE_RATE)), MIX_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = narration;
+  source.connect(ctx.destination);
+  source.start(0);
+  return ctx.startRendering();
+};
+
+/**
+ * Mixes narration over a music bed. Returns the final mix plus both stems,
+ * all the same length so they line up in an editor.
+ */
+export const mixNarrationWithMusic = async (
+  narration: AudioBuffer,
+  music: AudioBuffer,
+  settings: MusicBedSettings
+): Promise<MixResult> => {
+  const [narrationStem, musicStem] = await Promise.all([
+    renderNarrationStem(narration),
+    renderMusicStem(narration, music, settings),
+  ]);
+
+  const length = Math.min(narrationStem.length, musicStem.length);
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  const mix = ctx.createBuffer(2, length, MIX_SAMPLE_RATE);
+
+  let peak = 0;
+  for (let channel = 0; channel < 2; channel++) {
+    const voice = narrationStem.getChannelData(channel);
+    const bed = musicStem.getChannelData(channel);
+    const out = mix.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      out[i] = voice[i] + bed[i];
+      peak = Math.max(peak, Math.abs(out[i]));
+    }
+  }
+
+  // Normalize down only if the sum would clip
+  if (peak > 0.98) {
+    const gain = 0.98 / peak;
+    for (let channel = 0; channel < 2; channel++) {
+      const out = mix.getChannelData(channel);
+      for (let i = 0; i < length; i++) out[i] *= gain;
+    }
+  }
+
+  return { mix, narration: narrationStem, music: musicStem };
+};
+
+/**
+ * Mixes the music bed under every scene's narration played back to back and
+ * encodes the mix and both stems as WAV
+ */
+export const mixSoundtrack = async (
+  audioUrls: string[],
+  music: AudioBuffer,
+  settings: MusicBedSettings
+): Promise<MixedSoundtrack> => {
+  if (audioUrls.length === 0) {
+    throw new Error('There is no narration to mix music under.');
+  }
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  const clips = await Promise.all(audioUrls.map(url => loadAudioBuffer(url, ctx)));
+  const result = await mixNarrationWithMusic(concatAudioBuffers(clips, ctx), music, settings);
+  return {
+    mixUrl: URL.createObjectURL(audioBufferToWav(result.mix)),
+    narrationUrl: URL.createObjectURL(audioBufferToWav(result.narration)),
+    musicUrl: URL.createObjectURL(audioBufferToWav(result.music)),
+    duration: result.mix.duration,
+  };
+};
+
+export const revokeSoundtrack = (soundtrack: MixedSoundtrack) => {
+  URL.revokeObjectURL(soundtrack.mixUrl);
+  URL.revokeObjectURL(soundtrack.narrationUrl);
+  URL.revokeObjectURL(soundtrack.musicUrl);
+};
@@ -0,0 +1,84 @@
+import { AudioMetadata } from '../types';
+
+export const ENCODER_NAME = 'FactVideoCreator';
+
+const ID3_FRAMES: [keyof AudioMetadata, string][] = [
+  ['title', 'TIT2'],
+  ['artist', 'TPE1'],
+  ['album', 'TALB'],
+];
+
+const VORBIS_FIELDS: [keyof AudioMetadata, string][] = [
+  ['title', 'TITLE'],
+  ['artist', 'ARTIST'],
+  ['album', 'ALBUM'],
+  ['comment', 'COMMENT'],
+];
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+/**
+ * 28-bit "syncsafe" integer: 7 bits per byte so tag sizes never look like an
+ * MPEG sync word
+ */
+const syncsafe = (value: number): number[] => [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(10);
+  header.set(new TextEncoder().encode(id), 0);
+  header.set(syncsafe(body.length), 4);
+  return concatBytes([header, body]);
+};
+
+/**
+ * ID3v2.4 tag with UTF-8 text frames, prepended to MP3 files. Empty when
+ * there is nothing to tag.
+ */
+export const buildId3Tag = (metadata: AudioMetadata): Uint8Array => {
+  const encoder = new TextEncoder();
+  const frames = ID3_FRAMES.flatMap(([key, id]) => {
+    const value = metadata[key]?.trim();
+    // Encoding byte 3 = UTF-8
+    return value ? [id3Frame(id, concatBytes([new Uint8Array([3]), encoder.encode(value)]))] : [];
+  });
+  const comment = metadata.comment?.trim();
+  if (comment) {
+    // Encoding, language, empty description, then the text
+    frames.push(id3Frame('COMM', concatBytes([new Uint8Array([3]), encoder.encode('eng'), new Uint8Array([0]), encoder.encode(comment)])));
+  }
+  if (frames.length === 0) return new Uint8Array(0);
+
+  const body = concatBytes(frames);
+  const header = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, ...syncsafe(body.length)]); // "ID3" v2.4.0, no flags
+  return concatBytes([header, body]);
+};
+
+/**
+ * Vorbis comment structure shared by FLAC and Opus: little-endian length
+ * prefixed vendor string and FIELD=value pairs, no framing bit
+ */
+export const buildVorbisComment = (metadata: AudioMetadata): Uint8Array => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(ENCODER_NAME);
+  const comments = VORBIS_FIELDS.flatMap(([key, field]) => {
+    const value = metadata[key]?.trim();
+    return value ? [encoder.encode(`${field}=${value}`)] : [];
+  });
+
+  const lengthPrefixed = (bytes: Uint8Array) => {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, bytes.length, true);
+    return [length, bytes];
+  };
+  const count = new Uint8Array(4);
+  new DataView(count.buffer).setUint32(0, comments.length, true);
+  return concatBytes([...lengthPrefixed(vendor), count, ...comments.flatMap(lengthPrefixed)]);
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { audioBufferToWav } from './audioUtils';
+
+const fakeBuffer = (channels: number[][], sampleRate = 24000) => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+}) as unknown as AudioBuffer;
+
+const readWav = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number) => new TextDecoder().decode(bytes.subarray(offset, offset + 4));
+  return { bytes, view, tag };
+};
+
+describe('audioBufferToWav', () => {
+  it('writes a 16-bit PCM header and interleaved samples', async () => {
+    const blob = audioBufferToWav(fakeBuffer([[0, 1, -1], [0.5, -0.5, 2]]));
+    expect(blob.type).toBe('audio/wav');
+    const { bytes, view, tag } = await readWav(blob);
+
+    expect(bytes).toHaveLength(44 + 3 * 2 * 2);
+    expect([tag(0), tag(8), tag(12), tag(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(12);
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    // Frames interleave the channels; out-of-range input is clamped
+    expect(samples).toEqual([0, 16383, 32767, -16383, -32768, 32767]);
+  });
+
+  it('writes 24-bit PCM little-endian', async () => {
+    const { view } = await readWav(audioBufferToWav(fakeBuffer([[1, -1, 0.5]]), { bitDepth: 24 }));
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint16(32, true)).toBe(3);
+    const sample = (i: number) => (view.getInt8(44 + i * 3 + 2) << 16) | (view.getUint8(44 + i * 3 + 1) << 8) | view.getUint8(44 + i * 3);
+    expect([sample(0), sample(1), sample(2)]).toEqual([0x7fffff, -0x800000, Math.round(0.5 * 0x7fffff)]);
+  });
+
+  it('writes 32-bit samples as IEEE float', async () => {
+    const { view } = await readWav(audioBufferToWav(fakeBuffer([[0.25, -0.75]]), { bitDepth: 32 }));
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(32);
+    expect([view.getFloat32(44, true), view.getFloat32(48, true)]).toEqual([0.25, -0.75]);
+  });
+
+  it('appends the tags as a word-aligned LIST/INFO chunk', async () => {
+    const { bytes, view, tag } = await readWav(audioBufferToWav(fakeBuffer([[0, 0, 0]]), {
+      bitDepth: 24,
+      metadata: { title: 'Octopus', artist: ' ', comment: 'Facts' },
+    }));
+    // 9 bytes of 24-bit mono data, so a pad byte keeps LIST on an even offset
+    expect(view.getUint32(40, true)).toBe(9);
+    expect(bytes[53]).toBe(0);
+    expect(tag(54)).toBe('LIST');
+    expect(tag(62)).toBe('INFO');
+    expect(view.getUint32(58, true)).toBe(bytes.length - 62);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+
+    expect(tag(66)).toBe('INAM');
+    expect(view.getUint32(70, true)).toBe(8);
+    expect(new TextDecoder().decode(bytes.subarray(74, 82))).toBe('Octopus\0');
+    // The blank artist is skipped; "Facts\0" is 6 bytes, already even
+    expect(tag(82)).toBe('ICMT');
+    expect(view.getUint32(86, true)).toBe(6);
+    expect(bytes).toHaveLength(96);
+  });
+
+  it('leaves out the INFO chunk when there is nothing to tag', async () => {
+    const { bytes } = await readWav(audioBufferToWav(fakeBuffer([[0, 0, 0]]), { bitDepth: 24, metadata: { title: '' } }));
+    expect(bytes).toHaveLength(44 + 9);
+  });
+});
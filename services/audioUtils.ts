@@ -0,0 +1,180 @@
+import { AudioMetadata } from '../types';
+
+// Helpers for Audio Decoding
+export function decode(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavOptions {
+  /** 16/24-bit integer PCM, or 32-bit float */
+  bitDepth?: WavBitDepth;
+  /** Written as a RIFF LIST/INFO chunk */
+  metadata?: AudioMetadata;
+}
+
+const INFO_FIELDS: [keyof AudioMetadata, string][] = [
+  ['title', 'INAM'],
+  ['artist', 'IART'],
+  ['album', 'IPRD'],
+  ['comment', 'ICMT'],
+];
+
+/**
+ * LIST/INFO chunk with NUL-terminated, word-aligned text fields
+ */
+const wavInfoChunk = (metadata: AudioMetadata): Uint8Array | null => {
+  const encoder = new TextEncoder();
+  const fields = INFO_FIELDS.flatMap(([key, id]) => {
+    const value = metadata[key]?.trim();
+    if (!value) return [];
+    const text = encoder.encode(value);
+    const size = text.length + 1;
+    const field = new Uint8Array(8 + size + (size % 2));
+    field.set(encoder.encode(id), 0);
+    new DataView(field.buffer).setUint32(4, size, true);
+    field.set(text, 8);
+    return [field];
+  });
+  if (fields.length === 0) return null;
+
+  const size = 4 + fields.reduce((total, field) => total + field.length, 0);
+  const chunk = new Uint8Array(8 + size);
+  chunk.set(encoder.encode('LIST'), 0);
+  new DataView(chunk.buffer).setUint32(4, size, true);
+  chunk.set(encoder.encode('INFO'), 8);
+  let offset = 12;
+  for (const field of fields) {
+    chunk.set(field, offset);
+    offset += field.length;
+  }
+  return chunk;
+};
+
+export function audioBufferToWav(buffer: AudioBuffer, { bitDepth = 16, metadata }: WavOptions = {}): Blob {
+  const numOfChan = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+  const info = metadata ? wavInfoChunk(metadata) : null;
+  // Odd-sized data (24-bit mono with an odd frame count) needs a pad byte before the next chunk
+  const pad = info && dataLength % 2 ? 1 : 0;
+  const header = new ArrayBuffer(44);
+  const data = new ArrayBuffer(dataLength);
+  const view = new DataView(header);
+  const out = new DataView(data);
+  const channels = [];
+  let pos = 0;
+
+  // write WAVE header
+  setUint32(0x46464952); // "RIFF"
+  setUint32(36 + dataLength + pad + (info?.length ?? 0)); // file length - 8
+  setUint32(0x45564157); // "WAVE"
+
+  setUint32(0x20746d66); // "fmt " chunk
+  setUint32(16); // length = 16
+  setUint16(bitDepth === 32 ? 3 : 1); // IEEE float or PCM
+  setUint16(numOfChan);
+  setUint32(buffer.sampleRate);
+  setUint32(buffer.sampleRate * bytesPerSample * numOfChan); // avg. bytes/sec
+  setUint16(numOfChan * bytesPerSample); // block-align
+  setUint16(bitDepth);
+
+  setUint32(0x61746164); // "data" - chunk
+  setUint32(dataLength); // chunk length
+
+  // write interleaved data
+  for (let i = 0; i < buffer.numberOfChannels; i++)
+    channels.push(buffer.getChannelData(i));
+
+  let offset = 0;
+  for (let frame = 0; frame < buffer.length; frame++) {
+    for (let i = 0; i < numOfChan; i++) {
+      const sample = Math.max(-1, Math.min(1, channels[i][frame])); // clamp
+      if (bitDepth === 32) {
+        out.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        out.setUint8(offset, value & 0xff);
+        out.setUint8(offset + 1, (value >> 8) & 0xff);
+        out.setUint8(offset + 2, (value >> 16) & 0xff);
+      } else {
+        out.setInt16(offset, (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0, true); // scale to 16-bit signed int
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  const parts: BlobPart[] = [header, data];
+  if (info) parts.push(new Uint8Array(pad), info);
+  return new Blob(parts, { type: "audio/wav" });
+
+  function setUint16(data: number) {
+    view.setUint16(pos, data, true);
+    pos += 2;
+  }
+
+  function setUint32(data: number) {
+    view.setUint32(pos, data, true);
+    pos += 4;
+  }
+}
+
+/**
+ * Fetches an audio URL (blob or remote) and decodes it with the browser's codecs
+ */
+export const loadAudioBuffer = async (url: string, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const data = await response.arrayBuffer();
+  return ctx.decodeAudioData(data);
+};
+
+export const createSilence = (ctx: BaseAudioContext, seconds: number): AudioBuffer =>
+  ctx.createBuffer(1, Math.max(1, Math.round(seconds * ctx.sampleRate)), ctx.sampleRate);
+
+/**
+ * Joins decoded clips end to end, optionally with silence between them.
+ * All buffers must share the context's sample rate.
+ */
+export const concatAudioBuffers = (buffers: AudioBuffer[], ctx: BaseAudioContext, gapSeconds: number = 0): AudioBuffer => {
+  const numberOfChannels = Math.max(...buffers.map(buffer => buffer.numberOfChannels));
+  const gap = Math.round(gapSeconds * ctx.sampleRate);
+  const length = buffers.reduce((total, buffer) => total + buffer.length, 0) + gap * Math.max(0, buffers.length - 1);
+  const output = ctx.createBuffer(numberOfChannels, Math.max(1, length), ctx.sampleRate);
+
+  let offset = 0;
+  for (const buffer of buffers) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      // Mono clips are copied into every output channel
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      output.getChannelData(channel).set(source, offset);
+    }
+    offset += buffer.length + gap;
+  }
+  return output;
+};
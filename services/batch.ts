@@ -0,0 +1,319 @@
+import { GeneratedContent, GenerationMode, Scene } from '../types';
+import { DEFAULT_SPEAKING_RATE, DEFAULT_VOICE, VOICES, createScene } from './project';
+import { captionsToSrt } from './captions';
+import { isAbortError } from './requestScheduler';
+import { createZip, ZipEntry } from './zip';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  /** 1-based row in the source file, for error messages */
+  row: number;
+  title: string;
+  mode: GenerationMode;
+  scene: Scene;
+  status: BatchItemStatus;
+  error?: string;
+  result?: GeneratedContent;
+}
+
+export interface BatchRowError {
+  row: number;
+  message: string;
+}
+
+export interface BatchParseResult {
+  items: BatchItem[];
+  errors: BatchRowError[];
+}
+
+const MODES: GenerationMode[] = ['both', 'narration', 'image'];
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2.0;
+
+// Accepted spellings per field, compared after lower-casing and stripping separators
+const FIELD_ALIASES: Record<string, string[]> = {
+  title: ['title', 'name'],
+  narration: ['narration', 'narrationtext', 'text', 'script'],
+  visualPrompt: ['visualprompt', 'visual', 'prompt', 'imageprompt', 'image'],
+  voice: ['voice', 'voicename'],
+  speed: ['speed', 'speakingrate', 'rate'],
+  mode: ['mode'],
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+interface SourceRecord {
+  row: number;
+  record: Record<string, unknown>;
+}
+
+const isBlankRow = (cells: string[]) => cells.every(cell => !cell.trim());
+
+const csvToRecords = (text: string): SourceRecord[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  // Row numbers count the header and blank lines so they match the spreadsheet
+  return rows.flatMap((cells, index) => isBlankRow(cells) ? [] : [{
+    row: index + 2,
+    record: Object.fromEntries(header.map((key, column) => [key, cells[column] ?? ''])),
+  }]);
+};
+
+const jsonToRecords = (text: string): SourceRecord[] => {
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : null;
+  if (!rows) {
+    throw new Error('JSON must be an array of rows or an object with an "items" array.');
+  }
+  return rows.map((row: unknown, index: number) => ({
+    row: index + 1,
+    record: row && typeof row === 'object' ? row as Record<string, unknown> : {},
+  }));
+};
+
+const pickField = (record: Record<string, unknown>, field: keyof typeof FIELD_ALIASES): string => {
+  for (const [key, value] of Object.entries(record)) {
+    if (FIELD_ALIASES[field].includes(normalizeKey(key)) && value !== undefined && value !== null) {
+      return String(value).trim();
+    }
+  }
+  return '';
+};
+
+/**
+ * Validates one record, returning either a ready-to-run item or every
+ * problem found on the row
+ */
+const recordToItem = (record: Record<string, unknown>, row: number): BatchItem | string[] => {
+  const problems: string[] = [];
+  const narrationText = pickField(record, 'narration');
+  const visualPrompt = pickField(record, 'visualPrompt');
+
+  const modeValue = pickField(record, 'mode').toLowerCase() || 'both';
+  const mode = MODES.find(m => m === modeValue);
+  if (!mode) problems.push(`mode "${modeValue}" must be one of ${MODES.join(', ')}`);
+
+  const voiceValue = pickField(record, 'voice');
+  const voice = voiceValue ? VOICES.find(v => v.toLowerCase() === voiceValue.toLowerCase()) : DEFAULT_VOICE;
+  if (!voice) problems.push(`unknown voice "${voiceValue}" (available: ${VOICES.join(', ')})`);
+
+  const speedValue = pickField(record, 'speed');
+  const speakingRate = speedValue ? Number(speedValue) : DEFAULT_SPEAKING_RATE;
+  if (!Number.isFinite(speakingRate) || speakingRate < MIN_SPEED || speakingRate > MAX_SPEED) {
+    problems.push(`speed "${speedValue}" must be a number between ${MIN_SPEED} and ${MAX_SPEED}`);
+  }
+
+  if ((mode === 'both' || mode === 'narration') && !narrationText) problems.push('narration is required');
+  if ((mode === 'both' || mode === 'image') && !visualPrompt) problems.push('visual prompt is required');
+
+  if (problems.length > 0 || !mode || !voice) return problems;
+
+  const scene = createScene({ narrationText, visualPrompt, voice, speakingRate });
+  const fallbackTitle = (narrationText || visualPrompt).split(/\s+/).slice(0, 6).join(' ');
+  return {
+    id: scene.id,
+    row,
+    title: pickField(record, 'title') || fallbackTitle || `Row ${row}`,
+    mode,
+    scene,
+    status: 'queued',
+  };
+};
+
+/**
+ * Parses a CSV (header row required) or JSON batch file. Valid rows become
+ * queue items; invalid rows are reported individually instead of failing
+ * the whole file.
+ */
+export const parseBatchFile = (text: string, fileName: string): BatchParseResult => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  let records: SourceRecord[];
+  try {
+    records = isJson ? jsonToRecords(text) : csvToRecords(text);
+  } catch (error) {
+    return { items: [], errors: [{ row: 0, message: error instanceof Error ? error.message : 'Could not read the file.' }] };
+  }
+
+  const items: BatchItem[] = [];
+  const errors: BatchRowError[] = [];
+  records.forEach(({ record, row }) => {
+    const parsed = recordToItem(record, row);
+    if (Array.isArray(parsed)) {
+      errors.push(...parsed.map(message => ({ row, message })));
+    } else {
+      items.push(parsed);
+    }
+  });
+  if (records.length === 0) {
+    errors.push({ row: 0, message: 'The file has no rows.' });
+  }
+  return { items, errors };
+};
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  run: (item: BatchItem, signal: AbortSignal) => Promise<GeneratedContent>;
+  onUpdate: (id: string, changes: Partial<BatchItem>) => void;
+}
+
+export interface BatchQueueController {
+  pause: () => void;
+  resume: () => void;
+  /** Stops picking up work and aborts the items already running */
+  cancel: () => void;
+  /** Resolves once every item has finished, failed or been cancelled */
+  done: Promise<void>;
+}
+
+/**
+ * Runs queued items with at most `concurrency` in flight. Unlike
+ * mapWithConcurrency a failed item doesn't stop the batch, since rows are
+ * independent videos.
+ */
+export const runBatchQueue = (items: BatchItem[], { concurrency, run, onUpdate }: BatchQueueOptions): BatchQueueController => {
+  const pending = items.filter(item => item.status === 'queued');
+  let paused = false;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+  let resumed = Promise.resolve();
+  const abort = new AbortController();
+
+  const worker = async () => {
+    while (true) {
+      await resumed;
+      const item = cancelled ? undefined : pending.shift();
+      if (!item) return;
+      onUpdate(item.id, { status: 'running', error: undefined });
+      try {
+        onUpdate(item.id, { status: 'done', result: await run(item, abort.signal) });
+      } catch (error) {
+        onUpdate(item.id, isAbortError(error)
+          ? { status: 'cancelled' }
+          : { status: 'failed', error: error instanceof Error ? error.message : 'Generation failed.' });
+      }
+    }
+  };
+
+  const done = Promise.all(
+    Array.from({ length: Math.min(Math.max(1, concurrency), Math.max(1, pending.length)) }, worker)
+  ).then(() => undefined);
+
+  return {
+    pause: () => {
+      if (paused || cancelled) return;
+      paused = true;
+      resumed = new Promise(resolve => { wake = resolve; });
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      wake?.();
+    },
+    cancel: () => {
+      cancelled = true;
+      pending.splice(0).forEach(item => onUpdate(item.id, { status: 'cancelled' }));
+      abort.abort();
+      // Paused workers must wake up to notice the cancellation and exit
+      wake?.();
+    },
+    done,
+  };
+};
+
+export const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'item';
+
+const fetchBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+/**
+ * Packs every finished item into one ZIP: a folder per row with its image,
+ * narration and captions, plus manifest.json describing all rows (including
+ * failed ones) so a pipeline can pick the results up.
+ */
+export const buildBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+
+  for (const item of items) {
+    const folder = `${String(item.row).padStart(3, '0')}-${slugify(item.title)}`;
+    const files: Record<string, string> = {};
+    const result = item.result;
+
+    if (result?.imageUrl) {
+      files.image = `${folder}/image.png`;
+      entries.push({ name: files.image, data: await fetchBlob(result.imageUrl) });
+    }
+    if (result?.audioUrl) {
+      files.audio = `${folder}/narration.wav`;
+      entries.push({ name: files.audio, data: await fetchBlob(result.audioUrl) });
+    }
+    if (result?.captions?.length) {
+      files.captions = `${folder}/captions.srt`;
+      entries.push({ name: files.captions, data: captionsToSrt(result.captions) });
+    }
+
+    manifest.push({
+      row: item.row,
+      title: item.title,
+      mode: item.mode,
+      status: item.status,
+      error: item.error,
+      narrationText: item.scene.narrationText,
+      visualPrompt: item.scene.visualPrompt,
+      voice: item.scene.voice,
+      speakingRate: item.scene.speakingRate,
+      audioDuration: result?.audioDuration,
+      files,
+    });
+  }
+
+  entries.unshift({
+    name: 'manifest.json',
+    data: JSON.stringify({ version: 1, createdAt: new Date().toISOString(), items: manifest }, null, 2),
+  });
+  return createZip(entries);
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionCue } from '../types';
+import { alignCaptions, captionsToSrt, captionsToVtt, offsetCaptions, splitIntoPhrases, trimCaptions } from './captions';
+
+const SAMPLE_RATE = 8000;
+
+const fakeBuffer = (data: Float32Array) => ({
+  numberOfChannels: 1,
+  length: data.length,
+  sampleRate: SAMPLE_RATE,
+  duration: data.length / SAMPLE_RATE,
+  getChannelData: () => data,
+}) as unknown as AudioBuffer;
+
+/**
+ * A tone during each [start, end] span (seconds) and silence elsewhere
+ */
+const speech = (duration: number, spans: [number, number][]): AudioBuffer => {
+  const data = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (const [start, end] of spans) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      data[i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+    }
+  }
+  return fakeBuffer(data);
+};
+
+const cue = (start: number, end: number, text: string): CaptionCue => ({
+  start,
+  end,
+  text,
+  words: text.split(' ').map((word, index, words) => ({
+    text: word,
+    start: start + ((end - start) * index) / words.length,
+    end: start + ((end - start) * (index + 1)) / words.length,
+  })),
+});
+
+describe('splitIntoPhrases', () => {
+  it('splits at sentence ends', () => {
+    expect(splitIntoPhrases('Octopuses have three hearts. They are smart!')).toEqual([
+      ['Octopuses', 'have', 'three', 'hearts.'],
+      ['They', 'are', 'smart!'],
+    ]);
+  });
+
+  it('breaks long sentences at commas and at eight words', () => {
+    const phrases = splitIntoPhrases('First of all, one two three four five six seven eight nine ten.');
+    expect(phrases[0]).toEqual(['First', 'of', 'all,']);
+    expect(phrases.slice(1).map(words => words.length)).toEqual([8, 2]);
+  });
+});
+
+describe('alignCaptions', () => {
+  it('snaps phrase boundaries to the pause between them', () => {
+    const cues = alignCaptions('Octopuses have three hearts. They are smart.', speech(3, [[0.2, 1.4], [1.9, 2.8]]));
+    expect(cues.map(c => c.text)).toEqual(['Octopuses have three hearts.', 'They are smart.']);
+    expect(cues[0].start).toBeCloseTo(0.2, 1);
+    expect(cues[0].end).toBeCloseTo(1.65, 1);
+    expect(cues[1].start).toBe(cues[0].end);
+    expect(cues[1].end).toBeCloseTo(2.8, 1);
+  });
+
+  it('keeps words in order inside their cue and out of the silences', () => {
+    const cues = alignCaptions('Octopuses have three hearts. They are smart.', speech(3, [[0.2, 1.4], [1.9, 2.8]]));
+    for (const { start, end, words } of cues) {
+      words.forEach((word, index) => {
+        expect(word.start).toBeGreaterThanOrEqual(start);
+        expect(word.end).toBeLessThanOrEqual(end);
+        expect(word.end).toBeGreaterThanOrEqual(word.start);
+        if (index > 0) expect(word.start).toBeGreaterThanOrEqual(words[index - 1].end);
+      });
+    }
+    expect(cues[1].words[0].start).toBeGreaterThanOrEqual(1.89);
+  });
+
+  it('returns no cues for empty text', () => {
+    expect(alignCaptions('  ', speech(1, [[0, 1]]))).toEqual([]);
+  });
+});
+
+describe('offsetCaptions and trimCaptions', () => {
+  it('shifts cues and their words', () => {
+    const [shifted] = offsetCaptions([cue(1, 2, 'a b')], 10);
+    expect([shifted.start, shifted.end]).toEqual([11, 12]);
+    expect(shifted.words.map(word => word.start)).toEqual([11, 11.5]);
+  });
+
+  it('keeps what overlaps the kept range and re-times it from zero', () => {
+    const trimmed = trimCaptions([cue(0, 1, 'a b'), cue(1, 2, 'c d'), cue(2, 3, 'e f')], 1.5, 2.5);
+    expect(trimmed.map(c => [c.start, c.end])).toEqual([[0, 0.5], [0.5, 1]]);
+    expect(trimmed[0].words.map(word => word.text)).toEqual(['d']);
+    expect(trimmed[1].words.map(word => word.text)).toEqual(['e']);
+  });
+});
+
+describe('subtitle files', () => {
+  const cues = [cue(0, 1.5, 'Did you know'), cue(3661.25, 3662, 'octopuses')];
+
+  it('writes numbered SRT cues with comma milliseconds', () => {
+    expect(captionsToSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nDid you know\n\n' +
+      '2\n01:01:01,250 --> 01:01:02,000\noctopuses\n'
+    );
+  });
+
+  it('writes WebVTT with inline word timestamps', () => {
+    expect(captionsToVtt(cues)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:01.500\nDid <00:00:00.500>you <00:00:01.000>know\n\n' +
+      '01:01:01.250 --> 01:01:02.000\noctopuses\n'
+    );
+  });
+});
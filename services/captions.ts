@@ -0,0 +1,316 @@
+import { CaptionCue, CaptionWord } from '../types';
+import { loadAudioBuffer } from './audioUtils';
+
+const FRAME_SECONDS = 0.01; // 10ms analysis frames
+const MIN_PAUSE_SECONDS = 0.15;
+const SNAP_WINDOW_SECONDS = 1.5;
+const MAX_WORDS_PER_CUE = 8;
+
+interface Pause {
+  start: number;
+  end: number;
+}
+
+interface EnergyProfile {
+  voiced: boolean[];
+  speechStart: number;
+  speechEnd: number;
+  pauses: Pause[];
+}
+
+/**
+ * Splits narration into caption-sized phrases: sentences first, then long
+ * sentences are broken at commas or every MAX_WORDS_PER_CUE words.
+ */
+export const splitIntoPhrases = (text: string): string[][] => {
+  const sentences = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) ?? [];
+
+  const phrases: string[][] = [];
+  for (const sentence of sentences) {
+    const words = sentence.trim().split(' ').filter(Boolean);
+    let current: string[] = [];
+    for (const word of words) {
+      current.push(word);
+      const atComma = /[,;:]$/.test(word) && current.length >= 3;
+      if (current.length >= MAX_WORDS_PER_CUE || atComma) {
+        phrases.push(current);
+        current = [];
+      }
+    }
+    if (current.length) phrases.push(current);
+  }
+  return phrases;
+};
+
+/**
+ * Rough spoken-length weight: longer words and digits take longer to say,
+ * punctuation adds a small breath.
+ */
+const wordWeight = (word: string): number => {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, '');
+  const digits = word.replace(/[^0-9]/g, '').length;
+  return Math.max(1, letters.length) + digits * 2 + (/[,;:.!?]$/.test(word) ? 2 : 0);
+};
+
+const analyseEnergy = (buffer: AudioBuffer): EnergyProfile => {
+  const data = buffer.getChannelData(0);
+  const frameLength = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(data.length / frameLength);
+  const rms = new Float32Array(frameCount);
+
+  let peak = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const start = frame * frameLength;
+    const end = Math.min(data.length, start + frameLength);
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    rms[frame] = Math.sqrt(sum / Math.max(1, end - start));
+    peak = Math.max(peak, rms[frame]);
+  }
+
+  // Relative threshold so quiet and loud voices segment the same way
+  const threshold = Math.max(peak * 0.08, 1e-4);
+  const voiced = Array.from(rms, value => value > threshold);
+
+  const firstVoiced = voiced.indexOf(true);
+  const lastVoiced = voiced.lastIndexOf(true);
+  const speechStart = firstVoiced === -1 ? 0 : firstVoiced * FRAME_SECONDS;
+  const speechEnd = lastVoiced === -1 ? buffer.duration : Math.min(buffer.duration, (lastVoiced + 1) * FRAME_SECONDS);
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  for (let frame = Math.max(0, firstVoiced); frame <= lastVoiced; frame++) {
+    if (!voiced[frame]) {
+      if (runStart === -1) runStart = frame;
+    } else if (runStart !== -1) {
+      const pause = { start: runStart * FRAME_SECONDS, end: frame * FRAME_SECONDS };
+      if (pause.end - pause.start >= MIN_PAUSE_SECONDS) pauses.push(pause);
+      runStart = -1;
+    }
+  }
+
+  return { voiced, speechStart, speechEnd, pauses };
+};
+
+/**
+ * Maps a fraction of spoken weight within [start, end] onto real time,
+ * counting only voiced frames so words never land inside a silence.
+ */
+const voicedTimeMapper = (voiced: boolean[], start: number, end: number) => {
+  const first = Math.floor(start / FRAME_SECONDS);
+  const last = Math.max(first + 1, Math.ceil(end / FRAME_SECONDS));
+  const voicedFrames: number[] = [];
+  for (let frame = first; frame < last; frame++) {
+    if (voiced[frame]) voicedFrames.push(frame);
+  }
+  if (voicedFrames.length === 0) {
+    return (fraction: number) => start + (end - start) * fraction;
+  }
+  return (fraction: number) => {
+    const position = Math.min(voicedFrames.length - 1, Math.floor(fraction * voicedFrames.length));
+    if (fraction >= 1) return end;
+    return Math.max(start, Math.min(end, voicedFrames[position] * FRAME_SECONDS));
+  };
+};
+
+/**
+ * Aligns narration text against the decoded narration audio.
+ *
+ * Phrase boundaries are first estimated proportionally to spoken weight, then
+ * snapped to the nearest detected pause; words are spread across the voiced
+ * frames of their phrase.
+ */
+export const alignCaptions = (text: string, buffer: AudioBuffer): CaptionCue[] => {
+  const phrases = splitIntoPhrases(text);
+  if (phrases.length === 0) return [];
+
+  const { voiced, speechStart, speechEnd, pauses } = analyseEnergy(buffer);
+  const phraseWeights = phrases.map(words => words.reduce((sum, word) => sum + wordWeight(word), 0));
+  const totalWeight = phraseWeights.reduce((sum, weight) => sum + weight, 0);
+  const speechDuration = speechEnd - speechStart;
+
+  // Estimate each boundary, then snap it to the closest unused pause
+  const boundaries: number[] = [speechStart];
+  const usedPauses = new Set<Pause>();
+  let cumulative = 0;
+  for (let i = 0; i < phrases.length - 1; i++) {
+    cumulative += phraseWeights[i];
+    const estimate = speechStart + speechDuration * (cumulative / totalWeight);
+    const previous = boundaries[boundaries.length - 1];
+
+    let best: Pause | null = null;
+    for (const pause of pauses) {
+      if (usedPauses.has(pause) || pause.start <= previous) continue;
+      const mid = (pause.start + pause.end) / 2;
+      if (Math.abs(mid - estimate) > SNAP_WINDOW_SECONDS) continue;
+      if (!best || Math.abs(mid - estimate) < Math.abs((best.start + best.end) / 2 - estimate)) best = pause;
+    }
+
+    if (best) {
+      usedPauses.add(best);
+      boundaries.push((best.start + best.end) / 2);
+    } else {
+      boundaries.push(Math.max(previous, estimate));
+    }
+  }
+  boundaries.push(speechEnd);
+
+  return phrases.map((words, index) => {
+    const cueStart = boundaries[index];
+    const cueEnd = boundaries[index + 1];
+    const toTime = voicedTimeMapper(voiced, cueStart, cueEnd);
+
+    const weights = words.map(wordWeight);
+    const phraseWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    let consumed = 0;
+    const timedWords: CaptionWord[] = words.map((word, wordIndex) => {
+      const start = toTime(consumed / phraseWeight);
+      consumed += weights[wordIndex];
+      const end = toTime(consumed / phraseWeight);
+      return { text: word, start, end: Math.max(start, end) };
+    });
+
+    return {
+      start: cueStart,
+      end: cueEnd,
+      text: words.join(' '),
+      words: timedWords,
+    };
+  });
+};
+
+/**
+ * Decodes a generated narration and aligns its script, returning the cues
+ * together with the exact audio duration they were timed against.
+ */
+export const generateCaptions = async (text: string, audioUrl: string): Promise<{ captions: CaptionCue[]; duration: number }> => {
+  // Offline context: decoding only, nothing is played or kept open
+  const ctx = new OfflineAudioContext(1, 1, 24000);
+  const buffer = await loadAudioBuffer(audioUrl, ctx);
+  return { captions: alignCaptions(text, buffer), duration: buffer.duration };
+};
+
+/**
+ * Shifts cues onto a longer timeline (e.g. scene N of a multi-scene sequence)
+ */
+export const offsetCaptions = (cues: CaptionCue[], offset: number): CaptionCue[] =>
+  cues.map(cue => ({
+    ...cue,
+    start: cue.start + offset,
+    end: cue.end + offset,
+    words: cue.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+  }));
+
+/**
+ * Keeps the cues (and words) inside [start, end] of the audio, re-timed so
+ * `start` becomes zero, for narration that has been trimmed
+ */
+export const trimCaptions = (cues: CaptionCue[], start: number, end: number): CaptionCue[] =>
+  offsetCaptions(
+    cues
+      .filter(cue => cue.end > start && cue.start < end)
+      .map(cue => ({
+        ...cue,
+        start: Math.max(start, cue.start),
+        end: Math.min(end, cue.end),
+        words: cue.words.filter(word => word.end > start && word.start < end),
+      })),
+    -start
+  );
+
+export const findActiveCue = (cues: CaptionCue[], time: number): CaptionCue | null =>
+  cues.find(cue => time >= cue.start && time < cue.end) ?? null;
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => value.toString().padStart(size, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const captionsToSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+
+/**
+ * WebVTT with inline word timestamps, which players that support karaoke cues
+ * use to highlight words as they are spoken.
+ */
+export const captionsToVtt = (cues: CaptionCue[]): string => {
+  const body = cues
+    .map((cue) => {
+      const words = cue.words
+        .map((word, index) => (index === 0 ? word.text : `<${formatTimestamp(word.start, '.')}>${word.text}`))
+        .join(' ');
+      return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${words}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+const wrapWords = (ctx: CanvasRenderingContext2D, words: CaptionWord[], maxWidth: number): CaptionWord[][] => {
+  const lines: CaptionWord[][] = [];
+  let line: CaptionWord[] = [];
+  for (const word of words) {
+    const candidate = [...line, word].map(w => w.text).join(' ');
+    if (line.length && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = [];
+    }
+    line.push(word);
+  }
+  if (line.length) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draws karaoke-style captions for `time` onto a video frame: words already
+ * spoken are highlighted, the rest stay white. Shared by the preview and the
+ * video renderer so burned-in captions match what the user saw.
+ */
+export const drawCaptions = (
+  ctx: CanvasRenderingContext2D,
+  cues: CaptionCue[],
+  time: number,
+  width: number,
+  height: number
+) => {
+  const cue = findActiveCue(cues, time);
+  if (!cue) return;
+
+  const fontSize = Math.round(Math.min(width, height) * 0.06);
+  ctx.save();
+  ctx.font = `800 ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = fontSize * 0.18;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+
+  const lines = wrapWords(ctx, cue.words, width * 0.8);
+  const lineHeight = fontSize * 1.25;
+  const spaceWidth = ctx.measureText(' ').width;
+  const baseY = height * 0.84 - ((lines.length - 1) * lineHeight) / 2;
+
+  lines.forEach((line, lineIndex) => {
+    const lineWidth = ctx.measureText(line.map(w => w.text).join(' ')).width;
+    let x = (width - lineWidth) / 2;
+    const y = baseY + lineIndex * lineHeight;
+    for (const word of line) {
+      const wordWidth = ctx.measureText(word.text).width;
+      ctx.strokeText(word.text, x, y);
+      ctx.fillStyle = time >= word.start ? '#facc15' : '#ffffff';
+      ctx.fillText(word.text, x, y);
+      x += wordWidth + spaceWidth;
+    }
+  });
+  ctx.restore();
+};
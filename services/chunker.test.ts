@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mapWithConcurrency, splitIntoChunks, withRetries } from './chunker';
+import { ApiRequestError, createAbortError } from './requestScheduler';
+
+const sentence = (index: number) => `Sentence number ${index} is about octopuses and their hearts.`;
+
+describe('splitIntoChunks', () => {
+  it('keeps short text in one chunk', () => {
+    expect(splitIntoChunks('  Short narration.  ', 100)).toEqual(['Short narration.']);
+    expect(splitIntoChunks('   ', 100)).toEqual([]);
+  });
+
+  it('splits at paragraphs first', () => {
+    const text = `${sentence(1)}\n\n${sentence(2)}`;
+    expect(splitIntoChunks(text, 70)).toEqual([sentence(1), sentence(2)]);
+  });
+
+  it('packs whole sentences up to the limit', () => {
+    const text = Array.from({ length: 6 }, (_, index) => sentence(index)).join(' ');
+    const chunks = splitIntoChunks(text, 130);
+    expect(chunks).toHaveLength(3);
+    chunks.forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(130);
+      expect(chunk).toMatch(/hearts\.$/);
+    });
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('splits between words only when one sentence is over the limit', () => {
+    const long = Array.from({ length: 30 }, (_, index) => `word${index}`).join(' ');
+    const chunks = splitIntoChunks(long, 50);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(50));
+    expect(chunks.join(' ')).toBe(long);
+  });
+
+  it('never goes below a 50 character limit', () => {
+    const text = 'Octopuses have three hearts. And blue blood.';
+    expect(splitIntoChunks(text, 10)).toEqual([text]);
+  });
+});
+
+describe('withRetries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries other failures with growing delays', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('no audio'))
+      .mockRejectedValueOnce(new Error('no audio'))
+      .mockResolvedValue('audio');
+    const onRetry = vi.fn();
+    const result = withRetries(task, 2, undefined, onRetry);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('audio');
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up with the last error after the retries', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('no audio'));
+    const result = withRetries(task, 1);
+    const settled = expect(result).rejects.toThrow('no audio');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves API errors and cancellation to the caller', async () => {
+    const apiError = new ApiRequestError('rate-limit', 'Rate limit reached.');
+    const apiTask = vi.fn().mockRejectedValue(apiError);
+    await expect(withRetries(apiTask, 3)).rejects.toBe(apiError);
+    expect(apiTask).toHaveBeenCalledTimes(1);
+
+    const abortTask = vi.fn().mockRejectedValue(createAbortError());
+    await expect(withRetries(abortTask, 3)).rejects.toThrow('cancelled');
+    expect(abortTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new Error('no audio'));
+    const result = withRetries(task, 3, controller.signal);
+    const settled = expect(result).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps the order and the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return index * 10;
+    });
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(peak).toBe(2);
+  });
+
+  it('starts nothing new after a failure', async () => {
+    const started: number[] = [];
+    const run = mapWithConcurrency([0, 1, 2, 3], 1, async (item) => {
+      started.push(item);
+      if (item === 1) throw new Error('part 2 failed');
+      return item;
+    });
+    await expect(run).rejects.toThrow('part 2 failed');
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,139 @@
+import { ApiRequestError, abortableDelay, isAbortError } from './requestScheduler';
+
+export interface ChunkingOptions {
+  /** Upper bound on characters sent to the TTS model per request */
+  maxChars: number;
+  /** Chunks synthesized at the same time */
+  concurrency: number;
+  /** Extra attempts per chunk after the first failure */
+  maxRetries: number;
+  /** Silence inserted between consecutive chunks */
+  pauseSeconds: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  maxChars: 1200,
+  concurrency: 2,
+  maxRetries: 2,
+  pauseSeconds: 0.25,
+};
+
+const CHUNKING_STORAGE_KEY = 'NARRATION_CHUNKING';
+const RETRY_BASE_DELAY_MS = 1000;
+
+export const loadChunkingOptions = (): ChunkingOptions => {
+  try {
+    const saved = localStorage.getItem(CHUNKING_STORAGE_KEY);
+    return saved ? { ...DEFAULT_CHUNKING, ...JSON.parse(saved) } : DEFAULT_CHUNKING;
+  } catch {
+    return DEFAULT_CHUNKING;
+  }
+};
+
+export const saveChunkingOptions = (options: ChunkingOptions) => {
+  localStorage.setItem(CHUNKING_STORAGE_KEY, JSON.stringify(options));
+};
+
+/**
+ * Packs `pieces` greedily into chunks of at most `maxChars`, joined by `separator`
+ */
+const pack = (pieces: string[], maxChars: number, separator: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && candidate.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [text]).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Splits narration into chunks of at most `maxChars`, preferring paragraph
+ * boundaries, then sentence boundaries, and only splitting between words
+ * when a single sentence is longer than the limit.
+ */
+export const splitIntoChunks = (text: string, maxChars: number): string[] => {
+  const limit = Math.max(50, maxChars);
+  const trimmed = text.trim();
+  if (trimmed.length <= limit) return trimmed ? [trimmed] : [];
+
+  const chunks: string[] = [];
+  const paragraphs = trimmed.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= limit) {
+      chunks.push(paragraph);
+      continue;
+    }
+    const sentences = splitSentences(paragraph).flatMap(sentence =>
+      sentence.length <= limit ? [sentence] : pack(sentence.split(' '), limit, ' ')
+    );
+    chunks.push(...pack(sentences, limit, ' '));
+  }
+  return chunks;
+};
+
+/**
+ * Runs `task` with exponential backoff between attempts, for failures the
+ * request scheduler doesn't handle (e.g. a response without audio). API
+ * errors already went through the scheduler's retries and fail at once, as
+ * does cancellation.
+ */
+export const withRetries = async <T>(
+  task: () => Promise<T>,
+  maxRetries: number,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, error: unknown) => void
+): Promise<T> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (isAbortError(error) || error instanceof ApiRequestError) throw error;
+      lastError = error;
+      if (attempt < maxRetries) {
+        onRetry?.(attempt + 1, error);
+        await abortableDelay(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+      }
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Maps over `items` with at most `limit` tasks in flight, preserving order
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    // Once any task fails the batch is lost, so stop picking up new work
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+};
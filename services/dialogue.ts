@@ -0,0 +1,68 @@
+import { Scene } from '../types';
+import { VOICES } from './project';
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// "Host: Did you know..." — a short label followed by a colon at line start
+const SPEAKER_LINE = /^\s*([\p{L}][\p{L}\p{N} .'-]{0,23}?)\s*:\s*(.*)$/u;
+
+type DialogueScene = Pick<Scene, 'narrationText' | 'dialogue' | 'speakerVoices'>;
+
+/**
+ * Parses `Speaker: line` scripts. Lines without a label continue the previous
+ * speaker's turn. Returns null when the text isn't a dialogue (no labels at
+ * the start, or only one speaker). Labelled narration such as "Fact 1: ..."
+ * parses too, so only call this for scenes marked as dialogue.
+ */
+export const parseDialogue = (text: string): DialogueLine[] | null => {
+  const lines: DialogueLine[] = [];
+  for (const rawLine of text.split('\n')) {
+    if (!rawLine.trim()) continue;
+    const match = rawLine.match(SPEAKER_LINE);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length) {
+      const previous = lines[lines.length - 1];
+      previous.text = `${previous.text} ${rawLine.trim()}`.trim();
+    } else {
+      return null;
+    }
+  }
+
+  const withText = lines.filter(line => line.text);
+  if (getSpeakers(withText).length < 2) return null;
+  return withText;
+};
+
+export const getSpeakers = (lines: DialogueLine[]): string[] =>
+  Array.from(new Set(lines.map(line => line.speaker)));
+
+/**
+ * The scene's lines when it is marked as a dialogue and reads as one
+ */
+export const parseSceneDialogue = (scene: DialogueScene): DialogueLine[] | null =>
+  scene.dialogue ? parseDialogue(scene.narrationText) : null;
+
+/**
+ * The spoken words only, without speaker labels (for captions and estimates)
+ */
+export const dialogueToPlainText = (scene: DialogueScene): string => {
+  const lines = parseSceneDialogue(scene);
+  return lines ? lines.map(line => line.text).join(' ') : scene.narrationText;
+};
+
+/**
+ * Voice per speaker: explicit assignments win, the first speaker defaults to
+ * the scene's voice and the others to distinct voices from the picker.
+ */
+export const resolveSpeakerVoices = (speakers: string[], scene: Pick<Scene, 'voice' | 'speakerVoices'>): Record<string, string> => {
+  const fallbacks = [scene.voice, ...VOICES.filter(voice => voice !== scene.voice)];
+  const voices: Record<string, string> = {};
+  speakers.forEach((speaker, index) => {
+    voices[speaker] = scene.speakerVoices?.[speaker] ?? fallbacks[index % fallbacks.length];
+  });
+  return voices;
+};
@@ -0,0 +1,19 @@
+/**
+ * Triggers a browser download for content that isn't already behind a URL
+ * (generated text files, zips, etc.)
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+};
@@ -0,0 +1,267 @@
+import { AudioMetadata } from '../types';
+import { buildVorbisComment, concatBytes } from './audioTags';
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+
+// Frame header codes for common rates; anything else falls back to STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+/**
+ * MSB-first bit packer. Writes at most 24 bits per call so the pending bits
+ * always fit in a 32-bit integer.
+ */
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  private cache = 0;
+  private cacheBits = 0;
+
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 2 ** 24), bits - 24);
+      this.write(value % 2 ** 24, 24);
+      return;
+    }
+    if (bits === 0) return;
+    this.cache = (this.cache << bits) | (value & ((1 << bits) - 1));
+    this.cacheBits += bits;
+    while (this.cacheBits >= 8) {
+      this.cacheBits -= 8;
+      this.pushByte((this.cache >>> this.cacheBits) & 0xff);
+    }
+    this.cache &= (1 << this.cacheBits) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  /** `count` zeros followed by a one */
+  writeUnary(count: number) {
+    while (count >= 24) {
+      this.write(0, 24);
+      count -= 24;
+    }
+    this.write(1, count + 1);
+  }
+
+  alignToByte() {
+    if (this.cacheBits > 0) this.write(0, 8 - this.cacheBits);
+  }
+
+  /** Completed bytes so far; call on a byte boundary */
+  bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+}
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+};
+
+/**
+ * Frame numbers use the UTF-8 style variable-length code
+ */
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation++;
+  const lead = (0xff << (7 - continuation)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Residual of the fixed polynomial predictor of `order` (0-4)
+ */
+const fixedResidual = (samples: Int32Array, order: number): Float64Array => {
+  const residual = new Float64Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const x = samples;
+    residual[i - order] =
+      order === 0 ? x[i] :
+      order === 1 ? x[i] - x[i - 1] :
+      order === 2 ? x[i] - 2 * x[i - 1] + x[i - 2] :
+      order === 3 ? x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3] :
+      x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+  }
+  return residual;
+};
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Picks the partition order and per-partition Rice parameters with the
+ * smallest estimated size
+ */
+const planRice = (residual: Float64Array, blockSize: number, predictorOrder: number, parameterBits: number): RicePlan => {
+  const maxParameter = (1 << parameterBits) - 2; // all ones is the escape code
+  let best: RicePlan | null = null;
+
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const partitionSize = blockSize >> order;
+    if (blockSize % (1 << order) !== 0 || partitionSize <= predictorOrder) break;
+    const parameters: number[] = [];
+    let bits = 0;
+    let start = 0;
+    for (let partition = 0; partition < 1 << order; partition++) {
+      const count = partition === 0 ? partitionSize - predictorOrder : partitionSize;
+      let sum = 0;
+      for (let i = start; i < start + count; i++) sum += zigzag(residual[i]);
+      const mean = count > 0 ? sum / count : 0;
+      const parameter = Math.min(maxParameter, mean > 1 ? Math.floor(Math.log2(mean)) : 0);
+      parameters.push(parameter);
+      bits += parameterBits + count * (parameter + 1) + sum / 2 ** parameter;
+      start += count;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: order, parameters, bits };
+  }
+  return best!;
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitDepth: number) => {
+  if (samples.every(sample => sample === samples[0])) {
+    writer.write(0, 8); // padding bit, CONSTANT, no wasted bits
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  const parameterBits = bitDepth > 16 ? 5 : 4;
+  let best: { order: number; residual: Float64Array; plan: RicePlan } | null = null;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const plan = planRice(residual, samples.length, order, parameterBits);
+    const bits = plan.bits + order * bitDepth;
+    if (!best || bits < best.plan.bits + best.order * bitDepth) best = { order, residual, plan };
+  }
+
+  if (!best || best.plan.bits + best.order * bitDepth >= samples.length * bitDepth) {
+    writer.write(0b00000010, 8); // VERBATIM
+    for (const sample of samples) writer.writeSigned(sample, bitDepth);
+    return;
+  }
+
+  const { order, residual, plan } = best;
+  writer.write((0b001000 | order) << 1, 8); // FIXED with this order
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitDepth);
+  writer.write(parameterBits === 5 ? 1 : 0, 2);
+  writer.write(plan.partitionOrder, 4);
+  let index = 0;
+  plan.parameters.forEach((parameter, partition) => {
+    const count = (samples.length >> plan.partitionOrder) - (partition === 0 ? order : 0);
+    writer.write(parameter, parameterBits);
+    for (let i = 0; i < count; i++) {
+      const value = zigzag(residual[index++]);
+      const quotient = Math.floor(value / 2 ** parameter);
+      writer.writeUnary(quotient);
+      writer.write(value - quotient * 2 ** parameter, parameter);
+    }
+  });
+};
+
+const toIntegerSamples = (data: Float32Array, bitDepth: number): Int32Array => {
+  const max = 2 ** (bitDepth - 1);
+  const samples = new Int32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    samples[i] = Math.round(sample < 0 ? sample * max : sample * (max - 1));
+  }
+  return samples;
+};
+
+const metadataBlock = (type: number, body: Uint8Array, isLast: boolean): Uint8Array => {
+  const header = new Uint8Array([(isLast ? 0x80 : 0) | type, (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff]);
+  return concatBytes([header, body]);
+};
+
+const streamInfo = (sampleRate: number, channels: number, bitDepth: number, totalSamples: number): Uint8Array => {
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  const writer = new BitWriter();
+  writer.write(blockSize, 16); // min block size
+  writer.write(blockSize, 16); // max block size
+  writer.write(0, 24); // min frame size, unknown
+  writer.write(0, 24); // max frame size, unknown
+  writer.write(sampleRate, 20);
+  writer.write(channels - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(totalSamples, 36);
+  for (let i = 0; i < 16; i++) writer.write(0, 8); // MD5 not computed
+  return writer.bytes().slice();
+};
+
+/**
+ * Lossless FLAC: fixed-predictor subframes with partitioned Rice coding,
+ * independent channels, and tags in a Vorbis comment block
+ */
+export const encodeFlac = (buffer: AudioBuffer, bitDepth: FlacBitDepth, metadata: AudioMetadata): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => toIntegerSamples(buffer.getChannelData(channel), bitDepth));
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('fLaC'),
+    metadataBlock(0, streamInfo(buffer.sampleRate, channels.length, bitDepth, buffer.length), false),
+    metadataBlock(4, buildVorbisComment(metadata), true),
+  ];
+
+  for (let frame = 0, start = 0; start < buffer.length; frame++, start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, buffer.length - start);
+    const writer = new BitWriter();
+    writer.write(0xfff8, 16); // sync code, fixed block size
+    writer.write(0b0111, 4); // block size stored as 16 bits below
+    writer.write(SAMPLE_RATE_CODES[buffer.sampleRate] ?? 0b0000, 4);
+    writer.write(channels.length - 1, 4); // independent channels
+    writer.write(bitDepth === 24 ? 0b110 : 0b100, 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frame);
+    writer.write(blockSize - 1, 16);
+    writer.write(crc8(writer.bytes()), 8);
+
+    for (const samples of channels) {
+      writeSubframe(writer, samples.subarray(start, start + blockSize), bitDepth);
+    }
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes()), 16);
+    parts.push(writer.bytes().slice());
+  }
+
+  return new Blob(parts, { type: 'audio/flac' });
+};
@@ -0,0 +1,140 @@
+import { AspectRatio } from '../types';
+import { loadImage } from './videoRenderer';
+
+export interface OutputFormat {
+  aspectRatio: AspectRatio;
+  label: string;
+  platforms: string;
+  width: number;
+  height: number;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  { aspectRatio: '16:9', label: 'Landscape', platforms: 'YouTube', width: 1920, height: 1080 },
+  { aspectRatio: '9:16', label: 'Vertical', platforms: 'Shorts, Reels, TikTok', width: 1080, height: 1920 },
+  { aspectRatio: '1:1', label: 'Square', platforms: 'Instagram, X', width: 1080, height: 1080 },
+  { aspectRatio: '4:5', label: 'Portrait', platforms: 'Instagram feed', width: 1080, height: 1350 },
+];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '16:9';
+
+export const getOutputFormat = (aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO): OutputFormat =>
+  OUTPUT_FORMATS.find(format => format.aspectRatio === aspectRatio) ?? OUTPUT_FORMATS[0];
+
+const SALIENCY_SIZE = 160; // long edge of the downscaled copy used to score crops
+const CENTER_BIAS = 0.15; // nudges ties towards the middle of the frame
+
+/**
+ * Per-pixel "interest" of a downscaled image: gradient magnitude (edges and
+ * texture) plus saturation, which together track where the subject is well
+ * enough for reframing without a vision model.
+ */
+const computeSaliency = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const luma = new Float32Array(width * height);
+  const saliency = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    saliency[i] = (Math.max(r, g, b) - Math.min(r, g, b)) * 0.25;
+  }
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = luma[i + 1] - luma[i - 1];
+      const gy = luma[i + width] - luma[i - width];
+      saliency[i] += Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return saliency;
+};
+
+/**
+ * Finds the crop window of `aspectRatio` with the most salient content. The
+ * window always spans the full height (or width) of the source, so only one
+ * axis slides, which keeps the search to a single pass over column sums.
+ */
+const findBestCrop = (
+  saliency: Float32Array,
+  width: number,
+  height: number,
+  targetRatio: number
+): { x: number; y: number; width: number; height: number } => {
+  const horizontal = width / height > targetRatio;
+  const span = horizontal ? width : height;
+  const windowSize = horizontal ? Math.round(height * targetRatio) : Math.round(width / targetRatio);
+
+  const sums = new Float32Array(span);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      sums[horizontal ? x : y] += saliency[y * width + x];
+    }
+  }
+
+  let total = 0;
+  for (let i = 0; i < windowSize; i++) total += sums[i];
+  const average = total / Math.max(1, windowSize);
+
+  let best = 0;
+  let bestScore = -Infinity;
+  let window = total;
+  const slack = span - windowSize;
+  for (let start = 0; start <= slack; start++) {
+    if (start > 0) window += sums[start + windowSize - 1] - sums[start - 1];
+    const offCenter = slack > 0 ? Math.abs(start / slack - 0.5) * 2 : 0;
+    const score = window - offCenter * CENTER_BIAS * average * windowSize;
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+
+  return horizontal
+    ? { x: best, y: 0, width: windowSize, height }
+    : { x: 0, y: best, width, height: windowSize };
+};
+
+/**
+ * Smart-crops an existing image to another aspect ratio (e.g. a 16:9 still to
+ * 9:16 for Shorts) without regenerating it, returning a PNG data URL at the
+ * format's output resolution
+ */
+export const reframeImage = async (imageUrl: string, aspectRatio: AspectRatio): Promise<string> => {
+  const format = getOutputFormat(aspectRatio);
+  const image = await loadImage(imageUrl);
+
+  const scale = SALIENCY_SIZE / Math.max(image.width, image.height);
+  const smallWidth = Math.max(2, Math.round(image.width * scale));
+  const smallHeight = Math.max(2, Math.round(image.height * scale));
+  const probe = document.createElement('canvas');
+  probe.width = smallWidth;
+  probe.height = smallHeight;
+  const probeCtx = probe.getContext('2d', { willReadFrequently: true });
+  if (!probeCtx) {
+    throw new Error('Could not create a canvas for reframing.');
+  }
+  probeCtx.drawImage(image, 0, 0, smallWidth, smallHeight);
+  const { data } = probeCtx.getImageData(0, 0, smallWidth, smallHeight);
+
+  const crop = findBestCrop(computeSaliency(data, smallWidth, smallHeight), smallWidth, smallHeight, format.width / format.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = format.width;
+  canvas.height = format.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas for reframing.');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    image,
+    crop.x / scale,
+    crop.y / scale,
+    crop.width / scale,
+    crop.height / scale,
+    0,
+    0,
+    format.width,
+    format.height
+  );
+  return canvas.toDataURL('image/png');
+};
@@ -1,110 +1,49 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-
-// Helpers for Audio Decoding
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferArray = new ArrayBuffer(length);
-  const view = new DataView(bufferArray);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
-
-  // write WAVE header
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
-
-  setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this example)
-
-  setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
-
-  // write interleaved data
-  for (i = 0; i < buffer.numberOfChannels; i++)
-    channels.push(buffer.getChannelData(i));
-
-  while (pos < buffer.length) {
-    for (i = 0; i < numOfChan; i++) {
-      // interleave channels
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true); // write 16-bit sample
-      offset += 2;
-    }
-    pos++;
-  }
-
-  return new Blob([bufferArray], { type: "audio/wav" });
+import { GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import {
+  GeneratedMetadata,
+  GeneratedScript,
+  ImageEditRequest,
+  ImageProvider,
+  ImageRequest,
+  MetadataRequest,
+  ScriptProvider,
+  ScriptRequest,
+  ScriptSegment,
+  TtsProvider,
+  TtsRequest
+} from "../types";
+import { decode, decodeAudioData } from "./audioUtils";
+import { estimateWordBudget } from "./scriptWriter";
+import { classifyError, scheduleRequest } from "./requestScheduler";
 
-  function setUint16(data: number) {
-    view.setUint16(pos, data, true);
-    pos += 2;
-  }
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+const TEXT_MODEL = "gemini-2.5-flash";
+const TTS_SAMPLE_RATE = 24000;
 
-  function setUint32(data: number) {
-    view.setUint32(pos, data, true);
-    pos += 4;
-  }
-}
+// Requests per minute per model, at the free tier's limits so parallel
+// chunks and batch rows queue up instead of hitting 429s
+const MODEL_RPM_LIMITS: Record<string, number> = {
+  [TTS_MODEL]: 10,
+  [IMAGE_MODEL]: 10,
+  [TEXT_MODEL]: 15,
+};
 
 /**
- * Generates Narration Audio using Gemini TTS
+ * Generates Narration Audio using Gemini TTS, at the voice's natural pace.
+ * Speaking rate is applied afterwards by time-stretching, which is exact.
  */
-export const generateNarration = async (text: string, apiKey: string, speakingRate: number = 1.0, voiceName: string = 'Kore'): Promise<string> => {
+const synthesizeSpeech = async ({ text, apiKey, voiceName = 'Kore', styleNote, signal, onRetry }: TtsRequest): Promise<AudioBuffer> => {
   // Always create new instance to get fresh key
   const ai = new GoogleGenAI({ apiKey });
+  // The model reads a leading "Say ...:" as direction rather than speaking it
+  const prompt = styleNote ? `${styleNote}: ${text}` : text;
 
-  // Use natural language "Director's Notes" for speed as the JSON parameter is not yet supported in AI Studio SDK
-  let promptText = text;
-  if (speakingRate < 0.9) {
-    promptText = `(Speak slowly and calmly) ${text}`;
-  } else if (speakingRate > 1.1) {
-    promptText = `(Speak faster and with more energy) ${text}`;
-  }
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: promptText }] }],
+  const response = await scheduleRequest(TTS_MODEL, (abortSignal) => ai.models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: prompt }] }],
     config: {
+      abortSignal,
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
@@ -114,7 +53,7 @@ export const generateNarration = async (text: string, apiKey: string, speakingRa
         },
       },
     },
-  });
+  }), { rpm: MODEL_RPM_LIMITS[TTS_MODEL], signal, onRetry });
 
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
@@ -122,39 +61,20 @@ export const generateNarration = async (text: string, apiKey: string, speakingRa
     throw new Error("No audio data returned from API");
   }
 
-  // Decode to verify and convert to Blob URL
-  const audioContext = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
-  const audioBuffer = await decodeAudioData(
+  // Raw 16-bit PCM; an offline context is enough to build the AudioBuffer
+  const audioContext = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+  return decodeAudioData(
     decode(base64Audio),
     audioContext,
-    24000,
+    TTS_SAMPLE_RATE,
     1
   );
-
-  const wavBlob = audioBufferToWav(audioBuffer);
-  return URL.createObjectURL(wavBlob);
 };
 
 /**
- * Generates Static Image using Gemini 2.5 Flash
- * Updated to 16:9 for YouTube
+ * Pulls the first inline image out of a response as a data URL
  */
-export const generateImage = async (prompt: string, apiKey: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey });
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        { text: prompt },
-      ],
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: "16:9", // Horizontal for YouTube
-      },
-    },
-  });
-
+const extractImage = (response: GenerateContentResponse): string => {
   let imageUrl = '';
   if (response.candidates?.[0]?.content?.parts) {
     for (const part of response.candidates[0].content.parts) {
@@ -170,4 +90,232 @@ export const generateImage = async (prompt: string, apiKey: string): Promise<str
     throw new Error("No image generated.");
   }
   return imageUrl;
-}
\ No newline at end of file
+};
+
+/**
+ * Reads a data or blob URL into the base64 inline data the API expects
+ */
+const toInlineData = async (url: string): Promise<{ mimeType: string; data: string }> => {
+  const blob = await (await fetch(url)).blob();
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { mimeType: blob.type || 'image/png', data: btoa(binary) };
+};
+
+/**
+ * Generates Static Image using Gemini 2.5 Flash in the project's output format
+ */
+const generateImage = async ({ prompt, aspectRatio, apiKey, seed, referenceImages = [], negativePrompt, signal, onRetry }: ImageRequest): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const instructions = [
+    prompt,
+    referenceImages.length > 0 ? 'Match the style, color palette and any recurring characters of the attached reference images, but compose a new scene.' : '',
+    negativePrompt ? `Avoid: ${negativePrompt}.` : '',
+  ].filter(Boolean).join('\n\n');
+  const references = await Promise.all(referenceImages.map(async (url) => ({ inlineData: await toInlineData(url) })));
+
+  const response = await scheduleRequest(IMAGE_MODEL, (abortSignal) => ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        ...references,
+        { text: instructions },
+      ],
+    },
+    config: {
+      abortSignal,
+      seed,
+      imageConfig: {
+        aspectRatio,
+      },
+    },
+  }), { rpm: MODEL_RPM_LIMITS[IMAGE_MODEL], signal, onRetry });
+  return extractImage(response);
+};
+
+/**
+ * Instruction-based edit: sends the current image back to the model together
+ * with the instruction, so composition and subject are preserved
+ */
+const editImage = async ({ imageUrl, instruction, aspectRatio, apiKey, signal, onRetry }: ImageEditRequest): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const inlineData = await toInlineData(imageUrl);
+  const response = await scheduleRequest(IMAGE_MODEL, (abortSignal) => ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        { inlineData },
+        { text: `Edit this image: ${instruction}. Keep everything else, including the framing, unchanged.` },
+      ],
+    },
+    config: {
+      abortSignal,
+      imageConfig: {
+        aspectRatio,
+      },
+    },
+  }), { rpm: MODEL_RPM_LIMITS[IMAGE_MODEL], signal, onRetry });
+  return extractImage(response);
+};
+
+const SCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['hook', 'fact', 'outro'] },
+          narration: { type: Type.STRING },
+          visualPrompt: { type: Type.STRING },
+        },
+        required: ['kind', 'narration', 'visualPrompt'],
+      },
+    },
+  },
+  required: ['title', 'segments'],
+};
+
+/**
+ * Writes a fact video script (hook, facts, outro/CTA) with a matching
+ * cinematic image prompt per segment, using Gemini's JSON mode
+ */
+const writeScript = async ({ topic, tone, audience, targetSeconds, factCount, speakingRate, apiKey, signal, onRetry }: ScriptRequest): Promise<GeneratedScript> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const wordBudget = estimateWordBudget(targetSeconds, speakingRate);
+
+  const prompt = [
+    `Write a narration script for a short YouTube fact video about: ${topic}.`,
+    `Tone: ${tone}. Audience: ${audience || 'general viewers'}.`,
+    `Structure: one attention-grabbing hook, exactly ${factCount} fact segments, and one short outro with a call to action (like and subscribe).`,
+    `The whole narration must be about ${wordBudget} words in total (roughly ${targetSeconds} seconds when read aloud). Write narration as plain spoken text, no stage directions or emojis.`,
+    `For each segment also write a cinematic, photorealistic image prompt describing a single striking visual for that segment. Do not ask for any text in the image.`,
+    `Also give the video a catchy title.`,
+  ].join('\n');
+
+  const response = await scheduleRequest(TEXT_MODEL, (abortSignal) => ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      abortSignal,
+      responseMimeType: 'application/json',
+      responseSchema: SCRIPT_SCHEMA,
+    },
+  }), { rpm: MODEL_RPM_LIMITS[TEXT_MODEL], signal, onRetry });
+
+  const raw = response.text;
+  if (!raw) {
+    throw new Error("No script returned from API");
+  }
+
+  let parsed: { title?: string; segments?: ScriptSegment[] };
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("The script response was not valid JSON.");
+  }
+
+  const segments = (parsed.segments ?? []).filter(segment => segment.narration?.trim());
+  if (segments.length === 0) {
+    throw new Error("The generated script was empty.");
+  }
+  return { title: parsed.title?.trim() || topic, segments };
+};
+
+const METADATA_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    titles: { type: Type.ARRAY, items: { type: Type.STRING } },
+    description: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    thumbnailText: { type: Type.STRING },
+    chapterTitles: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['titles', 'description', 'tags', 'hashtags', 'thumbnailText', 'chapterTitles'],
+};
+
+/**
+ * Writes YouTube upload copy from the finished scenes' narration and visual
+ * prompts. Chapter timestamps are added locally from the audio durations.
+ */
+const writeMetadata = async ({ title, scenes, apiKey, signal, onRetry }: MetadataRequest): Promise<GeneratedMetadata> => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const prompt = [
+    `Prepare the YouTube upload metadata for a short fact video${title ? ` titled "${title}"` : ''}.`,
+    `The video has ${scenes.length} scene${scenes.length === 1 ? '' : 's'}:`,
+    ...scenes.map((scene, index) => `${index + 1}. Narration: ${scene.narration}\n   Visual: ${scene.visualPrompt}`),
+    `Write 5 alternative, click-worthy but accurate titles of at most 70 characters each.`,
+    `Write an SEO-friendly description of 2 short paragraphs that puts the main keywords in the first sentence. Do not include timestamps, hashtags or links.`,
+    `Give 15 to 20 search tags (lower case, no # sign), 3 to 5 hashtags, and a thumbnail headline of at most 5 words.`,
+    `Give exactly ${scenes.length} chapter titles of at most 5 words each, one per scene in order.`,
+  ].join('\n');
+
+  const response = await scheduleRequest(TEXT_MODEL, (abortSignal) => ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      abortSignal,
+      responseMimeType: 'application/json',
+      responseSchema: METADATA_SCHEMA,
+    },
+  }), { rpm: MODEL_RPM_LIMITS[TEXT_MODEL], signal, onRetry });
+
+  const raw = response.text;
+  if (!raw) {
+    throw new Error("No metadata returned from API");
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error("The metadata response was not valid JSON.");
+  }
+};
+
+/**
+ * Checks that a key works with a model metadata lookup, which is free,
+ * instead of a billed generation. Throws an ApiRequestError explaining why not.
+ */
+export const validateGeminiKey = async (apiKey: string, signal?: AbortSignal): Promise<void> => {
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    await ai.models.get({ model: TEXT_MODEL, config: { abortSignal: signal } });
+  } catch (error) {
+    throw classifyError(error, TEXT_MODEL);
+  }
+};
+
+export const geminiTtsProvider: TtsProvider = {
+  id: 'gemini',
+  label: 'Gemini TTS',
+  description: `Google ${TTS_MODEL}, 24 kHz speech`,
+  model: TTS_MODEL,
+  requiresApiKey: true,
+  synthesize: synthesizeSpeech,
+};
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini Flash Image',
+  description: `Google ${IMAGE_MODEL}`,
+  model: IMAGE_MODEL,
+  requiresApiKey: true,
+  generate: generateImage,
+  edit: editImage,
+};
+
+export const geminiScriptProvider: ScriptProvider = {
+  id: 'gemini',
+  label: 'Gemini Flash',
+  description: `Google ${TEXT_MODEL}`,
+  requiresApiKey: true,
+  writeScript,
+  writeMetadata,
+};
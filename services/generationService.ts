@@ -0,0 +1,295 @@
+import {
+  AspectRatio,
+  CaptionCue,
+  GeneratedContent,
+  GeneratedMetadata,
+  GeneratedScript,
+  GenerationMode,
+  ImageEditRequest,
+  ImageRequest,
+  MetadataRequest,
+  Scene,
+  ScriptRequest,
+  StylePreset,
+  TtsProvider,
+  TtsRequest,
+} from '../types';
+import { audioBufferToWav, concatAudioBuffers, createSilence } from './audioUtils';
+import { ChunkingOptions, DEFAULT_CHUNKING, mapWithConcurrency, splitIntoChunks, withRetries } from './chunker';
+import { dialogueToPlainText, getSpeakers, parseDialogue, parseSceneDialogue, resolveSpeakerVoices } from './dialogue';
+import { generateCaptions } from './captions';
+import { PronunciationEntry, applyLexicon, directorNote, parseMarkup, stripMarkup } from './narrationMarkup';
+import { applyStylePreset } from './stylePresets';
+import { ApiRequestError, isAbortError } from './requestScheduler';
+import { processVoice } from './timeStretch';
+import { normalizeMetadata } from './publishing';
+import { getImageProvider, getScriptProvider, getTtsProvider } from './providers';
+import { trackUsage } from './usageTracker';
+
+// Breathing room between speakers in an assembled dialogue
+const DIALOGUE_TURN_GAP_SECONDS = 0.3;
+
+export interface NarrationOptions {
+  chunking?: ChunkingOptions;
+  /** Respellings applied to the text before it is sent */
+  lexicon?: PronunciationEntry[];
+  onChunkProgress?: (completed: number, total: number) => void;
+}
+
+export interface SceneAssetOptions extends NarrationOptions {
+  ttsProviderId: string;
+  imageProviderId: string;
+  apiKey: string;
+  aspectRatio: AspectRatio;
+  stylePreset?: StylePreset;
+  /** Cancels the scene's in-flight and queued requests */
+  signal?: AbortSignal;
+  /** Called whenever a request of this asset is retried after a failure */
+  onRetry?: (attempt: number) => void;
+}
+
+export interface SceneGenerationOptions extends SceneAssetOptions {
+  mode: GenerationMode;
+}
+
+export interface SceneNarration {
+  audioUrl: string;
+  audioDuration?: number;
+  captions?: CaptionCue[];
+}
+
+// Image models sometimes answer with text only; one more attempt usually fixes it.
+// API errors are retried by the request scheduler instead.
+const IMAGE_MAX_RETRIES = 1;
+
+/**
+ * One TTS request plus the silence that follows it in the final timeline
+ */
+interface SynthesisUnit {
+  text: string;
+  voiceName: string;
+  styleNote?: string;
+  pauseAfter: number;
+}
+
+/**
+ * Plain narration is split into chunks under the size limit. Dialogue scripts
+ * (requests that carry speaker voices) become one unit per line (chunked further if a line is long) with each
+ * speaker's voice, laid out in script order. Markup splits lines further:
+ * styled sentences get their own director's note, and `[pause]` tags become
+ * exactly that much silence.
+ */
+const planUnits = (request: TtsRequest, chunking: ChunkingOptions, lexicon: PronunciationEntry[]): SynthesisUnit[] => {
+  const lines = (request.speakerVoices && parseDialogue(request.text)) || [{ speaker: '', text: request.text }];
+  return lines.flatMap((line, lineIndex) => {
+    const voiceName = (line.speaker && request.speakerVoices?.[line.speaker]) || request.voiceName;
+    const segments = parseMarkup(line.text);
+    return segments.flatMap((segment, segmentIndex) => {
+      const styleNote = directorNote({ ...segment, emphasis: segment.emphasis.map(words => applyLexicon(words, lexicon)) }, request.direction);
+      const chunks = splitIntoChunks(applyLexicon(segment.text, lexicon), chunking.maxChars);
+      return chunks.map((text, chunkIndex) => {
+        const lastOfSegment = chunkIndex === chunks.length - 1;
+        const lastOfLine = lastOfSegment && segmentIndex === segments.length - 1;
+        const lastOverall = lastOfLine && lineIndex === lines.length - 1;
+        const gap = lastOfSegment && segment.pauseAfter > 0
+          ? segment.pauseAfter
+          : lastOverall ? 0 : lastOfLine && line.speaker ? DIALOGUE_TURN_GAP_SECONDS : chunking.pauseSeconds;
+        // The whole take is time-stretched afterwards, so scale gaps to come out at their set length
+        return { text, voiceName, styleNote, pauseAfter: gap * request.speakingRate };
+      });
+    });
+  });
+};
+
+const synthesizeNarration = async (
+  request: TtsRequest,
+  provider: TtsProvider,
+  { chunking = DEFAULT_CHUNKING, lexicon = [], onChunkProgress }: NarrationOptions
+): Promise<AudioBuffer> => {
+  const units = planUnits(request, chunking, lexicon);
+  if (units.length === 0) {
+    throw new Error("Narration text is empty.");
+  }
+
+  let completed = 0;
+  onChunkProgress?.(0, units.length);
+  const buffers = await mapWithConcurrency(units, chunking.concurrency, async (unit, index) => {
+    try {
+      // Each chunk retries on its own, so one flaky request doesn't redo the rest
+      const buffer = await withRetries(
+        () => provider.synthesize({ ...request, text: unit.text, voiceName: unit.voiceName, styleNote: unit.styleNote }),
+        chunking.maxRetries,
+        request.signal,
+        request.onRetry
+      );
+      onChunkProgress?.(++completed, units.length);
+      return buffer;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      // API errors come straight from the scheduler, which counts its own retries
+      const attempts = error instanceof ApiRequestError ? '' : ` after ${chunking.maxRetries + 1} attempts`;
+      throw new Error(units.length > 1
+        ? `Narration part ${index + 1}/${units.length} failed${attempts}: ${reason}`
+        : reason);
+    }
+  });
+
+  if (buffers.length === 1 && units[0].pauseAfter === 0) return buffers[0];
+
+  const ctx = new OfflineAudioContext(1, 1, buffers[0].sampleRate);
+  const timeline = buffers.flatMap((buffer, index) =>
+    units[index].pauseAfter > 0 ? [buffer, createSilence(ctx, units[index].pauseAfter)] : [buffer]
+  );
+  return concatAudioBuffers(timeline, ctx);
+};
+
+/**
+ * Generates narration audio with the selected speech provider and returns
+ * a WAV blob URL. Markup is resolved and the pronunciation lexicon applied
+ * before any text is sent.
+ */
+export const generateNarration = async (
+  request: TtsRequest,
+  providerId: string,
+  options: NarrationOptions = {}
+): Promise<string> => {
+  const provider = getTtsProvider(providerId);
+  const narration = await trackUsage(
+    { kind: 'narration', providerId, model: provider.model, apiKey: request.apiKey, characters: request.text.length },
+    () => synthesizeNarration(request, provider, options),
+    (buffer) => ({ audioSeconds: buffer.duration })
+  );
+  const audioBuffer = processVoice(narration, {
+    speakingRate: request.speakingRate,
+    pitchSemitones: request.pitchSemitones,
+  });
+  const wavBlob = audioBufferToWav(audioBuffer);
+  return URL.createObjectURL(wavBlob);
+};
+
+/**
+ * Generates a still image with the selected image provider and returns a data URL
+ */
+export const generateImage = async (request: ImageRequest, providerId: string): Promise<string> => {
+  const provider = getImageProvider(providerId);
+  return trackUsage(
+    { kind: 'image', providerId, model: provider.model, apiKey: request.apiKey, images: 1 },
+    () => provider.generate(request)
+  );
+};
+
+/**
+ * Generates `count` alternatives for the same prompt in parallel, each with
+ * its own seed so they differ from each other. Returns the ones that
+ * succeeded (each is already paid for) and fails only if none did.
+ */
+export const generateImageVariations = async (request: ImageRequest, count: number, providerId: string): Promise<string[]> => {
+  const provider = getImageProvider(providerId);
+  const baseSeed = Math.floor(Math.random() * 1_000_000);
+  const settled = await Promise.allSettled(Array.from({ length: count }, (_, index) => trackUsage(
+    { kind: 'image', providerId, model: provider.model, apiKey: request.apiKey, images: 1 },
+    () => provider.generate({ ...request, seed: baseSeed + index })
+  )));
+  const images = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (images.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return images;
+};
+
+/**
+ * Sends an existing image back to the image provider with an edit instruction
+ */
+export const editImage = async (request: ImageEditRequest, providerId: string): Promise<string> => {
+  const provider = getImageProvider(providerId);
+  return trackUsage(
+    { kind: 'image', providerId, model: provider.model, apiKey: request.apiKey, characters: request.instruction.length, images: 1 },
+    () => provider.edit(request)
+  );
+};
+
+/**
+ * Writes a hook / facts / outro script with a visual prompt per segment
+ */
+export const generateScript = async (request: ScriptRequest, providerId: string): Promise<GeneratedScript> => {
+  const provider = getScriptProvider(providerId);
+  return provider.writeScript(request);
+};
+
+/**
+ * Upload metadata for the finished scenes, cleaned up to YouTube's limits
+ */
+export const generateMetadata = async (request: MetadataRequest, providerId: string): Promise<GeneratedMetadata> => {
+  const provider = getScriptProvider(providerId);
+  return normalizeMetadata(await provider.writeMetadata(request), request.scenes.length);
+};
+
+/**
+ * The scene's narration with captions timed to it
+ */
+export const generateSceneNarration = async (scene: Scene, options: SceneAssetOptions): Promise<SceneNarration> => {
+  const dialogue = parseSceneDialogue(scene);
+  const audioUrl = await generateNarration({
+    text: scene.narrationText,
+    apiKey: options.apiKey,
+    speakingRate: scene.speakingRate,
+    pitchSemitones: scene.pitchSemitones,
+    voiceName: scene.voice,
+    direction: scene.direction,
+    speakerVoices: dialogue ? resolveSpeakerVoices(getSpeakers(dialogue), scene) : undefined,
+    signal: options.signal,
+    onRetry: options.onRetry,
+  }, options.ttsProviderId, options);
+  const { captions, duration } = await generateCaptions(stripMarkup(dialogueToPlainText(scene)), audioUrl);
+  return { audioUrl, audioDuration: duration, captions };
+};
+
+/**
+ * The scene's image with its style preset applied
+ */
+export const generateSceneImage = async (scene: Scene, options: SceneAssetOptions): Promise<string> => {
+  const request = applyStylePreset(
+    { prompt: scene.visualPrompt, aspectRatio: options.aspectRatio, apiKey: options.apiKey, signal: options.signal, onRetry: options.onRetry },
+    options.stylePreset
+  );
+  return withRetries(() => generateImage(request, options.imageProviderId), IMAGE_MAX_RETRIES, options.signal, options.onRetry);
+};
+
+/**
+ * Assembles a scene's result from whichever of its assets were generated
+ */
+export const toGeneratedContent = (
+  scene: Scene,
+  mode: GenerationMode,
+  narration: SceneNarration | null,
+  imageUrl: string | null
+): GeneratedContent => ({
+  sceneId: scene.id,
+  audioUrl: narration?.audioUrl ?? null,
+  audioDuration: narration?.audioDuration,
+  captions: narration?.captions,
+  imageUrl,
+  narrationText: scene.narrationText,
+  visualPrompt: scene.visualPrompt,
+  voice: scene.voice,
+  speakingRate: scene.speakingRate,
+  mode,
+});
+
+/**
+ * Produces everything one scene needs for the selected mode, generating the
+ * narration and the image side by side. Shared by the editor and batch mode.
+ */
+export const generateSceneContent = async (scene: Scene, options: SceneGenerationOptions): Promise<GeneratedContent> => {
+  const { mode } = options;
+  const [narration, image] = await Promise.allSettled([
+    mode === 'both' || mode === 'narration' ? generateSceneNarration(scene, options) : null,
+    mode === 'both' || mode === 'image' ? generateSceneImage(scene, options) : null,
+  ]);
+  if (narration.status === 'rejected' || image.status === 'rejected') {
+    if (narration.status === 'fulfilled' && narration.value) URL.revokeObjectURL(narration.value.audioUrl);
+    throw narration.status === 'rejected' ? narration.reason : (image as PromiseRejectedResult).reason;
+  }
+  return toGeneratedContent(scene, mode, narration.value, image.value);
+};
@@ -0,0 +1,319 @@
+import { AspectRatio, AudioEditSettings, CaptionCue, GeneratedContent, GenerationMode, ImageVersion, OverlayLayer, Project } from '../types';
+import { createId } from './project';
+
+const DB_NAME = 'fact-video-creator';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+// Evict oldest entries once usage crosses the high-water mark, down to the low one
+const QUOTA_HIGH_WATER = 0.9;
+const QUOTA_LOW_WATER = 0.75;
+
+export interface StoredScene {
+  sceneId: string;
+  narrationText: string;
+  visualPrompt: string;
+  voice: string;
+  speakingRate: number;
+  pitchSemitones?: number;
+  dialogue: boolean;
+  speakerVoices?: Record<string, string>;
+  stylePresetId?: string;
+  direction?: string;
+  audioBlob: Blob | null;
+  imageBlob: Blob | null;
+  audioDuration?: number;
+  captions?: CaptionCue[];
+  /** Full-frame image a reframe was cropped from */
+  originalImageBlob?: Blob;
+  /** Edits and picked variations; the current one is also `imageBlob` */
+  imageVersions?: { versions: (Omit<ImageVersion, 'imageUrl'> & { imageBlob: Blob })[]; currentId: string };
+  /** The take as generated, when `audioBlob` is an edit of it */
+  originalAudio?: { audioBlob: Blob; duration?: number; captions?: CaptionCue[] };
+  audioEdit?: AudioEditSettings;
+}
+
+export interface HistoryEntry {
+  id: string;
+  projectId: string;
+  title: string;
+  mode: GenerationMode;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+  updatedAt: number;
+  scenes: StoredScene[];
+  /** Text and image layers drawn over the video, bottom to top */
+  overlays?: OverlayLayer[];
+  sizeBytes: number;
+  /** Lower-cased narration of every scene, for search */
+  searchText: string;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await requestToPromise(run(transaction.objectStore(STORE_NAME)));
+  await completed;
+  return result;
+};
+
+const urlToBlob = async (url?: string | null): Promise<Blob | null> => {
+  if (!url) return null;
+  const response = await fetch(url);
+  return response.blob();
+};
+
+/**
+ * urlToBlob that fetches each URL once, so an image that is both current and
+ * a version is the same Blob (stored once) in the entry
+ */
+const createBlobReader = () => {
+  const blobs = new Map<string, Promise<Blob | null>>();
+  return (url?: string | null): Promise<Blob | null> => {
+    if (!url) return Promise.resolve(null);
+    const existing = blobs.get(url);
+    if (existing) return existing;
+    const blob = urlToBlob(url);
+    blobs.set(url, blob);
+    return blob;
+  };
+};
+
+const sceneBlobs = (scene: StoredScene): Blob[] => [
+  scene.audioBlob,
+  scene.imageBlob,
+  scene.originalImageBlob,
+  scene.originalAudio?.audioBlob,
+  ...(scene.imageVersions?.versions.map(version => version.imageBlob) ?? []),
+].filter((blob): blob is Blob => !!blob);
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * All entries, newest first
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const searchHistory = async (query: string): Promise<HistoryEntry[]> => {
+  const entries = await listHistory();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry => entry.searchText.includes(needle) || entry.title.toLowerCase().includes(needle));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * Deletes the oldest entries until the new data fits under the low-water mark.
+ * Returns how many entries were evicted.
+ */
+const evictForSpace = async (incomingBytes: number): Promise<number> => {
+  const estimate = await getStorageUsage();
+  if (!estimate || !estimate.quota) return 0;
+  if ((estimate.usage + incomingBytes) / estimate.quota < QUOTA_HIGH_WATER) return 0;
+
+  const oldestFirst = (await listHistory()).reverse();
+  let usage = estimate.usage;
+  let evicted = 0;
+  for (const entry of oldestFirst) {
+    if ((usage + incomingBytes) / estimate.quota < QUOTA_LOW_WATER) break;
+    await deleteHistoryEntry(entry.id);
+    usage -= entry.sizeBytes;
+    evicted++;
+  }
+  return evicted;
+};
+
+/**
+ * Persists a finished generation, including the raw audio/image bytes, so it
+ * survives reloads (blob URLs and React state do not). Image versions and the
+ * original take behind audio edits are kept too, so both can still be undone
+ * after reopening. With `entryId` the existing entry is overwritten, so later
+ * edits replace the stored assets.
+ */
+export const saveToHistory = async (
+  project: Project,
+  results: GeneratedContent[],
+  mode: GenerationMode,
+  entryId?: string
+): Promise<HistoryEntry> => {
+  const readBlob = createBlobReader();
+  const scenes: StoredScene[] = await Promise.all(results.map(async (result, index) => {
+    const scene = project.scenes.find(s => s.id === result.sceneId) ?? project.scenes[index];
+    return {
+      sceneId: result.sceneId ?? scene?.id ?? createId(),
+      narrationText: result.narrationText,
+      visualPrompt: result.visualPrompt,
+      voice: result.voice ?? scene?.voice ?? '',
+      speakingRate: result.speakingRate ?? scene?.speakingRate ?? 1,
+      pitchSemitones: scene?.pitchSemitones,
+      dialogue: scene?.dialogue ?? false,
+      speakerVoices: scene?.speakerVoices,
+      stylePresetId: scene?.stylePresetId,
+      direction: scene?.direction,
+      audioBlob: await readBlob(result.audioUrl),
+      imageBlob: await readBlob(result.imageUrl),
+      audioDuration: result.audioDuration,
+      captions: result.captions,
+      originalImageBlob: (await readBlob(result.originalImageUrl)) ?? undefined,
+      imageVersions: result.imageVersions && {
+        currentId: result.imageVersions.currentId,
+        versions: await Promise.all(result.imageVersions.versions.map(async ({ imageUrl, ...version }) => ({
+          ...version,
+          imageBlob: (await readBlob(imageUrl))!,
+        }))),
+      },
+      originalAudio: result.originalAudio && {
+        audioBlob: (await readBlob(result.originalAudio.url))!,
+        duration: result.originalAudio.duration,
+        captions: result.originalAudio.captions,
+      },
+      audioEdit: result.audioEdit,
+    };
+  }));
+
+  const sizeBytes = Array.from(new Set(scenes.flatMap(sceneBlobs))).reduce((total, blob) => total + blob.size, 0);
+  const now = Date.now();
+  const existing = entryId ? await withStore<HistoryEntry | undefined>('readonly', store => store.get(entryId)) : undefined;
+  const entry: HistoryEntry = {
+    id: entryId ?? createId(),
+    projectId: project.id,
+    title: project.title,
+    mode,
+    aspectRatio: project.aspectRatio,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    scenes,
+    overlays: project.overlays,
+    sizeBytes,
+    searchText: scenes.map(scene => scene.narrationText).join('\n').toLowerCase(),
+  };
+
+  await evictForSpace(sizeBytes - (existing?.sizeBytes ?? 0));
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * Rebuilds editor state from a stored entry. Blob URLs are created fresh, so
+ * callers own them and should revoke them when done (see revokeResultUrls).
+ */
+export const restoreHistoryEntry = (entry: HistoryEntry): { project: Project; results: GeneratedContent[] } => {
+  const project: Project = {
+    id: entry.projectId,
+    title: entry.title,
+    aspectRatio: entry.aspectRatio,
+    scenes: entry.scenes.map(scene => ({
+      id: scene.sceneId,
+      narrationText: scene.narrationText,
+      visualPrompt: scene.visualPrompt,
+      voice: scene.voice,
+      speakingRate: scene.speakingRate,
+      pitchSemitones: scene.pitchSemitones,
+      dialogue: scene.dialogue,
+      speakerVoices: scene.speakerVoices,
+      stylePresetId: scene.stylePresetId,
+      direction: scene.direction,
+    })),
+    overlays: entry.overlays,
+  };
+
+  // One URL per stored blob, so the current image and its version share it
+  const urls = new Map<Blob, string>();
+  const blobUrl = (blob: Blob): string => {
+    const existing = urls.get(blob);
+    if (existing) return existing;
+    const url = URL.createObjectURL(blob);
+    urls.set(blob, url);
+    return url;
+  };
+
+  const results: GeneratedContent[] = entry.scenes.map(scene => ({
+    sceneId: scene.sceneId,
+    audioUrl: scene.audioBlob ? blobUrl(scene.audioBlob) : null,
+    imageUrl: scene.imageBlob ? blobUrl(scene.imageBlob) : null,
+    audioDuration: scene.audioDuration,
+    captions: scene.captions,
+    originalImageUrl: scene.originalImageBlob && blobUrl(scene.originalImageBlob),
+    imageVersions: scene.imageVersions && {
+      currentId: scene.imageVersions.currentId,
+      versions: scene.imageVersions.versions.map(({ imageBlob, ...version }) => ({ ...version, imageUrl: blobUrl(imageBlob) })),
+    },
+    originalAudio: scene.originalAudio && {
+      url: blobUrl(scene.originalAudio.audioBlob),
+      duration: scene.originalAudio.duration,
+      captions: scene.originalAudio.captions,
+    },
+    audioEdit: scene.audioEdit,
+    narrationText: scene.narrationText,
+    visualPrompt: scene.visualPrompt,
+    voice: scene.voice,
+    speakingRate: scene.speakingRate,
+    mode: entry.mode,
+  }));
+
+  return { project, results };
+};
+
+/**
+ * Releases every blob URL the results hold: the current and original
+ * narration, and each image version. Data URLs are left alone.
+ */
+export const revokeResultUrls = (results: GeneratedContent[]) => {
+  const urls = results.flatMap(result => [
+    result.audioUrl,
+    result.originalAudio?.url,
+    result.imageUrl,
+    result.originalImageUrl,
+    ...(result.imageVersions?.versions.map(version => version.imageUrl) ?? []),
+  ]);
+  new Set(urls).forEach(url => url?.startsWith('blob:') && URL.revokeObjectURL(url));
+};
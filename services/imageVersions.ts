@@ -0,0 +1,48 @@
+import { ImageVersion, ImageVersionTree } from '../types';
+import { createId } from './project';
+
+export const createVersionTree = (imageUrl: string, label: string = 'Original'): ImageVersionTree => {
+  const root: ImageVersion = { id: createId(), imageUrl, parentId: null, label, createdAt: Date.now() };
+  return { versions: [root], currentId: root.id };
+};
+
+export const getCurrentVersion = (tree: ImageVersionTree): ImageVersion =>
+  tree.versions.find(version => version.id === tree.currentId) ?? tree.versions[0];
+
+/**
+ * Adds a version derived from the current one and makes it current
+ */
+export const addVersion = (tree: ImageVersionTree, imageUrl: string, label: string): ImageVersionTree => {
+  const version: ImageVersion = { id: createId(), imageUrl, parentId: tree.currentId, label, createdAt: Date.now() };
+  return { versions: [...tree.versions, version], currentId: version.id };
+};
+
+export const selectVersion = (tree: ImageVersionTree, id: string): ImageVersionTree =>
+  tree.versions.some(version => version.id === id) ? { ...tree, currentId: id } : tree;
+
+export const canUndo = (tree: ImageVersionTree): boolean => getCurrentVersion(tree).parentId !== null;
+
+/**
+ * Steps back to the parent of the current version
+ */
+export const undoVersion = (tree: ImageVersionTree): ImageVersionTree => {
+  const parentId = getCurrentVersion(tree).parentId;
+  return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+/**
+ * Versions in depth-first order with their depth, for rendering the tree as
+ * an indented list
+ */
+export const flattenVersionTree = (tree: ImageVersionTree): { version: ImageVersion; depth: number }[] => {
+  const rows: { version: ImageVersion; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const version of tree.versions) {
+      if (version.parentId !== parentId) continue;
+      rows.push({ version, depth });
+      visit(version.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+};
@@ -0,0 +1,324 @@
+import {
+  GeneratedMetadata,
+  GeneratedScript,
+  ImageEditRequest,
+  ImageProvider,
+  ImageRequest,
+  MetadataRequest,
+  ScriptProvider,
+  ScriptRequest,
+  ScriptSegment,
+  TtsProvider,
+  TtsRequest
+} from "../types";
+import { estimateWordBudget } from "./scriptWriter";
+import { getOutputFormat } from "./formats";
+import { loadImage } from "./videoRenderer";
+import { findVoice } from "./voiceCatalog";
+
+const MOCK_SAMPLE_RATE = 24000;
+
+// Rough fundamental frequency per prebuilt voice so mock voices are distinguishable
+const VOICE_PITCH: Record<string, number> = {
+  Kore: 205,
+  Puck: 180,
+  Charon: 110,
+  Fenrir: 95,
+  Zephyr: 230,
+};
+
+/**
+ * FNV-1a string hash, used to seed everything so the same input always
+ * produces byte-identical output
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * mulberry32 PRNG
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Synthesizes speech-like PCM: every word becomes a voiced burst of harmonics
+ * with a syllable envelope, separated by short gaps, with longer gaps at
+ * punctuation. Durations scale with word length, so the result behaves like
+ * real narration for captions, waveforms and rendering. Like real providers
+ * it speaks at a natural pace; speaking rate is applied in post-processing.
+ */
+const synthesizeSpeech = async ({ text, voiceName, signal }: TtsRequest): Promise<AudioBuffer> => {
+  signal?.throwIfAborted();
+  const random = createRandom(hashString(`${voiceName}:${text}`));
+  const basePitch = VOICE_PITCH[voiceName] ?? (findVoice(voiceName)?.gender === 'male' ? 120 + (hashString(voiceName) % 40) : 190 + (hashString(voiceName) % 50));
+  const words = text.split(/\s+/).filter(Boolean);
+
+  interface Burst { start: number; length: number; pitch: number; syllables: number }
+  const bursts: Burst[] = [];
+  let cursor = Math.round(0.2 * MOCK_SAMPLE_RATE); // leading silence like real TTS output
+
+  for (const word of words) {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length || 1;
+    const length = Math.round((0.08 + letters * 0.055) * MOCK_SAMPLE_RATE);
+    bursts.push({
+      start: cursor,
+      length,
+      pitch: basePitch * (0.9 + random() * 0.2),
+      syllables: Math.max(1, Math.round(letters / 3)),
+    });
+    cursor += length;
+    const gap = /[.!?]$/.test(word) ? 0.45 : /[,;:]$/.test(word) ? 0.25 : 0.06;
+    cursor += Math.round(gap * MOCK_SAMPLE_RATE);
+  }
+  cursor += Math.round(0.3 * MOCK_SAMPLE_RATE);
+
+  const ctx = new OfflineAudioContext(1, 1, MOCK_SAMPLE_RATE);
+  const buffer = ctx.createBuffer(1, Math.max(1, cursor), MOCK_SAMPLE_RATE);
+  const data = buffer.getChannelData(0);
+
+  for (const burst of bursts) {
+    for (let i = 0; i < burst.length; i++) {
+      const t = i / MOCK_SAMPLE_RATE;
+      const position = i / burst.length;
+      // Syllable envelope: one hump per syllable, with soft word edges
+      const syllableEnvelope = Math.abs(Math.sin(Math.PI * position * burst.syllables));
+      const edge = Math.min(1, position * 20, (1 - position) * 20);
+      // Slight pitch glide downward through the word, like natural intonation
+      const pitch = burst.pitch * (1.05 - 0.1 * position);
+      let sample = 0;
+      for (let harmonic = 1; harmonic <= 5; harmonic++) {
+        sample += Math.sin(2 * Math.PI * pitch * harmonic * t) / (harmonic * harmonic);
+      }
+      sample += (random() * 2 - 1) * 0.04; // breath noise
+      data[burst.start + i] = sample * 0.35 * (0.3 + 0.7 * syllableEnvelope) * edge;
+    }
+  }
+
+  return buffer;
+};
+
+/**
+ * Procedurally generated placeholder: seeded gradient, soft shapes and the
+ * prompt text, rendered to a PNG data URL in the requested format.
+ */
+const generateImage = async ({ prompt, aspectRatio, seed, referenceImages = [], signal }: ImageRequest): Promise<string> => {
+  signal?.throwIfAborted();
+  const { width, height } = getOutputFormat(aspectRatio);
+  const random = createRandom(hashString(seed ? `${prompt}#${seed}` : prompt));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not create a canvas for the mock image.");
+  }
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 25%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 80%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 14; i++) {
+    const radius = 80 + random() * 360;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, radius, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${(hue + random() * 120) % 360}, 80%, 60%, ${0.08 + random() * 0.15})`;
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = '600 48px Inter, system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const maxChars = Math.round(90 * width / 1920);
+  const caption = prompt.length > maxChars ? `${prompt.slice(0, maxChars - 3)}...` : prompt;
+  ctx.fillText(caption, width / 2, height / 2);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.font = '700 28px Inter, system-ui, sans-serif';
+  ctx.fillText('MOCK PREVIEW', width / 2, height / 2 + 70);
+
+  // Show attached references as a filmstrip so style presets are visible offline
+  const thumbHeight = Math.round(height * 0.12);
+  let thumbX = 24;
+  for (const reference of await Promise.all(referenceImages.map(loadImage))) {
+    const thumbWidth = Math.round(reference.width * (thumbHeight / reference.height));
+    ctx.drawImage(reference, thumbX, height - thumbHeight - 24, thumbWidth, thumbHeight);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(thumbX, height - thumbHeight - 24, thumbWidth, thumbHeight);
+    thumbX += thumbWidth + 12;
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Fake edit: redraws the source image under a seeded colour wash and stamps
+ * the instruction on it, so edit chains are visibly distinct offline
+ */
+const editImage = async ({ imageUrl, instruction, signal }: ImageEditRequest): Promise<string> => {
+  signal?.throwIfAborted();
+  const image = await loadImage(imageUrl);
+  const random = createRandom(hashString(instruction));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not create a canvas for the mock edit.");
+  }
+
+  ctx.drawImage(image, 0, 0);
+  ctx.fillStyle = `hsla(${Math.floor(random() * 360)}, 80%, 50%, 0.25)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const fontSize = Math.round(Math.min(canvas.width, canvas.height) * 0.035);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, 0, canvas.width, fontSize * 2);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`EDIT: ${instruction}`, canvas.width / 2, fontSize, canvas.width * 0.9);
+
+  return canvas.toDataURL('image/png');
+};
+
+const MOCK_FACT_SENTENCES = [
+  'Researchers have found that {topic} is far stranger than most people ever imagine.',
+  'One detail about {topic} surprises almost everyone who hears it for the first time.',
+  'Scientists are still debating exactly why {topic} works the way it does.',
+  'If you looked closely at {topic}, you would notice patterns that repeat again and again.',
+  'Historically, {topic} was misunderstood for centuries before anyone measured it properly.',
+];
+
+const MOCK_FILLER = 'And the more you learn about it, the more fascinating it becomes.';
+
+/**
+ * Fills a sentence template up to roughly `words` words with filler
+ */
+const padToWords = (sentence: string, words: number): string => {
+  let text = sentence;
+  while (text.split(/\s+/).length + MOCK_FILLER.split(/\s+/).length <= words) {
+    text = `${text} ${MOCK_FILLER}`;
+  }
+  return text;
+};
+
+/**
+ * Template-based script so the topic-to-script flow can be exercised offline
+ */
+const writeScript = async ({ topic, factCount, targetSeconds, speakingRate, tone, signal }: ScriptRequest): Promise<GeneratedScript> => {
+  signal?.throwIfAborted();
+  const subject = topic.trim() || 'this topic';
+  const random = createRandom(hashString(`${tone}:${subject}`));
+  const wordsPerSegment = Math.max(8, Math.round(estimateWordBudget(targetSeconds, speakingRate) / (factCount + 2)));
+  const offset = Math.floor(random() * MOCK_FACT_SENTENCES.length);
+
+  const segments: ScriptSegment[] = [
+    {
+      kind: 'hook',
+      narration: padToWords(`Did you know there is a secret hidden in ${subject}? Stick around, because number ${factCount} is wild.`, wordsPerSegment),
+      visualPrompt: `A dramatic cinematic establishing shot representing ${subject}, golden hour lighting, photorealistic, 8k`,
+    },
+  ];
+  for (let i = 0; i < factCount; i++) {
+    const template = MOCK_FACT_SENTENCES[(offset + i) % MOCK_FACT_SENTENCES.length];
+    segments.push({
+      kind: 'fact',
+      narration: padToWords(`Fact number ${i + 1}. ${template.replace('{topic}', subject)}`, wordsPerSegment),
+      visualPrompt: `A cinematic close-up illustrating fact ${i + 1} about ${subject}, shallow depth of field, photorealistic`,
+    });
+  }
+  segments.push({
+    kind: 'outro',
+    narration: padToWords(`That's it for ${subject}. If you learned something new, like and subscribe for more facts.`, wordsPerSegment),
+    visualPrompt: `A wide cinematic shot of ${subject} at dusk with soft bokeh, photorealistic`,
+  });
+
+  return { title: `${factCount} Facts About ${subject} You Never Knew`, segments };
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'that', 'this', 'with', 'for', 'are', 'was', 'you', 'your', 'have', 'from', 'they', 'their', 'what',
+  'about', 'more', 'most', 'than', 'when', 'there', 'which', 'would', 'could', 'into', 'just', 'like', 'been', 'will',
+  'does', 'did', 'know', 'number', 'fact', 'it\'s', 'that\'s', 'around', 'because', 'people', 'even', 'ever',
+]);
+
+/**
+ * Metadata built from the most frequent words of the narration, so the
+ * publishing step can be exercised offline
+ */
+const writeMetadata = async ({ title, scenes, signal }: MetadataRequest): Promise<GeneratedMetadata> => {
+  signal?.throwIfAborted();
+  const counts = new Map<string, number>();
+  for (const scene of scenes) {
+    for (const word of scene.narration.toLowerCase().match(/[a-z][a-z']{3,}/g) ?? []) {
+      if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  const keywords = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([word]) => word).slice(0, 15);
+  const subject = title.trim() || (keywords[0] ? keywords[0][0].toUpperCase() + keywords[0].slice(1) : 'This Topic');
+
+  return {
+    titles: [
+      subject,
+      `${scenes.length} Facts About ${subject} You Never Knew`,
+      `The Truth About ${subject}`,
+      `Why ${subject} Is Stranger Than You Think`,
+      `${subject}, Explained in Under a Minute`,
+    ],
+    description: `Everything you never knew about ${subject.toLowerCase()}, in one short video. ${scenes[0]?.narration ?? ''}\n\nWatch to the end for the most surprising fact, and subscribe for a new one every day.`,
+    tags: [subject.toLowerCase(), 'facts', 'did you know', ...keywords],
+    hashtags: ['#facts', '#didyouknow', `#${keywords[0] ?? 'shorts'}`],
+    thumbnailText: keywords[0] ? `The ${keywords[0]} secret` : 'You won\'t believe this',
+    chapterTitles: scenes.map((_, index) => (index === 0 ? 'Intro' : index === scenes.length - 1 && scenes.length > 2 ? 'Outro' : `Fact ${index}`)),
+  };
+};
+
+export const mockTtsProvider: TtsProvider = {
+  id: 'mock',
+  label: 'Local Mock',
+  description: 'Offline, deterministic speech-like tones',
+  model: 'mock-tts',
+  requiresApiKey: false,
+  synthesize: synthesizeSpeech,
+};
+
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Local Mock',
+  description: 'Offline, procedurally generated placeholders',
+  model: 'mock-image',
+  requiresApiKey: false,
+  generate: generateImage,
+  edit: editImage,
+};
+
+export const mockScriptProvider: ScriptProvider = {
+  id: 'mock',
+  label: 'Local Mock',
+  description: 'Offline, template-based scripts',
+  requiresApiKey: false,
+  writeScript,
+  writeMetadata,
+};
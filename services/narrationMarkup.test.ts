@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { PronunciationEntry, applyLexicon, directorNote, markupPauseSeconds, parseMarkup, stripMarkup } from './narrationMarkup';
+
+const entry = (term: string, respelling: string, matchCase = false): PronunciationEntry => ({ id: term, term, respelling, matchCase });
+
+describe('parseMarkup', () => {
+  it('keeps plain narration in one segment', () => {
+    expect(parseMarkup('Octopuses have three hearts. And blue blood.')).toEqual([
+      { text: 'Octopuses have three hearts. And blue blood.', style: undefined, emphasis: [], pauseAfter: 0 },
+    ]);
+  });
+
+  it('ends a segment at each pause', () => {
+    const segments = parseMarkup('One. [pause] Two. [pause 250ms] Three. [PAUSE 1.5s] Four.');
+    expect(segments.map(segment => [segment.text, segment.pauseAfter])).toEqual([
+      ['One.', 0.5],
+      ['Two.', 0.25],
+      ['Three.', 1.5],
+      ['Four.', 0],
+    ]);
+  });
+
+  it('adds up back-to-back pauses and drops leading ones', () => {
+    const segments = parseMarkup('[pause 2s] Wait for it. [pause 1s] [pause 500ms] Now.');
+    expect(segments.map(segment => [segment.text, segment.pauseAfter])).toEqual([['Wait for it.', 1.5], ['Now.', 0]]);
+  });
+
+  it('caps a pause at ten seconds', () => {
+    expect(parseMarkup('Long. [pause 60s] Wait.')[0].pauseAfter).toBe(10);
+  });
+
+  it('applies a style note to its own sentence only', () => {
+    const segments = parseMarkup('It has 3.14 arms. [style: whispering] But it is a secret. Back to normal.');
+    expect(segments.map(segment => [segment.text, segment.style])).toEqual([
+      ['It has 3.14 arms.', undefined],
+      ['But it is a secret.', 'whispering'],
+      ['Back to normal.', undefined],
+    ]);
+  });
+
+  it('collects emphasis and removes the markers', () => {
+    const [segment] = parseMarkup('Octopuses have *three* hearts and *blue blood*.');
+    expect(segment.text).toBe('Octopuses have three hearts and blue blood.');
+    expect(segment.emphasis).toEqual(['three', 'blue blood']);
+  });
+});
+
+describe('stripMarkup and markupPauseSeconds', () => {
+  const script = 'Did you know? [pause 750ms] [style: excited] Octopuses have *three* hearts. [pause]';
+
+  it('keeps only the spoken words', () => {
+    expect(stripMarkup(script)).toBe('Did you know? Octopuses have three hearts.');
+  });
+
+  it('adds up the pauses the script asks for', () => {
+    expect(markupPauseSeconds(script)).toBe(1.25);
+    expect(markupPauseSeconds('No pauses here.')).toBe(0);
+  });
+});
+
+describe('applyLexicon', () => {
+  it('replaces whole words only, ignoring case by default', () => {
+    const lexicon = [entry('GIF', 'jif')];
+    expect(applyLexicon('A gif, a GIF and GIFs.', lexicon)).toBe('A jif, a jif and GIFs.');
+  });
+
+  it('respects matchCase', () => {
+    expect(applyLexicon('The US told us.', [entry('US', 'you ess', true)])).toBe('The you ess told us.');
+  });
+
+  it('prefers the longest term and never rewrites a respelling', () => {
+    const lexicon = [entry('New York', 'noo york'), entry('York', 'yawk'), entry('noo', 'NEW')];
+    expect(applyLexicon('New York and York.', lexicon)).toBe('noo york and yawk.');
+  });
+
+  it('ignores incomplete entries', () => {
+    expect(applyLexicon('Gauss', [entry('Gauss', ' '), entry(' ', 'x')])).toBe('Gauss');
+  });
+});
+
+describe('directorNote', () => {
+  it('combines the scene direction, the inline style and the emphasis', () => {
+    expect(directorNote({ text: 'x', style: 'whispering', emphasis: ['three', 'blue blood'], pauseAfter: 0 }, 'calm'))
+      .toBe('Say in this style: calm, whispering, stressing "three", "blue blood"');
+  });
+
+  it('is undefined for plain narration', () => {
+    expect(directorNote({ text: 'x', emphasis: [], pauseAfter: 0 }, '  ')).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * A word the TTS voice gets wrong and how to spell it so it comes out right
+ */
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  respelling: string;
+  /** Only replace exact-case matches (e.g. "US" but not "us") */
+  matchCase: boolean;
+}
+
+/**
+ * A run of narration with one delivery: sentences sharing a style note,
+ * followed by an explicit pause when the script asks for one
+ */
+export interface MarkupSegment {
+  text: string;
+  style?: string;
+  emphasis: string[];
+  pauseAfter: number;
+}
+
+const LEXICON_STORAGE_KEY = 'PRONUNCIATION_LEXICON';
+const DEFAULT_PAUSE_SECONDS = 0.5;
+const MAX_PAUSE_SECONDS = 10;
+
+// [pause], [pause 500ms], [pause 1.5s]
+const PAUSE_TAG = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]/gi;
+// [style: whispering] applies to the sentence it appears in
+const STYLE_TAG = /\[style:\s*([^\]]+)\]/gi;
+// *word* or *a few words*
+const EMPHASIS = /\*([^*\n]+)\*/g;
+
+export const loadLexicon = (): PronunciationEntry[] => {
+  try {
+    const saved = localStorage.getItem(LEXICON_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLexicon = (lexicon: PronunciationEntry[]) => {
+  localStorage.setItem(LEXICON_STORAGE_KEY, JSON.stringify(lexicon));
+};
+
+export const createLexiconEntry = (term = '', respelling = ''): PronunciationEntry => ({
+  id: crypto.randomUUID(),
+  term,
+  respelling,
+  matchCase: false,
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces whole-word occurrences of lexicon terms with their respellings in
+ * one pass, longest terms first, so a respelling is never rewritten again
+ */
+export const applyLexicon = (text: string, lexicon: PronunciationEntry[] = []): string => {
+  const entries = lexicon
+    .filter(entry => entry.term.trim() && entry.respelling.trim())
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+  if (entries.length === 0) return text;
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${entries.map(entry => escapeRegExp(entry.term.trim())).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  return text.replace(pattern, match => {
+    const entry = entries.find(candidate => candidate.matchCase
+      ? candidate.term.trim() === match
+      : candidate.term.trim().toLowerCase() === match.toLowerCase());
+    return entry ? entry.respelling.trim() : match;
+  });
+};
+
+const pauseSeconds = (amount: string | undefined, unit: string | undefined): number => {
+  if (!amount) return DEFAULT_PAUSE_SECONDS;
+  const seconds = unit?.toLowerCase() === 's' ? parseFloat(amount) : parseFloat(amount) / 1000;
+  return Math.min(MAX_PAUSE_SECONDS, seconds);
+};
+
+// End of the sentence a style tag starts: punctuation followed by a space,
+// so decimals like 3.14 don't end it
+const SENTENCE_END = /[.!?]+["')\]]*(?=\s|$)/g;
+
+/**
+ * Splits marked-up narration into segments: a new segment starts at every
+ * pause and for every sentence with a style note (put the tag at the start
+ * of the sentence). Tags and emphasis markers are removed from the spoken
+ * text; everything else is passed through as written. Pauses before any
+ * speech are dropped.
+ */
+export const parseMarkup = (text: string): MarkupSegment[] => {
+  const segments: MarkupSegment[] = [];
+  const push = (raw: string, style?: string) => {
+    const emphasis = [...raw.matchAll(EMPHASIS)].map(match => match[1].trim());
+    const spoken = raw.replace(EMPHASIS, '$1').trim();
+    if (!spoken) return;
+    const previous = segments[segments.length - 1];
+    if (previous && previous.pauseAfter === 0 && previous.style === style) {
+      previous.text = `${previous.text} ${spoken}`;
+      previous.emphasis.push(...emphasis);
+    } else {
+      segments.push({ text: spoken, style, emphasis, pauseAfter: 0 });
+    }
+  };
+
+  // split() with two capture groups yields [text, amount, unit, text, ...]
+  const pieces = text.split(PAUSE_TAG);
+  for (let index = 0; index < pieces.length; index += 3) {
+    const piece = pieces[index];
+    let cursor = 0;
+    for (const match of piece.matchAll(STYLE_TAG)) {
+      if (match.index < cursor) continue;
+      push(piece.slice(cursor, match.index));
+      const styleStart = match.index + match[0].length;
+      SENTENCE_END.lastIndex = styleStart;
+      const sentenceEnd = SENTENCE_END.exec(piece);
+      const nextTag = piece.slice(styleStart).search(STYLE_TAG);
+      const end = Math.min(
+        sentenceEnd ? sentenceEnd.index + sentenceEnd[0].length : piece.length,
+        nextTag === -1 ? piece.length : styleStart + nextTag
+      );
+      push(piece.slice(styleStart, end), match[1].trim());
+      cursor = end;
+    }
+    push(piece.slice(cursor));
+
+    const last = segments[segments.length - 1];
+    if (last && index + 1 < pieces.length) last.pauseAfter += pauseSeconds(pieces[index + 1], pieces[index + 2]);
+  }
+  return segments;
+};
+
+/**
+ * The spoken words only, for captions and duration estimates
+ */
+export const stripMarkup = (text: string): string =>
+  text.replace(PAUSE_TAG, ' ').replace(STYLE_TAG, ' ').replace(EMPHASIS, '$1').replace(/[ \t]+/g, ' ').trim();
+
+/**
+ * Total silence the script asks for, in seconds
+ */
+export const markupPauseSeconds = (text: string): number =>
+  [...text.matchAll(PAUSE_TAG)].reduce((total, match) => total + pauseSeconds(match[1], match[2]), 0);
+
+/**
+ * Director's note for a segment in the "Say ...:" form the TTS model follows,
+ * or undefined when the segment is read plainly. A scene-wide `direction`
+ * comes first and an inline [style:] tag adds to it.
+ */
+export const directorNote = (segment: MarkupSegment, direction?: string): string | undefined => {
+  const parts: string[] = [];
+  const styles = [direction?.trim(), segment.style].filter(Boolean);
+  if (styles.length > 0) parts.push(`in this style: ${styles.join(', ')}`);
+  if (segment.emphasis.length > 0) parts.push(`stressing ${segment.emphasis.map(words => `"${words}"`).join(', ')}`);
+  return parts.length > 0 ? `Say ${parts.join(', ')}` : undefined;
+};
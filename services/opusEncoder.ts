@@ -0,0 +1,305 @@
+import { AudioMetadata } from '../types';
+import { ENCODER_NAME, buildVorbisComment, concatBytes } from './audioTags';
+
+export type OpusContainer = 'ogg' | 'webm';
+
+export interface OpusOptions {
+  container: OpusContainer;
+  bitrateKbps: number;
+  metadata: AudioMetadata;
+}
+
+interface OpusPacket {
+  data: Uint8Array;
+  /** Microseconds */
+  timestamp: number;
+  /** Samples at 48 kHz, the rate Opus granule positions always use */
+  samples: number;
+}
+
+// Encoder lookahead the decoder drops, in 48 kHz samples (libopus default)
+const DEFAULT_PRE_SKIP = 312;
+const INPUT_FRAMES_PER_CHUNK = 4800;
+const OGG_MAX_SEGMENTS = 255;
+const WEBM_CLUSTER_MS = 5000;
+// Recommended by the Matroska Opus mapping: 80 ms of pre-roll after a seek
+const SEEK_PRE_ROLL_NS = 80_000_000;
+
+const textBytes = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * OpusHead identification header (RFC 7845), channel mapping family 0
+ */
+const opusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(textBytes('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0;
+  return head;
+};
+
+/**
+ * The encoder's own OpusHead when it reports one, so pre-skip matches its
+ * real lookahead
+ */
+const describedHead = (description: AllowSharedBufferSource | undefined): Uint8Array | null => {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  const isOpusHead = bytes.length >= 19 && new TextDecoder().decode(bytes.subarray(0, 8)) === 'OpusHead';
+  return isOpusHead ? bytes.slice() : null;
+};
+
+/**
+ * Runs the buffer through the browser's WebCodecs Opus encoder
+ */
+const encodePackets = async (buffer: AudioBuffer, bitrateKbps: number): Promise<{ packets: OpusPacket[]; head: Uint8Array }> => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('This browser cannot encode Opus. Use a recent Chrome or Edge, or export WAV, MP3 or FLAC instead.');
+  }
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: buffer.numberOfChannels,
+    bitrate: bitrateKbps * 1000,
+  };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`Opus at ${buffer.sampleRate / 1000} kHz isn't supported by this browser. Try 48 kHz.`);
+  }
+
+  const packets: OpusPacket[] = [];
+  let head: Uint8Array | null = null;
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      head = head ?? describedHead(metadata?.decoderConfig?.description);
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestamp: chunk.timestamp, samples: Math.round(((chunk.duration ?? 20_000) * 48000) / 1e6) });
+    },
+    error: (e) => { encoderError = e; },
+  });
+  encoder.configure(config);
+
+  for (let start = 0; start < buffer.length; start += INPUT_FRAMES_PER_CHUNK) {
+    const frames = Math.min(INPUT_FRAMES_PER_CHUNK, buffer.length - start);
+    const planar = new Float32Array(frames * buffer.numberOfChannels);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(start, start + frames), channel * frames);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: buffer.numberOfChannels,
+      timestamp: Math.round((start / buffer.sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encoderError) throw encoderError;
+
+  return { packets, head: head ?? opusHead(buffer.numberOfChannels, DEFAULT_PRE_SKIP, buffer.sampleRate) };
+};
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+/**
+ * Ogg's CRC-32: polynomial 0x04c11db7, no reflection, zero initial value
+ */
+const oggCrc = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+const lacing = (length: number): number[] => [...Array<number>(Math.floor(length / 255)).fill(255), length % 255];
+
+const oggPage = (packets: Uint8Array[], flags: number, granule: number, serial: number, sequence: number): Uint8Array => {
+  const segments = packets.flatMap(packet => lacing(packet.length));
+  const header = new Uint8Array(27 + segments.length);
+  const view = new DataView(header.buffer);
+  header.set(textBytes('OggS'), 0);
+  header[4] = 0; // version
+  header[5] = flags;
+  view.setBigInt64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  header[26] = segments.length;
+  header.set(segments, 27);
+  const page = concatBytes([header, ...packets]);
+  new DataView(page.buffer).setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+/**
+ * Ogg Opus (RFC 7845): OpusHead and OpusTags pages, then audio packets packed
+ * into pages; the last granule position trims the encoder's padding
+ */
+const muxOgg = (packets: OpusPacket[], head: Uint8Array, totalSamples: number, metadata: AudioMetadata): Blob => {
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+  const pages = [
+    oggPage([head], 0x02, 0, serial, 0),
+    oggPage([concatBytes([textBytes('OpusTags'), buildVorbisComment(metadata)])], 0, 0, serial, 1),
+  ];
+
+  let granule = 0;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+  const flush = (isLast: boolean) => {
+    const pageGranule = isLast ? preSkip + totalSamples : granule;
+    pages.push(oggPage(pending, isLast ? 0x04 : 0, pageGranule, serial, pages.length));
+    pending = [];
+    pendingSegments = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    const segments = lacing(packet.data.length).length;
+    if (pendingSegments + segments > OGG_MAX_SEGMENTS) flush(false);
+    pending.push(packet.data);
+    pendingSegments += segments;
+    granule += packet.samples;
+    if (index === packets.length - 1) flush(true);
+  });
+  if (packets.length === 0) flush(true);
+
+  return new Blob(pages, { type: 'audio/ogg' });
+};
+
+/**
+ * EBML variable-length size, using the fewest bytes that fit
+ */
+const ebmlSize = (size: number): Uint8Array => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const ebml = (id: number[], ...children: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(children);
+  return concatBytes([new Uint8Array(id), ebmlSize(body.length), body]);
+};
+
+const ebmlUint = (id: number[], value: number): Uint8Array => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return ebml(id, new Uint8Array(bytes));
+};
+
+const ebmlFloat = (id: number[], value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return ebml(id, bytes);
+};
+
+const ebmlString = (id: number[], value: string): Uint8Array => ebml(id, textBytes(value));
+
+const simpleTag = (name: string, value: string) =>
+  ebml([0x67, 0xc8], ebmlString([0x45, 0xa3], name), ebmlString([0x44, 0x87], value));
+
+/**
+ * WebM with a single Opus track (Matroska Opus mapping): codec delay from
+ * pre-skip, title and artist as tags, clusters of about five seconds
+ */
+const muxWebm = (packets: OpusPacket[], head: Uint8Array, buffer: AudioBuffer, metadata: AudioMetadata): Blob => {
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+  const header = ebml([0x1a, 0x45, 0xdf, 0xa3],
+    ebmlUint([0x42, 0x86], 1), // EBMLVersion
+    ebmlUint([0x42, 0xf7], 1), // EBMLReadVersion
+    ebmlUint([0x42, 0xf2], 4), // EBMLMaxIDLength
+    ebmlUint([0x42, 0xf3], 8), // EBMLMaxSizeLength
+    ebmlString([0x42, 0x82], 'webm'),
+    ebmlUint([0x42, 0x87], 4), // DocTypeVersion
+    ebmlUint([0x42, 0x85], 2), // DocTypeReadVersion
+  );
+
+  const title = metadata.title?.trim();
+  const info = ebml([0x15, 0x49, 0xa9, 0x66],
+    ebmlUint([0x2a, 0xd7, 0xb1], 1_000_000), // TimestampScale: milliseconds
+    ebmlString([0x4d, 0x80], ENCODER_NAME), // MuxingApp
+    ebmlString([0x57, 0x41], ENCODER_NAME), // WritingApp
+    ebmlFloat([0x44, 0x89], buffer.duration * 1000),
+    ...(title ? [ebmlString([0x7b, 0xa9], title)] : []),
+  );
+
+  const tracks = ebml([0x16, 0x54, 0xae, 0x6b],
+    ebml([0xae],
+      ebmlUint([0xd7], 1), // TrackNumber
+      ebmlUint([0x73, 0xc5], 1), // TrackUID
+      ebmlUint([0x83], 2), // TrackType: audio
+      ebmlString([0x86], 'A_OPUS'),
+      ebml([0x63, 0xa2], head), // CodecPrivate
+      ebmlUint([0x56, 0xaa], Math.round((preSkip / 48000) * 1e9)), // CodecDelay
+      ebmlUint([0x56, 0xbb], SEEK_PRE_ROLL_NS),
+      ebml([0xe1],
+        ebmlFloat([0xb5], 48000), // SamplingFrequency
+        ebmlUint([0x9f], buffer.numberOfChannels),
+      ),
+    ),
+  );
+
+  const tagValues = ([['TITLE', metadata.title], ['ARTIST', metadata.artist], ['ALBUM', metadata.album], ['COMMENT', metadata.comment]] as const)
+    .flatMap(([name, value]) => (value?.trim() ? [simpleTag(name, value.trim())] : []));
+  const tags = tagValues.length > 0
+    ? [ebml([0x12, 0x54, 0xc3, 0x67], ebml([0x73, 0x73], ebml([0x63, 0xc0], ebmlUint([0x68, 0xca], 50)), ...tagValues))]
+    : [];
+
+  const clusters: Uint8Array[] = [];
+  let clusterStart = 0;
+  let blocks: Uint8Array[] = [];
+  const flushCluster = () => {
+    if (blocks.length > 0) clusters.push(ebml([0x1f, 0x43, 0xb6, 0x75], ebmlUint([0xe7], clusterStart), ...blocks));
+    blocks = [];
+  };
+  for (const packet of packets) {
+    const timestampMs = Math.round(packet.timestamp / 1000);
+    if (blocks.length === 0 || timestampMs - clusterStart >= WEBM_CLUSTER_MS) {
+      flushCluster();
+      clusterStart = timestampMs;
+    }
+    const blockHeader = new Uint8Array(4);
+    blockHeader[0] = 0x81; // track 1
+    new DataView(blockHeader.buffer).setInt16(1, timestampMs - clusterStart);
+    blockHeader[3] = 0x80; // keyframe
+    blocks.push(ebml([0xa3], blockHeader, packet.data));
+  }
+  flushCluster();
+
+  const segment = ebml([0x18, 0x53, 0x80, 0x67], info, tracks, ...tags, ...clusters);
+  return new Blob([header, segment], { type: 'audio/webm' });
+};
+
+/**
+ * Opus via the browser's WebCodecs encoder, muxed into Ogg or WebM
+ */
+export const encodeOpus = async (buffer: AudioBuffer, { container, bitrateKbps, metadata }: OpusOptions): Promise<Blob> => {
+  const { packets, head } = await encodePackets(buffer, bitrateKbps);
+  if (container === 'webm') return muxWebm(packets, head, buffer, metadata);
+  const totalSamples = Math.round((buffer.length * 48000) / buffer.sampleRate);
+  return muxOgg(packets, head, totalSamples, metadata);
+};
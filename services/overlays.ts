@@ -0,0 +1,283 @@
+import { ImageOverlay, OverlayAnimation, OverlayLayer, TextOverlay } from '../types';
+import { createId } from './project';
+import { loadImage } from './videoRenderer';
+
+export const OVERLAY_FONTS: { label: string; value: string }[] = [
+  { label: 'Sans', value: 'Inter, system-ui, sans-serif' },
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Mono', value: '"Courier New", ui-monospace, monospace' },
+];
+
+export const OVERLAY_ANIMATIONS: { id: OverlayAnimation; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'slide-up', label: 'Slide up' },
+  { id: 'slide-left', label: 'Slide in' },
+  { id: 'pop', label: 'Pop' },
+];
+
+// Broadcast safe areas: titles stay within 80% of the frame, action within 90%
+export const TITLE_SAFE_MARGIN = 0.1;
+export const ACTION_SAFE_MARGIN = 0.05;
+
+// Quick positions inside the title-safe area, one per cell of a 3x3 grid
+export const OVERLAY_POSITIONS: { x: number; y: number; align: TextOverlay['align'] }[] = [0.15, 0.5, 0.8].flatMap(y => [
+  { x: TITLE_SAFE_MARGIN, y, align: 'left' as const },
+  { x: 0.5, y, align: 'center' as const },
+  { x: 1 - TITLE_SAFE_MARGIN, y, align: 'right' as const },
+]);
+
+const WATERMARK_MAX_EDGE = 640;
+// How far slide animations travel, as a fraction of the frame
+const SLIDE_DISTANCE = 0.08;
+
+export const createTextOverlay = (sceneId: string | 'all', overrides: Partial<Omit<TextOverlay, 'id' | 'kind'>> = {}): TextOverlay => ({
+  id: createId(),
+  kind: 'text',
+  sceneId,
+  text: 'Did you know?',
+  x: 0.5,
+  y: 0.5,
+  opacity: 1,
+  start: 0,
+  end: null,
+  animationIn: 'fade',
+  animationOut: 'fade',
+  animationSeconds: 0.4,
+  fontFamily: OVERLAY_FONTS[0].value,
+  fontWeight: 800,
+  fontSize: 0.08,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0.06,
+  align: 'center',
+  backgroundColor: null,
+  ...overrides,
+});
+
+export const createImageOverlay = (sceneId: string | 'all', imageUrl: string): ImageOverlay => ({
+  id: createId(),
+  kind: 'image',
+  sceneId,
+  imageUrl,
+  x: 1 - TITLE_SAFE_MARGIN - 0.06,
+  y: 1 - TITLE_SAFE_MARGIN - 0.04,
+  width: 0.12,
+  opacity: 0.8,
+  start: 0,
+  end: null,
+  animationIn: 'none',
+  animationOut: 'none',
+  animationSeconds: 0.4,
+});
+
+/**
+ * Starting points for the layers fact videos use most
+ */
+export const OVERLAY_PRESETS: { id: string; label: string; create: (sceneId: string) => TextOverlay }[] = [
+  {
+    id: 'title-card',
+    label: 'Title card',
+    create: (sceneId) => createTextOverlay(sceneId, { text: 'Did you know?', fontSize: 0.12, end: 3, animationIn: 'pop', fontFamily: OVERLAY_FONTS[1].value }),
+  },
+  {
+    id: 'fact-label',
+    label: 'Fact number',
+    create: () => createTextOverlay('all', { text: 'Fact #{n}', fontSize: 0.06, x: TITLE_SAFE_MARGIN, y: 0.15, align: 'left', color: '#facc15', animationIn: 'slide-left' }),
+  },
+  {
+    id: 'lower-third',
+    label: 'Lower third',
+    create: (sceneId) => createTextOverlay(sceneId, {
+      text: '{title}', fontSize: 0.045, fontWeight: 700, x: TITLE_SAFE_MARGIN, y: 0.72, align: 'left',
+      strokeWidth: 0, backgroundColor: 'rgba(147, 51, 234, 0.85)', start: 0.5, end: 5, animationIn: 'slide-left',
+    }),
+  },
+  {
+    id: 'cta',
+    label: 'Subscribe CTA',
+    create: (sceneId) => createTextOverlay(sceneId, {
+      text: 'Subscribe for a new fact every day', fontSize: 0.045, fontWeight: 700, y: 0.15,
+      strokeWidth: 0, backgroundColor: 'rgba(220, 38, 38, 0.9)', animationIn: 'slide-up',
+    }),
+  },
+  {
+    id: 'text-watermark',
+    label: 'Text watermark',
+    create: () => createTextOverlay('all', {
+      text: '@yourchannel', fontSize: 0.03, fontWeight: 600, x: 1 - TITLE_SAFE_MARGIN, y: 1 - TITLE_SAFE_MARGIN, align: 'right',
+      opacity: 0.6, strokeWidth: 0.04, animationIn: 'none', animationOut: 'none',
+    }),
+  },
+];
+
+/**
+ * Downscales an uploaded logo to a PNG data URL, keeping transparency
+ */
+export const prepareWatermark = async (file: Blob): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, WATERMARK_MAX_EDGE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas for the watermark.');
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * The layers that appear on one scene, with `{n}` and `{title}` filled in
+ */
+export const resolveSceneOverlays = (
+  layers: OverlayLayer[] = [],
+  sceneId: string | undefined,
+  sceneIndex: number,
+  projectTitle: string
+): OverlayLayer[] =>
+  layers
+    .filter(layer => layer.sceneId === 'all' || layer.sceneId === sceneId)
+    .map(layer => (layer.kind === 'text'
+      ? { ...layer, text: layer.text.replace(/\{n\}/g, String(sceneIndex + 1)).replace(/\{title\}/g, projectTitle) }
+      : layer));
+
+/**
+ * Decoded images for every image layer, keyed by URL
+ */
+export const loadOverlayImages = async (layers: OverlayLayer[]): Promise<Map<string, HTMLImageElement>> => {
+  const urls = Array.from(new Set(layers.flatMap(layer => (layer.kind === 'image' ? [layer.imageUrl] : []))));
+  const images = await Promise.all(urls.map(loadImage));
+  return new Map(urls.map((url, index) => [url, images[index]]));
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const easeOutBack = (t: number) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2;
+
+interface AnimationState {
+  alpha: number;
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+/**
+ * Where an animation is at `progress` (0 = hidden, 1 = settled)
+ */
+const animate = (animation: OverlayAnimation, progress: number, width: number, height: number): AnimationState => {
+  const t = Math.min(1, Math.max(0, progress));
+  const eased = smoothstep(t);
+  switch (animation) {
+    case 'none':
+      return { alpha: 1, dx: 0, dy: 0, scale: 1 };
+    case 'fade':
+      return { alpha: eased, dx: 0, dy: 0, scale: 1 };
+    case 'slide-up':
+      return { alpha: eased, dx: 0, dy: (1 - eased) * SLIDE_DISTANCE * height, scale: 1 };
+    case 'slide-left':
+      return { alpha: eased, dx: (1 - eased) * SLIDE_DISTANCE * width, dy: 0, scale: 1 };
+    case 'pop':
+      return { alpha: eased, dx: 0, dy: 0, scale: 0.6 + 0.4 * easeOutBack(t) };
+  }
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextOverlay, width: number, height: number) => {
+  const fontSize = Math.round(layer.fontSize * Math.min(width, height));
+  ctx.font = `${layer.fontWeight} ${fontSize}px ${layer.fontFamily}`;
+  ctx.textAlign = layer.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const lines = layer.text.split('\n');
+  const lineHeight = fontSize * 1.2;
+  const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const top = -(lines.length * lineHeight) / 2;
+
+  if (layer.backgroundColor) {
+    const padding = fontSize * 0.35;
+    const left = layer.align === 'left' ? 0 : layer.align === 'center' ? -blockWidth / 2 : -blockWidth;
+    ctx.fillStyle = layer.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect(left - padding, top - padding / 2, blockWidth + padding * 2, lines.length * lineHeight + padding, padding / 2);
+    ctx.fill();
+  }
+
+  lines.forEach((line, index) => {
+    const y = top + lineHeight * (index + 0.5);
+    if (layer.strokeWidth > 0) {
+      // The stroke is centred on the outline, and the fill covers its inner half
+      ctx.lineWidth = layer.strokeWidth * fontSize * 2;
+      ctx.strokeStyle = layer.strokeColor;
+      ctx.strokeText(line, 0, y);
+    }
+    ctx.fillStyle = layer.color;
+    ctx.fillText(line, 0, y);
+  });
+};
+
+/**
+ * Draws the scene's overlay layers for `time` seconds into its narration.
+ * Shared by the preview and the video renderer so both match exactly.
+ */
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  layers: OverlayLayer[],
+  images: Map<string, HTMLImageElement>,
+  time: number,
+  duration: number,
+  width: number,
+  height: number
+) => {
+  for (const layer of layers) {
+    const end = layer.end ?? duration;
+    if (time < layer.start || time > end) continue;
+
+    const seconds = Math.max(0.01, layer.animationSeconds);
+    const enter = animate(layer.animationIn, (time - layer.start) / seconds, width, height);
+    const exit = animate(layer.animationOut, (end - time) / seconds, width, height);
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity * enter.alpha * exit.alpha;
+    ctx.translate(layer.x * width + enter.dx + exit.dx, layer.y * height + enter.dy + exit.dy);
+    ctx.scale(enter.scale * exit.scale, enter.scale * exit.scale);
+    if (layer.kind === 'text') {
+      drawText(ctx, layer, width, height);
+    } else {
+      const image = images.get(layer.imageUrl);
+      if (image) {
+        const drawWidth = layer.width * width;
+        const drawHeight = (drawWidth * image.height) / image.width;
+        ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+      }
+    }
+    ctx.restore();
+  }
+};
+
+/**
+ * Action-safe and title-safe rectangles plus centre lines, for the preview only
+ */
+export const drawSafeAreaGuides = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.save();
+  ctx.lineWidth = Math.max(1, Math.min(width, height) / 540);
+  ctx.setLineDash([ctx.lineWidth * 6, ctx.lineWidth * 4]);
+  for (const [margin, color] of [[ACTION_SAFE_MARGIN, 'rgba(56, 189, 248, 0.7)'], [TITLE_SAFE_MARGIN, 'rgba(250, 204, 21, 0.7)']] as const) {
+    ctx.strokeStyle = color;
+    ctx.strokeRect(width * margin, height * margin, width * (1 - 2 * margin), height * (1 - 2 * margin));
+  }
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+  ctx.beginPath();
+  ctx.moveTo(width / 2, 0);
+  ctx.lineTo(width / 2, height);
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.stroke();
+  ctx.restore();
+};
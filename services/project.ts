@@ -0,0 +1,75 @@
+import { Project, Scene } from '../types';
+import { DEFAULT_ASPECT_RATIO } from './formats';
+import { VOICE_CATALOG } from './voiceCatalog';
+
+export const VOICES: string[] = VOICE_CATALOG.map(voice => voice.name);
+export const DEFAULT_VOICE = 'Kore';
+export const DEFAULT_SPEAKING_RATE = 1.0;
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createScene = (overrides: Partial<Omit<Scene, 'id'>> = {}): Scene => ({
+  id: createId(),
+  narrationText: '',
+  visualPrompt: '',
+  voice: DEFAULT_VOICE,
+  speakingRate: DEFAULT_SPEAKING_RATE,
+  dialogue: false,
+  ...overrides,
+});
+
+export const createProject = (title: string = 'Untitled Fact Video'): Project => ({
+  id: createId(),
+  title,
+  aspectRatio: DEFAULT_ASPECT_RATIO,
+  scenes: [createScene()],
+});
+
+export const updateScene = (project: Project, sceneId: string, changes: Partial<Omit<Scene, 'id'>>): Project => ({
+  ...project,
+  scenes: project.scenes.map(scene => (scene.id === sceneId ? { ...scene, ...changes } : scene)),
+});
+
+/**
+ * New scenes inherit the voice, speed and image style of the scene they
+ * follow, since a fact video almost always keeps one narrator and look throughout.
+ */
+export const addScene = (project: Project, afterSceneId?: string): Project => {
+  const index = afterSceneId
+    ? project.scenes.findIndex(scene => scene.id === afterSceneId)
+    : project.scenes.length - 1;
+  const previous = project.scenes[index];
+  const scene = createScene(previous
+    ? { voice: previous.voice, speakingRate: previous.speakingRate, direction: previous.direction, stylePresetId: previous.stylePresetId }
+    : {});
+  const scenes = [...project.scenes];
+  scenes.splice(index + 1, 0, scene);
+  return { ...project, scenes };
+};
+
+export const duplicateScene = (project: Project, sceneId: string): Project => {
+  const index = project.scenes.findIndex(scene => scene.id === sceneId);
+  if (index === -1) return project;
+  const scenes = [...project.scenes];
+  scenes.splice(index + 1, 0, { ...project.scenes[index], id: createId() });
+  return { ...project, scenes };
+};
+
+export const removeScene = (project: Project, sceneId: string): Project => {
+  // A project always keeps at least one scene to edit
+  if (project.scenes.length <= 1) return project;
+  return { ...project, scenes: project.scenes.filter(scene => scene.id !== sceneId) };
+};
+
+export const moveScene = (project: Project, sceneId: string, offset: number): Project => {
+  const from = project.scenes.findIndex(scene => scene.id === sceneId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= project.scenes.length) return project;
+  const scenes = [...project.scenes];
+  const [scene] = scenes.splice(from, 1);
+  scenes.splice(to, 0, scene);
+  return { ...project, scenes };
+};
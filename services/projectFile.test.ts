@@ -0,0 +1,132 @@
+import { resolveObjectURL } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { GeneratedContent } from '../types';
+import { createProject } from './project';
+import { EditorSnapshot, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION, checkManifestVersion, exportProject, importProject, validateManifest } from './projectFile';
+import { readZip } from './zip';
+
+const dataUrl = (type: string, text: string) => `data:${type};base64,${Buffer.from(text).toString('base64')}`;
+
+const snapshot = (): EditorSnapshot => {
+  const project = createProject('Octopus facts');
+  project.scenes[0] = { ...project.scenes[0], narrationText: 'Octopuses have three hearts.', visualPrompt: 'An octopus' };
+  const image = dataUrl('image/png', 'png-1');
+  const result: GeneratedContent = {
+    sceneId: project.scenes[0].id,
+    audioUrl: dataUrl('audio/wav', 'wav'),
+    imageUrl: image,
+    imageVersions: {
+      currentId: 'v2',
+      versions: [
+        { id: 'v1', imageUrl: dataUrl('image/png', 'png-0'), parentId: null, label: 'Original', createdAt: 1 },
+        { id: 'v2', imageUrl: image, parentId: 'v1', label: 'Edit: night', createdAt: 2 },
+      ],
+    },
+    narrationText: project.scenes[0].narrationText,
+    visualPrompt: project.scenes[0].visualPrompt,
+    mode: 'both',
+  };
+  return {
+    project,
+    results: [result],
+    generationMode: 'both',
+    currentSceneIndex: 0,
+    showCaptions: true,
+    stylePresets: [],
+    lexicon: [{ id: 'l1', term: 'GIF', respelling: 'jif', matchCase: false }],
+  };
+};
+
+const manifest = () => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  project: createProject('Octopus facts'),
+  editor: { generationMode: 'both', currentSceneIndex: 0, showCaptions: true },
+  results: null,
+  stylePresets: [],
+  lexicon: [],
+  assets: {},
+});
+
+const blobText = (url: string | null | undefined) => resolveObjectURL(url!)!.text();
+
+describe('checkManifestVersion', () => {
+  it('passes format 1 manifests through', () => {
+    const raw = manifest();
+    expect(checkManifestVersion(raw)).toBe(raw);
+  });
+
+  it('rejects other files', () => {
+    expect(() => checkManifestVersion([])).toThrow('not a Fact Video project file');
+    expect(() => checkManifestVersion({ ...manifest(), format: 'something-else' })).toThrow('not a Fact Video project file');
+  });
+
+  it('rejects missing and invalid versions', () => {
+    for (const version of [undefined, '1', 0, 1.5]) {
+      expect(() => checkManifestVersion({ ...manifest(), version })).toThrow('no valid format version');
+    }
+  });
+
+  it('asks for an update when the file is newer than the app', () => {
+    expect(() => checkManifestVersion({ ...manifest(), version: PROJECT_FILE_VERSION + 1 }))
+      .toThrow(`saved by a newer version of the app (format ${PROJECT_FILE_VERSION + 1})`);
+  });
+});
+
+describe('validateManifest', () => {
+  it('accepts a new project', () => {
+    const raw = manifest();
+    expect(validateManifest(raw)).toBe(raw);
+  });
+
+  it('names the fields that are wrong', () => {
+    const raw = manifest();
+    const scene = { ...raw.project.scenes[0], dialogue: 'yes' };
+    expect(() => validateManifest({ ...raw, project: { ...raw.project, aspectRatio: '5:4', scenes: [scene] } })).toThrow(
+      'The project file is invalid: project.aspectRatio must be one of'
+    );
+    expect(() => validateManifest({ ...raw, project: { ...raw.project, scenes: [scene] } })).toThrow(
+      'project.scenes[0].dialogue must be true or false.'
+    );
+  });
+
+  it('reports the first five problems and counts the rest', () => {
+    const raw = manifest();
+    expect(() => validateManifest({ ...raw, savedAt: 1, editor: {}, stylePresets: null, lexicon: null, assets: null })).toThrow(
+      'The project file is invalid: savedAt must be text; editor.generationMode must be one of both, image, narration; ' +
+      'editor.currentSceneIndex must be a number; editor.showCaptions must be true or false; stylePresets must be a list (and 2 more).'
+    );
+  });
+
+  it('requires at least one scene', () => {
+    const raw = manifest();
+    expect(() => validateManifest({ ...raw, project: { ...raw.project, scenes: [] } })).toThrow('project.scenes must have at least one scene');
+  });
+});
+
+describe('exportProject and importProject', () => {
+  it.each(['zip', 'json'] as const)('round-trips a %s project with its media', async (kind) => {
+    const original = snapshot();
+    const file = await exportProject(original, kind);
+    const restored = await importProject(file);
+
+    expect(restored.project).toEqual(original.project);
+    expect(restored.lexicon).toEqual(original.lexicon);
+    const [result] = restored.results!;
+    expect(await blobText(result.audioUrl)).toBe('wav');
+    expect(await blobText(result.imageUrl)).toBe('png-1');
+    // The current image and its version share one stored asset and one URL
+    expect(result.imageVersions!.versions[1].imageUrl).toBe(result.imageUrl);
+    expect(await blobText(result.imageVersions!.versions[0].imageUrl)).toBe('png-0');
+  });
+
+  it('stores each media file once in a bundle', async () => {
+    const files = await readZip(await exportProject(snapshot(), 'zip'));
+    expect([...files.keys()].sort()).toEqual(['assets/asset-1.wav', 'assets/asset-2.png', 'assets/asset-3.png', 'project.json']);
+  });
+
+  it('rejects files that are not projects', async () => {
+    await expect(importProject(new Blob(['not json']))).rejects.toThrow('not a Fact Video project file');
+  });
+});
@@ -0,0 +1,421 @@
+import { GeneratedContent, GenerationMode, ImageVersion, Project, StylePreset } from '../types';
+import { PronunciationEntry } from './narrationMarkup';
+import { OUTPUT_FORMATS } from './formats';
+import { OVERLAY_ANIMATIONS } from './overlays';
+import { decode } from './audioUtils';
+import { createZip, readZip, ZipEntry } from './zip';
+
+export const PROJECT_FILE_FORMAT = 'fact-video-project';
+export const PROJECT_FILE_VERSION = 1;
+
+export type ProjectFileKind = 'zip' | 'json';
+
+/**
+ * Everything needed to pick a video up where someone left it
+ */
+export interface EditorSnapshot {
+  project: Project;
+  results: GeneratedContent[] | null;
+  generationMode: GenerationMode;
+  currentSceneIndex: number;
+  showCaptions: boolean;
+  /** Presets the scenes use, so their look survives on another machine */
+  stylePresets: StylePreset[];
+  lexicon: PronunciationEntry[];
+}
+
+/**
+ * Bytes of one image or audio file: a file inside the bundle (`path`), or
+ * base64 `data` inline when the project is saved as a single JSON file
+ */
+interface ProjectAsset {
+  mimeType: string;
+  path?: string;
+  data?: string;
+}
+
+/**
+ * A generated scene with its media swapped for asset ids
+ */
+interface StoredResult extends Omit<GeneratedContent, 'audioUrl' | 'imageUrl' | 'originalImageUrl' | 'imageVersions' | 'originalAudio'> {
+  audio: string | null;
+  image: string | null;
+  originalImage?: string;
+  imageVersions?: { versions: (Omit<ImageVersion, 'imageUrl'> & { image: string })[]; currentId: string };
+  originalAudio?: { audio: string; duration?: number; captions?: GeneratedContent['captions'] };
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  project: Project;
+  editor: { generationMode: GenerationMode; currentSceneIndex: number; showCaptions: boolean };
+  results: StoredResult[] | null;
+  stylePresets: StylePreset[];
+  lexicon: PronunciationEntry[];
+  assets: Record<string, ProjectAsset>;
+}
+
+const MANIFEST_NAME = 'project.json';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Spreading a whole audio file into fromCharCode would overflow the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Writes the editor state as a versioned manifest. 'zip' stores the media as
+ * files next to project.json; 'json' inlines it as base64 in one file, which
+ * is about a third larger but easier to pass around.
+ */
+export const exportProject = async (snapshot: EditorSnapshot, kind: ProjectFileKind): Promise<Blob> => {
+  const assets: Record<string, ProjectAsset> = {};
+  const entries: ZipEntry[] = [];
+  // The current image is usually also a version in the tree, so each URL is stored once
+  const idsByUrl = new Map<string, string>();
+
+  const addAsset = async (url: string): Promise<string> => {
+    const existing = idsByUrl.get(url);
+    if (existing) return existing;
+    const blob = await (await fetch(url)).blob();
+    const id = `asset-${idsByUrl.size + 1}`;
+    idsByUrl.set(url, id);
+    const mimeType = blob.type || 'application/octet-stream';
+    if (kind === 'zip') {
+      const path = `assets/${id}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+      entries.push({ name: path, data: blob });
+      assets[id] = { mimeType, path };
+    } else {
+      assets[id] = { mimeType, data: toBase64(new Uint8Array(await blob.arrayBuffer())) };
+    }
+    return id;
+  };
+
+  const results = snapshot.results && await Promise.all(snapshot.results.map(async ({
+    audioUrl, imageUrl, originalImageUrl, imageVersions, originalAudio, ...rest
+  }): Promise<StoredResult> => ({
+    ...rest,
+    audio: audioUrl ? await addAsset(audioUrl) : null,
+    image: imageUrl ? await addAsset(imageUrl) : null,
+    originalImage: originalImageUrl ? await addAsset(originalImageUrl) : undefined,
+    imageVersions: imageVersions && {
+      currentId: imageVersions.currentId,
+      versions: await Promise.all(imageVersions.versions.map(async ({ imageUrl: url, ...version }) => ({ ...version, image: await addAsset(url) }))),
+    },
+    originalAudio: originalAudio && {
+      audio: await addAsset(originalAudio.url),
+      duration: originalAudio.duration,
+      captions: originalAudio.captions,
+    },
+  })));
+
+  const usedPresetIds = new Set(snapshot.project.scenes.map(scene => scene.stylePresetId));
+  const manifest: ProjectManifest = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: snapshot.project,
+    editor: {
+      generationMode: snapshot.generationMode,
+      currentSceneIndex: snapshot.currentSceneIndex,
+      showCaptions: snapshot.showCaptions,
+    },
+    results,
+    stylePresets: snapshot.stylePresets.filter(preset => usedPresetIds.has(preset.id)),
+    lexicon: snapshot.lexicon,
+    assets,
+  };
+
+  const json = JSON.stringify(manifest, null, kind === 'zip' ? 2 : undefined);
+  if (kind === 'json') {
+    return new Blob([json], { type: 'application/json' });
+  }
+  return createZip([{ name: MANIFEST_NAME, data: json }, ...entries]);
+};
+
+// Schema checks: each pushes a readable problem with the field's path
+
+type Check = (value: unknown, path: string, problems: string[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const string: Check = (value, path, problems) => {
+  if (typeof value !== 'string') problems.push(`${path} must be text`);
+};
+
+const number: Check = (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) problems.push(`${path} must be a number`);
+};
+
+const boolean: Check = (value, path, problems) => {
+  if (typeof value !== 'boolean') problems.push(`${path} must be true or false`);
+};
+
+const oneOf = (options: readonly string[]): Check => (value, path, problems) => {
+  if (!options.includes(value as string)) problems.push(`${path} must be one of ${options.join(', ')}`);
+};
+
+const optional = (check: Check): Check => (value, path, problems) => {
+  if (value !== undefined) check(value, path, problems);
+};
+
+const nullable = (check: Check): Check => (value, path, problems) => {
+  if (value !== null) check(value, path, problems);
+};
+
+const arrayOf = (check: Check): Check => (value, path, problems) => {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be a list`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, problems));
+};
+
+const recordOf = (check: Check): Check => (value, path, problems) => {
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) check(item, `${path}.${key}`, problems);
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path, problems) => {
+  if (!isObject(value)) {
+    problems.push(`${path || 'The file'} must be an object`);
+    return;
+  }
+  for (const [key, check] of Object.entries(fields)) check(value[key], path ? `${path}.${key}` : key, problems);
+};
+
+const MODES: GenerationMode[] = ['both', 'image', 'narration'];
+
+const sceneSchema = shape({
+  id: string,
+  narrationText: string,
+  visualPrompt: string,
+  voice: string,
+  speakingRate: number,
+  pitchSemitones: optional(number),
+  dialogue: boolean,
+  speakerVoices: optional(recordOf(string)),
+  stylePresetId: optional(string),
+  direction: optional(string),
+});
+
+const overlayBase = {
+  id: string,
+  sceneId: string,
+  x: number,
+  y: number,
+  opacity: number,
+  start: number,
+  end: nullable(number),
+  animationIn: oneOf(OVERLAY_ANIMATIONS.map(animation => animation.id)),
+  animationOut: oneOf(OVERLAY_ANIMATIONS.map(animation => animation.id)),
+  animationSeconds: number,
+};
+
+const textOverlaySchema = shape({
+  ...overlayBase,
+  text: string,
+  fontFamily: string,
+  fontWeight: number,
+  fontSize: number,
+  color: string,
+  strokeColor: string,
+  strokeWidth: number,
+  align: oneOf(['left', 'center', 'right']),
+  backgroundColor: nullable(string),
+});
+
+const imageOverlaySchema = shape({ ...overlayBase, imageUrl: string, width: number });
+
+const overlaySchema: Check = (value, path, problems) => {
+  const kind = isObject(value) ? value.kind : undefined;
+  if (kind === 'text') textOverlaySchema(value, path, problems);
+  else if (kind === 'image') imageOverlaySchema(value, path, problems);
+  else problems.push(`${path}.kind must be text or image`);
+};
+
+const captionsSchema = arrayOf(shape({
+  start: number,
+  end: number,
+  text: string,
+  words: arrayOf(shape({ text: string, start: number, end: number })),
+}));
+
+const resultSchema = shape({
+  sceneId: optional(string),
+  audio: nullable(string),
+  image: nullable(string),
+  audioDuration: optional(number),
+  captions: optional(captionsSchema),
+  originalImage: optional(string),
+  imageVersions: optional(shape({
+    versions: arrayOf(shape({ id: string, image: string, parentId: nullable(string), label: string, createdAt: number })),
+    currentId: string,
+  })),
+  originalAudio: optional(shape({ audio: string, duration: optional(number), captions: optional(captionsSchema) })),
+  audioEdit: optional(shape({
+    trimStart: number,
+    trimEnd: number,
+    fadeInSeconds: number,
+    fadeOutSeconds: number,
+    targetLufs: nullable(number),
+  })),
+  narrationText: string,
+  visualPrompt: string,
+  voice: optional(string),
+  speakingRate: optional(number),
+  mode: oneOf(MODES),
+});
+
+const manifestSchema = shape({
+  savedAt: string,
+  project: shape({
+    id: string,
+    title: string,
+    aspectRatio: oneOf(OUTPUT_FORMATS.map(format => format.aspectRatio)),
+    scenes: arrayOf(sceneSchema),
+    overlays: optional(arrayOf(overlaySchema)),
+  }),
+  editor: shape({ generationMode: oneOf(MODES), currentSceneIndex: number, showCaptions: boolean }),
+  results: nullable(arrayOf(resultSchema)),
+  stylePresets: arrayOf(shape({ id: string, name: string, promptSuffix: string, negativePrompt: string, referenceImages: arrayOf(string) })),
+  lexicon: arrayOf(shape({ id: string, term: string, respelling: string, matchCase: boolean })),
+  assets: recordOf(shape({ mimeType: string, path: optional(string), data: optional(string) })),
+});
+
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * Rejects anything that isn't a project file this version of the app can
+ * read. Format 1 is the only one so far; when the format changes, bump
+ * PROJECT_FILE_VERSION and upgrade older manifests here before validation.
+ */
+export const checkManifestVersion = (raw: unknown): Record<string, unknown> => {
+  if (!isObject(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('This is not a Fact Video project file.');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The project file has no valid format version.');
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (format ${version}). Update the app to open it.`);
+  }
+  return raw;
+};
+
+export const validateManifest = (manifest: Record<string, unknown>): ProjectManifest => {
+  const problems: string[] = [];
+  manifestSchema(manifest, '', problems);
+  if (problems.length === 0 && (manifest as unknown as ProjectManifest).project.scenes.length === 0) {
+    problems.push('project.scenes must have at least one scene');
+  }
+  if (problems.length > 0) {
+    const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+    throw new Error(`The project file is invalid: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}.`);
+  }
+  return manifest as unknown as ProjectManifest;
+};
+
+const isZip = async (file: Blob) => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+};
+
+/**
+ * Opens a project saved by exportProject, as a bundle or single JSON file.
+ * Media comes back as fresh blob URLs that the caller owns.
+ */
+export const importProject = async (file: Blob): Promise<EditorSnapshot> => {
+  let text: string;
+  let files: Map<string, Uint8Array> | null = null;
+  // Re-zipping an unpacked bundle usually nests it in a folder
+  let root = '';
+  if (await isZip(file)) {
+    files = await readZip(file);
+    const manifestPath = Array.from(files.keys())
+      .filter(name => name === MANIFEST_NAME || name.endsWith(`/${MANIFEST_NAME}`))
+      .sort((a, b) => a.length - b.length)[0];
+    if (!manifestPath) {
+      throw new Error(`The archive has no ${MANIFEST_NAME}, so it is not a project bundle.`);
+    }
+    root = manifestPath.slice(0, -MANIFEST_NAME.length);
+    text = new TextDecoder().decode(files.get(manifestPath));
+  } else {
+    text = await file.text();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a Fact Video project file.');
+  }
+  const manifest = validateManifest(checkManifestVersion(raw));
+
+  const urls = new Map<string, string>();
+  const assetUrl = (id: string): string => {
+    const existing = urls.get(id);
+    if (existing) return existing;
+    const asset = manifest.assets[id];
+    const bytes = asset?.path !== undefined ? files?.get(root + asset.path) : asset?.data !== undefined ? decode(asset.data) : undefined;
+    if (!asset || !bytes) {
+      throw new Error(`The project file is missing media "${id}".`);
+    }
+    const url = URL.createObjectURL(new Blob([bytes], { type: asset.mimeType }));
+    urls.set(id, url);
+    return url;
+  };
+
+  try {
+    const results = manifest.results?.map(({ audio, image, originalImage, imageVersions, originalAudio, ...rest }): GeneratedContent => ({
+      ...rest,
+      audioUrl: audio ? assetUrl(audio) : null,
+      imageUrl: image ? assetUrl(image) : null,
+      originalImageUrl: originalImage ? assetUrl(originalImage) : undefined,
+      imageVersions: imageVersions && {
+        currentId: imageVersions.currentId,
+        versions: imageVersions.versions.map(({ image: id, ...version }) => ({ ...version, imageUrl: assetUrl(id) })),
+      },
+      originalAudio: originalAudio && {
+        url: assetUrl(originalAudio.audio),
+        duration: originalAudio.duration,
+        captions: originalAudio.captions,
+      },
+    })) ?? null;
+
+    return {
+      project: manifest.project,
+      results,
+      generationMode: manifest.editor.generationMode,
+      currentSceneIndex: Math.min(Math.max(0, Math.round(manifest.editor.currentSceneIndex)), Math.max(0, (results?.length ?? 1) - 1)),
+      showCaptions: manifest.editor.showCaptions,
+      stylePresets: manifest.stylePresets,
+      lexicon: manifest.lexicon,
+    };
+  } catch (error) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  }
+};
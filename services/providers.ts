@@ -0,0 +1,61 @@
+import { ImageProvider, ScriptProvider, TtsProvider } from '../types';
+import { geminiImageProvider, geminiScriptProvider, geminiTtsProvider } from './geminiService';
+import { mockImageProvider, mockScriptProvider, mockTtsProvider } from './mockService';
+
+export const TTS_PROVIDERS: TtsProvider[] = [geminiTtsProvider, mockTtsProvider];
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiImageProvider, mockImageProvider];
+export const SCRIPT_PROVIDERS: ScriptProvider[] = [geminiScriptProvider, mockScriptProvider];
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+const TTS_PROVIDER_STORAGE_KEY = 'TTS_PROVIDER';
+const IMAGE_PROVIDER_STORAGE_KEY = 'IMAGE_PROVIDER';
+const SCRIPT_PROVIDER_STORAGE_KEY = 'SCRIPT_PROVIDER';
+
+export const getTtsProvider = (id: string): TtsProvider => {
+  const provider = TTS_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown speech provider "${id}".`);
+  }
+  return provider;
+};
+
+export const getImageProvider = (id: string): ImageProvider => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}".`);
+  }
+  return provider;
+};
+
+export const getScriptProvider = (id: string): ScriptProvider => {
+  const provider = SCRIPT_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown script provider "${id}".`);
+  }
+  return provider;
+};
+
+/**
+ * `?provider=mock` in the URL forces a provider for both slots, which lets
+ * dev and CI sessions run fully offline without touching saved settings.
+ */
+const providerOverride = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('provider');
+};
+
+const loadProviderId = (storageKey: string, providers: { id: string }[]): string => {
+  const override = providerOverride();
+  if (override && providers.some(p => p.id === override)) return override;
+  const saved = localStorage.getItem(storageKey);
+  return saved && providers.some(p => p.id === saved) ? saved : DEFAULT_PROVIDER_ID;
+};
+
+export const loadTtsProviderId = () => loadProviderId(TTS_PROVIDER_STORAGE_KEY, TTS_PROVIDERS);
+export const loadImageProviderId = () => loadProviderId(IMAGE_PROVIDER_STORAGE_KEY, IMAGE_PROVIDERS);
+export const loadScriptProviderId = () => loadProviderId(SCRIPT_PROVIDER_STORAGE_KEY, SCRIPT_PROVIDERS);
+
+export const saveTtsProviderId = (id: string) => localStorage.setItem(TTS_PROVIDER_STORAGE_KEY, id);
+export const saveImageProviderId = (id: string) => localStorage.setItem(IMAGE_PROVIDER_STORAGE_KEY, id);
+export const saveScriptProviderId = (id: string) => localStorage.setItem(SCRIPT_PROVIDER_STORAGE_KEY, id);
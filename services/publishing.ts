@@ -0,0 +1,240 @@
+import { GeneratedMetadata } from '../types';
+import { loadImage } from './videoRenderer';
+import { createZip } from './zip';
+
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+
+// YouTube's upload limits
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_TAGS_LENGTH = 500;
+// More than 15 hashtags and YouTube ignores all of them
+const MAX_HASHTAGS = 15;
+// Chapters only show when there are at least 3, each at least 10 seconds long
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 10;
+
+// Keeps the thumbnail under YouTube's 2 MB limit with room to spare
+const THUMBNAIL_QUALITY = 0.9;
+const HEADLINE_MAX_LINES = 3;
+
+export interface Chapter {
+  /** Seconds from the start of the video */
+  start: number;
+  title: string;
+}
+
+/**
+ * Everything needed to fill in the upload form
+ */
+export interface PublishingPackage extends GeneratedMetadata {
+  /** The title option picked for the upload */
+  title: string;
+  chapters: Chapter[];
+}
+
+const dedupe = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Keeps tags in order until YouTube's 500-character budget runs out.
+ * Tags are counted with their separating commas, and tags with spaces
+ * count two more for the quotes YouTube adds around them.
+ */
+export const fitTags = (tags: string[]): string[] => {
+  const kept: string[] = [];
+  let length = 0;
+  for (const tag of tags) {
+    const cost = tag.length + (tag.includes(' ') ? 2 : 0) + (kept.length > 0 ? 1 : 0);
+    if (length + cost > MAX_TAGS_LENGTH) break;
+    kept.push(tag);
+    length += cost;
+  }
+  return kept;
+};
+
+/**
+ * Cleans model output up to what YouTube accepts: trimmed and de-duplicated
+ * titles, tags without # signs, hashtags without spaces, and one chapter
+ * title per scene
+ */
+export const normalizeMetadata = (raw: Partial<GeneratedMetadata>, sceneCount: number): GeneratedMetadata => {
+  const titles = dedupe((raw.titles ?? []).map(title => title.trim().slice(0, MAX_TITLE_LENGTH)));
+  const tags = fitTags(dedupe((raw.tags ?? []).map(tag => tag.replace(/[#<>,]/g, '').replace(/\s+/g, ' ').trim())));
+  const hashtags = dedupe((raw.hashtags ?? [])
+    .map(tag => tag.replace(/[^\p{L}\p{N}_]/gu, ''))
+    .filter(Boolean)
+    .map(tag => `#${tag}`))
+    .slice(0, MAX_HASHTAGS);
+  const chapterTitles = Array.from({ length: sceneCount }, (_, index) => raw.chapterTitles?.[index]?.trim() || `Part ${index + 1}`);
+
+  return {
+    titles: titles.length > 0 ? titles : ['Untitled Fact Video'],
+    description: (raw.description ?? '').trim(),
+    tags,
+    hashtags,
+    thumbnailText: (raw.thumbnailText ?? '').trim(),
+    chapterTitles,
+  };
+};
+
+/**
+ * Chapter markers from each scene's narration length. Scenes too short to
+ * be a chapter of their own are folded into the one before, and nothing is
+ * returned when YouTube wouldn't show the chapters anyway.
+ */
+export const buildChapters = (durations: number[], titles: string[]): Chapter[] => {
+  if (durations.length < MIN_CHAPTERS) return [];
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  const chapters: Chapter[] = [];
+  let start = 0;
+  durations.forEach((duration, index) => {
+    const previous = chapters[chapters.length - 1];
+    if (!previous || start - previous.start >= MIN_CHAPTER_SECONDS) {
+      chapters.push({ start, title: titles[index] ?? `Part ${index + 1}` });
+    }
+    start += duration;
+  });
+  // A short last scene joins the chapter before it
+  if (chapters.length > 1 && total - chapters[chapters.length - 1].start < MIN_CHAPTER_SECONDS) chapters.pop();
+  return chapters.length >= MIN_CHAPTERS ? chapters : [];
+};
+
+/**
+ * 0:00, 12:34 or 1:02:03, the formats YouTube turns into chapter links
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * The description as pasted into YouTube: the copy, then chapters and hashtags
+ */
+export const composeDescription = (pkg: PublishingPackage): string => {
+  const parts = [pkg.description];
+  if (pkg.chapters.length > 0) {
+    parts.push(pkg.chapters.map(chapter => `${formatTimestamp(chapter.start)} ${chapter.title}`).join('\n'));
+  }
+  if (pkg.hashtags.length > 0) parts.push(pkg.hashtags.join(' '));
+  return parts.filter(Boolean).join('\n\n').slice(0, MAX_DESCRIPTION_LENGTH);
+};
+
+export const metadataToText = (pkg: PublishingPackage): string => [
+  `TITLE\n${pkg.title}`,
+  `ALTERNATIVE TITLES\n${pkg.titles.filter(title => title !== pkg.title).join('\n')}`,
+  `DESCRIPTION\n${composeDescription(pkg)}`,
+  `TAGS\n${pkg.tags.join(', ')}`,
+  `HASHTAGS\n${pkg.hashtags.join(' ')}`,
+].join('\n\n') + '\n';
+
+/**
+ * Breaks the headline into lines that fit `maxWidth`
+ */
+const wrapHeadline = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * A 1280x720 JPEG thumbnail: the scene image cropped to fill the frame, a
+ * dark gradient for contrast and the headline in large outlined capitals,
+ * shrunk until it fits in three lines
+ */
+export const renderThumbnail = async (imageUrl: string, headline: string): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas for the thumbnail.');
+  }
+
+  const image = await loadImage(imageUrl);
+  const scale = Math.max(THUMBNAIL_WIDTH / image.width, THUMBNAIL_HEIGHT / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (THUMBNAIL_WIDTH - drawWidth) / 2, (THUMBNAIL_HEIGHT - drawHeight) / 2, drawWidth, drawHeight);
+
+  const text = headline.trim().toUpperCase();
+  if (text) {
+    const gradient = ctx.createLinearGradient(0, THUMBNAIL_HEIGHT * 0.35, 0, THUMBNAIL_HEIGHT);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.75)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+    const margin = THUMBNAIL_WIDTH * 0.05;
+    const maxWidth = THUMBNAIL_WIDTH - margin * 2;
+    let fontSize = 150;
+    let lines: string[];
+    do {
+      ctx.font = `900 ${fontSize}px Impact, "Arial Black", sans-serif`;
+      lines = wrapHeadline(ctx, text, maxWidth);
+      fontSize -= 6;
+    } while (fontSize > 40 && (lines.length > HEADLINE_MAX_LINES || lines.some(line => ctx.measureText(line).width > maxWidth)));
+
+    const size = fontSize + 6;
+    const lineHeight = size * 1.05;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = size * 0.14;
+    ctx.strokeStyle = '#000';
+    lines.forEach((line, index) => {
+      const y = THUMBNAIL_HEIGHT - margin - (lines.length - 1 - index) * lineHeight;
+      ctx.strokeText(line, margin, y);
+      // Alternate the accent colour per line, a staple of fact-video thumbnails
+      ctx.fillStyle = index % 2 === 0 ? '#ffffff' : '#facc15';
+      ctx.fillText(line, margin, y);
+    });
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail.'))), 'image/jpeg', THUMBNAIL_QUALITY)
+  );
+};
+
+/**
+ * metadata.json for tools, metadata.txt for copy-pasting, and the thumbnail
+ */
+export const buildPublishingBundle = async (pkg: PublishingPackage, thumbnail: Blob | null): Promise<Blob> =>
+  createZip([
+    {
+      name: 'metadata.json',
+      data: JSON.stringify({
+        title: pkg.title,
+        titleOptions: pkg.titles,
+        description: composeDescription(pkg),
+        tags: pkg.tags,
+        hashtags: pkg.hashtags,
+        chapters: pkg.chapters.map(chapter => ({ ...chapter, timestamp: formatTimestamp(chapter.start) })),
+        thumbnailText: pkg.thumbnailText,
+        thumbnail: thumbnail ? 'thumbnail.jpg' : null,
+      }, null, 2),
+    },
+    { name: 'metadata.txt', data: metadataToText(pkg) },
+    ...(thumbnail ? [{ name: 'thumbnail.jpg', data: thumbnail }] : []),
+  ]);
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiRequestError, abortableDelay, classifyError, createAbortError, isAbortError, scheduleRequest } from './requestScheduler';
+
+const MODEL = 'test-model';
+
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it.each([
+    [httpError(429), 'rate-limit'],
+    [new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'), 'rate-limit'],
+    [httpError(401), 'auth'],
+    [httpError(403), 'auth'],
+    [new Error('API key not valid. Please pass a valid API key.'), 'auth'],
+    [httpError(503), 'server'],
+    [new Error('got status 500 from upstream'), 'server'],
+    [new Error('Response was blocked due to SAFETY'), 'safety'],
+    [httpError(400, 'Invalid aspect ratio'), 'invalid-request'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [createAbortError(), 'aborted'],
+    [new Error('Something odd'), 'unknown'],
+  ])('classifies %s as %s', (error, kind) => {
+    expect(classifyError(error, MODEL).kind).toBe(kind);
+  });
+
+  it('retries only transient failures', () => {
+    expect(classifyError(httpError(429), MODEL).retryable).toBe(true);
+    expect(classifyError(httpError(502), MODEL).retryable).toBe(true);
+    expect(classifyError(new TypeError('Failed to fetch'), MODEL).retryable).toBe(true);
+    expect(classifyError(httpError(401), MODEL).retryable).toBe(false);
+    expect(classifyError(createAbortError(), MODEL).retryable).toBe(false);
+  });
+
+  it('reads the server retry hint', () => {
+    expect(classifyError(new Error('429 {"retryDelay": "27s"}'), MODEL).retryAfterMs).toBe(27_000);
+    expect(classifyError(new Error('Quota exceeded. Please retry in 3.2s.'), MODEL).retryAfterMs).toBe(3200);
+  });
+
+  it('keeps errors that are already classified', () => {
+    const error = new ApiRequestError('safety', 'Blocked.');
+    expect(classifyError(error, MODEL)).toBe(error);
+    expect(isAbortError(classifyError(createAbortError(), MODEL))).toBe(true);
+  });
+});
+
+describe('abortableDelay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves after the delay', async () => {
+    const done = vi.fn();
+    abortableDelay(500).then(done);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('rejects when the signal aborts, or already has', async () => {
+    const controller = new AbortController();
+    const delay = abortableDelay(500, controller.signal);
+    controller.abort();
+    await expect(delay).rejects.toThrow('cancelled');
+    await expect(abortableDelay(500, controller.signal)).rejects.toThrow('cancelled');
+  });
+});
+
+describe('scheduleRequest', () => {
+  let model = 0;
+  const nextModel = () => `scheduler-test-${++model}`;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue('image');
+    const onRetry = vi.fn();
+    const result = scheduleRequest(nextModel(), task, { rpm: 100, onRetry });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('image');
+    expect(onRetry.mock.calls.map(([attempt, error]) => [attempt, error.kind])).toEqual([[1, 'server'], [2, 'rate-limit']]);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('429 Please retry in 5s'))
+      .mockResolvedValue('audio');
+    const result = scheduleRequest(nextModel(), task, { rpm: 100 });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('audio');
+  });
+
+  it('fails at once on errors a retry cannot fix', async () => {
+    const task = vi.fn().mockRejectedValue(httpError(401));
+    const onRetry = vi.fn();
+    await expect(scheduleRequest(nextModel(), task, { rpm: 100, onRetry })).rejects.toMatchObject({ kind: 'auth', status: 401 });
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('stops after maxRetries', async () => {
+    const task = vi.fn().mockRejectedValue(httpError(500));
+    const result = scheduleRequest(nextModel(), task, { rpm: 100, maxRetries: 2 });
+    const settled = expect(result).rejects.toMatchObject({ kind: 'server' });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports a cancel during the backoff as aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(httpError(500));
+    const result = scheduleRequest(nextModel(), task, { rpm: 100, signal: controller.signal });
+    const settled = expect(result).rejects.toMatchObject({ kind: 'aborted' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds requests over the per-minute limit until a slot frees up', async () => {
+    const name = nextModel();
+    const task = vi.fn().mockResolvedValue('ok');
+    await scheduleRequest(name, task, { rpm: 2 });
+    await scheduleRequest(name, task, { rpm: 2 });
+    const third = scheduleRequest(name, task, { rpm: 2 });
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1100);
+    await expect(third).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
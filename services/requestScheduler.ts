@@ -0,0 +1,179 @@
+export type ApiErrorKind =
+  | 'rate-limit'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'invalid-request'
+  | 'safety'
+  | 'aborted'
+  | 'unknown';
+
+const RETRYABLE_KINDS: ApiErrorKind[] = ['rate-limit', 'server', 'network'];
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+const WINDOW_MS = 60_000;
+
+/**
+ * An API failure after classification and any retries, with a message fit
+ * for the error box instead of the raw JSON the SDK throws
+ */
+export class ApiRequestError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiRequestError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') ||
+  (error instanceof ApiRequestError && error.kind === 'aborted');
+
+export const createAbortError = (): DOMException => new DOMException('The request was cancelled.', 'AbortError');
+
+/**
+ * Server hints for when to retry: RetryInfo.retryDelay ("27s") in the error
+ * details, or "Please retry in 27.3s" in the message
+ */
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps anything a provider throws onto an ApiRequestError kind. Works on the
+ * SDK's ApiError (which carries `status`) as well as fetch/network failures.
+ */
+export const classifyError = (error: unknown, model: string): ApiRequestError => {
+  if (error instanceof ApiRequestError) return error;
+  if (isAbortError(error)) {
+    return new ApiRequestError('aborted', 'The request was cancelled.', { cause: error });
+  }
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : Number(raw.match(/\b(4\d\d|5\d\d)\b/)?.[1]) || undefined;
+  const retryAfterMs = parseRetryAfterMs(raw);
+  const details = { status, retryAfterMs, cause: error };
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(raw)) {
+    return new ApiRequestError('rate-limit', `Rate limit reached for ${model}. Wait a minute or lower the number of parallel requests.`, details);
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(raw)) {
+    return new ApiRequestError('auth', 'The API key was rejected. Check that it is valid and has access to this model.', details);
+  }
+  if (status && status >= 500) {
+    return new ApiRequestError('server', `${model} is temporarily unavailable (HTTP ${status}).`, details);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(raw)) {
+    return new ApiRequestError('safety', 'The request was blocked by the safety filter. Try rewording the prompt.', details);
+  }
+  if (status && status >= 400) {
+    return new ApiRequestError('invalid-request', `${model} rejected the request: ${raw}`, details);
+  }
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(raw)) {
+    return new ApiRequestError('network', 'Network error. Check your connection.', details);
+  }
+  return new ApiRequestError('unknown', raw, details);
+};
+
+/**
+ * Resolves after `ms`, or rejects as soon as `signal` aborts
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Start times of recent requests per model, for the sliding one-minute window
+const recentRequests = new Map<string, number[]>();
+
+/**
+ * Waits until `model` has a free slot in its requests-per-minute budget and
+ * claims it. Slots are claimed synchronously after each wait, so concurrent
+ * callers can't overshoot the limit.
+ */
+const acquireSlot = async (model: string, rpm: number, signal?: AbortSignal): Promise<void> => {
+  while (true) {
+    const now = Date.now();
+    const times = (recentRequests.get(model) ?? []).filter(time => now - time < WINDOW_MS);
+    recentRequests.set(model, times);
+    if (times.length < rpm) {
+      times.push(now);
+      return;
+    }
+    await abortableDelay(times[0] + WINDOW_MS - now + 50, signal);
+  }
+};
+
+/**
+ * Exponential backoff with full jitter, never shorter than the server's hint
+ */
+const backoffDelay = (attempt: number, retryAfterMs?: number): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+export interface ScheduleOptions {
+  /** Requests per minute allowed for this model */
+  rpm: number;
+  signal?: AbortSignal;
+  maxRetries?: number;
+  /** Called before each retry, e.g. to show that the request is being retried */
+  onRetry?: (attempt: number, error: ApiRequestError) => void;
+}
+
+/**
+ * Runs one API call through the per-model rate limiter, retrying transient
+ * failures (429, 5xx, network) with backoff. Everything else, including
+ * cancellation, surfaces immediately as an ApiRequestError.
+ */
+export const scheduleRequest = async <T>(
+  model: string,
+  task: (signal?: AbortSignal) => Promise<T>,
+  { rpm, signal, maxRetries = DEFAULT_MAX_RETRIES, onRetry }: ScheduleOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await acquireSlot(model, rpm, signal);
+      return await task(signal);
+    } catch (error) {
+      const classified = classifyError(signal?.aborted ? createAbortError() : error, model);
+      if (!classified.retryable || attempt >= maxRetries) {
+        throw classified;
+      }
+      onRetry?.(attempt + 1, classified);
+      try {
+        await abortableDelay(backoffDelay(attempt, classified.retryAfterMs), signal);
+      } catch (abort) {
+        throw classifyError(abort, model);
+      }
+    }
+  }
+};
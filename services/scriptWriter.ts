@@ -0,0 +1,35 @@
+import { GeneratedScript, Scene, ScriptTone } from '../types';
+import { createScene } from './project';
+
+// Typical narration pace at 1.0x (~150 words per minute)
+const WORDS_PER_SECOND = 2.5;
+
+export const SCRIPT_TONES: { id: ScriptTone; label: string }[] = [
+  { id: 'curious', label: 'Curious' },
+  { id: 'dramatic', label: 'Dramatic' },
+  { id: 'humorous', label: 'Humorous' },
+  { id: 'educational', label: 'Educational' },
+  { id: 'upbeat', label: 'Upbeat' },
+];
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * How many words fit in `seconds` of narration at the given speaking rate
+ */
+export const estimateWordBudget = (seconds: number, speakingRate: number = 1.0): number =>
+  Math.max(10, Math.round(seconds * WORDS_PER_SECOND * speakingRate));
+
+export const estimateSpeechSeconds = (text: string, speakingRate: number = 1.0): number =>
+  countWords(text) / (WORDS_PER_SECOND * Math.max(0.1, speakingRate));
+
+/**
+ * Turns a written script into storyboard scenes, one per segment
+ */
+export const scriptToScenes = (script: GeneratedScript, voice: string, speakingRate: number): Scene[] =>
+  script.segments.map(segment => createScene({
+    narrationText: segment.narration,
+    visualPrompt: segment.visualPrompt,
+    voice,
+    speakingRate,
+  }));
@@ -0,0 +1,75 @@
+import { ImageRequest, StylePreset } from '../types';
+import { createId } from './project';
+import { loadImage } from './videoRenderer';
+
+const STYLE_PRESETS_STORAGE_KEY = 'STYLE_PRESETS';
+const REFERENCE_MAX_EDGE = 768; // plenty for style guidance, small enough for localStorage
+export const MAX_REFERENCE_IMAGES = 3;
+
+export const loadStylePresets = (): StylePreset[] => {
+  try {
+    const saved = localStorage.getItem(STYLE_PRESETS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Throws when the presets don't fit in localStorage, so callers can tell the
+ * user to drop a reference image instead of silently losing the preset
+ */
+export const saveStylePresets = (presets: StylePreset[]) => {
+  try {
+    localStorage.setItem(STYLE_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    throw new Error('Not enough browser storage for these style presets. Remove a reference image and try again.');
+  }
+};
+
+export const createStylePreset = (name: string = 'New style'): StylePreset => ({
+  id: createId(),
+  name,
+  promptSuffix: '',
+  negativePrompt: '',
+  referenceImages: [],
+});
+
+/**
+ * Downscales an uploaded (or generated) image to a compact JPEG data URL for
+ * use as a reference
+ */
+export const prepareReferenceImage = async (source: Blob | string): Promise<string> => {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, REFERENCE_MAX_EDGE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas for the reference image.');
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Folds a style preset into an image request: the suffix extends the prompt,
+ * references and negative guidance travel alongside for the provider to attach
+ */
+export const applyStylePreset = (request: ImageRequest, preset?: StylePreset | null): ImageRequest => {
+  if (!preset) return request;
+  const suffix = preset.promptSuffix.trim();
+  const negative = preset.negativePrompt.trim();
+  return {
+    ...request,
+    prompt: suffix ? `${request.prompt.trim().replace(/[.,;\s]+$/, '')}, ${suffix}` : request.prompt,
+    referenceImages: preset.referenceImages.length > 0 ? preset.referenceImages : request.referenceImages,
+    negativePrompt: negative || request.negativePrompt,
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { resampleLinear, wsolaStretch } from './timeStretch';
+
+const SAMPLE_RATE = 8000;
+
+const sine = (frequency: number, seconds: number) => {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+};
+
+/**
+ * Frequency from upward zero crossings, skipping the edges where frames fade
+ */
+const measuredFrequency = (data: Float32Array) => {
+  const margin = Math.round(0.05 * SAMPLE_RATE);
+  let crossings = 0;
+  for (let i = margin + 1; i < data.length - margin; i++) {
+    if (data[i - 1] < 0 && data[i] >= 0) crossings++;
+  }
+  return crossings / ((data.length - 2 * margin) / SAMPLE_RATE);
+};
+
+const rms = (data: Float32Array) => Math.sqrt(data.reduce((sum, value) => sum + value * value, 0) / data.length);
+
+describe('wsolaStretch', () => {
+  it('returns exactly round(length / rate) samples', () => {
+    const input = sine(220, 1);
+    for (const rate of [0.5, 0.8, 1.25, 1.5, 2]) {
+      expect(wsolaStretch(input, rate, SAMPLE_RATE)).toHaveLength(Math.round(input.length / rate));
+    }
+  });
+
+  it('copies the input at rate 1', () => {
+    const input = sine(220, 0.5);
+    const output = wsolaStretch(input, 1, SAMPLE_RATE);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('changes the duration without changing the pitch or level', () => {
+    const input = sine(220, 1);
+    for (const rate of [0.75, 1.5]) {
+      const output = wsolaStretch(input, rate, SAMPLE_RATE);
+      expect(measuredFrequency(output)).toBeGreaterThan(210);
+      expect(measuredFrequency(output)).toBeLessThan(230);
+      expect(rms(output)).toBeCloseTo(rms(input), 1);
+    }
+  });
+});
+
+describe('resampleLinear', () => {
+  it('shortens the audio and raises the pitch by the factor', () => {
+    const output = resampleLinear(sine(200, 1), 1.5);
+    expect(output).toHaveLength(Math.round(SAMPLE_RATE / 1.5));
+    expect(measuredFrequency(output)).toBeGreaterThan(290);
+    expect(measuredFrequency(output)).toBeLessThan(310);
+  });
+
+  it('interpolates between samples', () => {
+    expect(Array.from(resampleLinear(new Float32Array([0, 1, 0, -1]), 0.5))).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+  });
+});
@@ -0,0 +1,142 @@
+const FRAME_SECONDS = 0.03; // analysis window, long enough to hold a couple of pitch periods
+const TOLERANCE_SECONDS = 0.01; // how far WSOLA may shift a frame to stay in phase
+const CORRELATION_STRIDE = 4; // correlate on every 4th sample; plenty for speech, 4x faster
+
+export interface VoiceProcessingOptions {
+  /** >1 speeds up, <1 slows down; output duration is exactly input / rate */
+  speakingRate: number;
+  /** Pitch shift in semitones, independent of speed */
+  pitchSemitones?: number;
+}
+
+const hannWindow = (size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return window;
+};
+
+/**
+ * Finds the offset in [-tolerance, tolerance] around `position` whose frame
+ * best matches `template` (cross-correlation), so consecutive frames overlap
+ * in phase and don't produce the phasey/choppy sound of plain OLA.
+ */
+const bestOffset = (
+  input: Float32Array,
+  position: number,
+  templateStart: number,
+  frameSize: number,
+  tolerance: number
+): number => {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let offset = -tolerance; offset <= tolerance; offset++) {
+    const start = position + offset;
+    if (start < 0 || start + frameSize > input.length) continue;
+    let score = 0;
+    for (let i = 0; i < frameSize; i += CORRELATION_STRIDE) {
+      score += input[start + i] * input[templateStart + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = offset;
+    }
+  }
+  return best;
+};
+
+/**
+ * Pitch-preserving time stretch using WSOLA (waveform similarity overlap-add).
+ * `rate` > 1 shortens the audio; the result is exactly round(length / rate)
+ * samples long.
+ */
+export const wsolaStretch = (input: Float32Array, rate: number, sampleRate: number): Float32Array => {
+  const outputLength = Math.max(1, Math.round(input.length / rate));
+  if (Math.abs(rate - 1) < 1e-3) {
+    return input.slice(0, outputLength);
+  }
+
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const synthesisHop = Math.floor(frameSize / 2);
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const window = hannWindow(frameSize);
+
+  // Pad so frames near the edges have data on both sides
+  const padded = new Float32Array(input.length + 2 * frameSize + 2 * tolerance);
+  padded.set(input, frameSize + tolerance);
+  const base = frameSize + tolerance;
+
+  const output = new Float32Array(outputLength + frameSize);
+  const weight = new Float32Array(outputLength + frameSize);
+
+  let previousStart = base;
+  for (let outPos = 0, frame = 0; outPos < outputLength; outPos += synthesisHop, frame++) {
+    const nominal = base + Math.round(frame * analysisHop);
+    let start = nominal;
+    if (frame > 0) {
+      // Natural continuation of the previous frame is the template to match
+      const template = previousStart + synthesisHop;
+      if (template + frameSize <= padded.length) {
+        start = nominal + bestOffset(padded, nominal, template, frameSize, tolerance);
+      }
+    }
+    start = Math.min(Math.max(0, start), padded.length - frameSize);
+
+    for (let i = 0; i < frameSize && outPos + i < output.length; i++) {
+      output[outPos + i] += padded[start + i] * window[i];
+      weight[outPos + i] += window[i];
+    }
+    previousStart = start;
+  }
+
+  const result = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = weight[i] > 1e-3 ? output[i] / weight[i] : 0;
+  }
+  return result;
+};
+
+/**
+ * Linear-interpolation resampler used for pitch shifting: reading the input
+ * `factor` times faster raises pitch by `factor` and shortens it accordingly
+ */
+export const resampleLinear = (input: Float32Array, factor: number): Float32Array => {
+  const outputLength = Math.max(1, Math.round(input.length / factor));
+  const output = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * factor;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = input[Math.min(index, input.length - 1)];
+    const b = input[Math.min(index + 1, input.length - 1)];
+    output[i] = a + (b - a) * fraction;
+  }
+  return output;
+};
+
+/**
+ * Applies speaking rate and pitch to decoded narration. Pitch shift is done by
+ * stretching to compensate and then resampling, so both controls stay
+ * independent and the output is exactly duration / speakingRate long.
+ */
+export const processVoice = (buffer: AudioBuffer, { speakingRate, pitchSemitones = 0 }: VoiceProcessingOptions): AudioBuffer => {
+  const rate = Math.min(4, Math.max(0.25, speakingRate || 1));
+  const pitchFactor = 2 ** (pitchSemitones / 12);
+  if (Math.abs(rate - 1) < 1e-3 && Math.abs(pitchFactor - 1) < 1e-3) {
+    return buffer;
+  }
+
+  const targetLength = Math.max(1, Math.round(buffer.length / rate));
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, 1, buffer.sampleRate);
+  const output = ctx.createBuffer(buffer.numberOfChannels, targetLength, buffer.sampleRate);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const stretched = wsolaStretch(buffer.getChannelData(channel), rate / pitchFactor, buffer.sampleRate);
+    const shifted = Math.abs(pitchFactor - 1) < 1e-3 ? stretched : resampleLinear(stretched, pitchFactor);
+    // Rounding in the two stages can leave a sample or two over/under the target
+    output.getChannelData(channel).set(shifted.subarray(0, targetLength));
+  }
+  return output;
+};
@@ -0,0 +1,301 @@
+import { GenerationMode, Scene } from '../types';
+import { keyHint } from './apiKeys';
+import { createId } from './project';
+import { estimateSpeechSeconds } from './scriptWriter';
+
+export type UsageKind = 'narration' | 'image';
+
+export interface UsageRecord {
+  id: string;
+  /** Epoch milliseconds when the call started */
+  timestamp: number;
+  /** Last characters of the API key; the key itself is never stored here */
+  keyId: string;
+  kind: UsageKind;
+  providerId: string;
+  model: string;
+  characters: number;
+  audioSeconds: number;
+  images: number;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface ModelPrice {
+  perMillionCharacters: number;
+  perAudioMinute: number;
+  perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetAction = 'warn' | 'block';
+
+export interface UsageBudget {
+  /** Daily spend limit in USD, null for none */
+  dailyLimit: number | null;
+  /** Spend limit for the calendar month in USD, null for none */
+  monthlyLimit: number | null;
+  action: BudgetAction;
+}
+
+export interface DailyUsage {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  narrationCalls: number;
+  imageCalls: number;
+  failures: number;
+  characters: number;
+  audioSeconds: number;
+  images: number;
+  cost: number;
+}
+
+export interface BudgetCheck {
+  status: 'ok' | BudgetAction;
+  message: string;
+}
+
+export const NO_KEY_ID = 'no key';
+
+// Published Gemini list prices (USD). TTS bills text tokens in and audio
+// tokens out, approximated here as ~4 characters per token and 25 tokens/s.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash-preview-tts': { perMillionCharacters: 0.125, perAudioMinute: 0.015, perImage: 0 },
+  'gemini-2.5-flash-image': { perMillionCharacters: 0, perAudioMinute: 0, perImage: 0.039 },
+  'mock-tts': { perMillionCharacters: 0, perAudioMinute: 0, perImage: 0 },
+  'mock-image': { perMillionCharacters: 0, perAudioMinute: 0, perImage: 0 },
+};
+
+export const DEFAULT_BUDGET: UsageBudget = {
+  dailyLimit: null,
+  monthlyLimit: null,
+  action: 'warn',
+};
+
+const USAGE_STORAGE_KEY = 'USAGE_LOG';
+const PRICES_STORAGE_KEY = 'USAGE_PRICES';
+const BUDGET_STORAGE_KEY = 'USAGE_BUDGET';
+// Oldest records are dropped beyond this, which keeps the log well under the storage quota
+const MAX_RECORDS = 5000;
+
+export const keyIdFor = (apiKey: string): string => apiKey ? keyHint(apiKey) : NO_KEY_ID;
+
+export const loadUsage = (): UsageRecord[] => {
+  try {
+    const saved = localStorage.getItem(USAGE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearUsage = () => localStorage.removeItem(USAGE_STORAGE_KEY);
+
+/**
+ * Appends one call to the log. Tracking is best-effort: a full storage
+ * quota must never fail the generation it describes.
+ */
+export const recordUsage = (record: Omit<UsageRecord, 'id'>) => {
+  try {
+    const records = [...loadUsage(), { ...record, id: createId() }].slice(-MAX_RECORDS);
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error("Failed to record usage:", error);
+  }
+};
+
+export interface TrackedCall {
+  kind: UsageKind;
+  providerId: string;
+  model: string;
+  apiKey: string;
+  characters?: number;
+  images?: number;
+}
+
+/**
+ * Runs one provider call and records it, successful or not. `measure` reads
+ * the audio length or image count off the result.
+ */
+export const trackUsage = async <T>(
+  call: TrackedCall,
+  task: () => Promise<T>,
+  measure: (result: T) => { audioSeconds?: number; images?: number } = () => ({})
+): Promise<T> => {
+  const timestamp = Date.now();
+  const base = {
+    timestamp,
+    keyId: keyIdFor(call.apiKey),
+    kind: call.kind,
+    providerId: call.providerId,
+    model: call.model,
+    characters: call.characters ?? 0,
+  };
+  try {
+    const result = await task();
+    const { audioSeconds = 0, images = call.images ?? 0 } = measure(result);
+    recordUsage({ ...base, audioSeconds, images, latencyMs: Date.now() - timestamp, success: true });
+    return result;
+  } catch (error) {
+    recordUsage({
+      ...base,
+      audioSeconds: 0,
+      images: 0,
+      latencyMs: Date.now() - timestamp,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+export const loadPrices = (): PriceTable => {
+  try {
+    const saved = localStorage.getItem(PRICES_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PRICES, ...JSON.parse(saved) } : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePrices = (prices: PriceTable) => {
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const loadBudget = (): UsageBudget => {
+  try {
+    const saved = localStorage.getItem(BUDGET_STORAGE_KEY);
+    return saved ? { ...DEFAULT_BUDGET, ...JSON.parse(saved) } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+/**
+ * Estimated cost in USD. Failed calls are counted too, since rejected
+ * requests can still be billed for their input.
+ */
+export const estimateCost = (
+  usage: { model: string; characters: number; audioSeconds: number; images: number },
+  prices: PriceTable
+): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return usage.characters / 1_000_000 * price.perMillionCharacters +
+    usage.audioSeconds / 60 * price.perAudioMinute +
+    usage.images * price.perImage;
+};
+
+const localDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Per-day totals, newest day first
+ */
+export const summarizeByDay = (records: UsageRecord[], prices: PriceTable): DailyUsage[] => {
+  const days = new Map<string, DailyUsage>();
+  for (const record of records) {
+    const date = localDate(record.timestamp);
+    const day = days.get(date) ?? {
+      date,
+      narrationCalls: 0,
+      imageCalls: 0,
+      failures: 0,
+      characters: 0,
+      audioSeconds: 0,
+      images: 0,
+      cost: 0,
+    };
+    if (record.kind === 'narration') day.narrationCalls++;
+    else day.imageCalls++;
+    if (!record.success) day.failures++;
+    day.characters += record.characters;
+    day.audioSeconds += record.audioSeconds;
+    day.images += record.images;
+    day.cost += estimateCost(record, prices);
+    days.set(date, day);
+  }
+  return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Rough cost of reading `text` aloud once. Audio is billed at the voice's
+ * natural pace, before speed changes.
+ */
+export const estimateNarrationCost = (text: string, model: string, prices: PriceTable): number =>
+  estimateCost({ model, characters: text.length, audioSeconds: estimateSpeechSeconds(text), images: 0 }, prices);
+
+/**
+ * Rough cost of `images` generated or edited images; `characters` is the
+ * edit instruction, if any
+ */
+export const estimateImageCost = (images: number, model: string, prices: PriceTable, characters: number = 0): number =>
+  estimateCost({ model, characters, audioSeconds: 0, images }, prices);
+
+/**
+ * Rough cost of generating `scenes` in `mode`, for checking budgets up front
+ */
+export const estimateGenerationCost = (
+  scenes: Pick<Scene, 'narrationText'>[],
+  mode: GenerationMode,
+  models: { tts: string; image: string },
+  prices: PriceTable
+): number => scenes.reduce((total, scene) => {
+  const narration = mode === 'both' || mode === 'narration' ? estimateNarrationCost(scene.narrationText, models.tts, prices) : 0;
+  const image = mode === 'both' || mode === 'image' ? estimateImageCost(1, models.image, prices) : 0;
+  return total + narration + image;
+}, 0);
+
+export const spendSince = (records: UsageRecord[], prices: PriceTable, since: number): number =>
+  records.filter(record => record.timestamp >= since).reduce((total, record) => total + estimateCost(record, prices), 0);
+
+export const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * Compares what this key has spent today and this month, plus the estimated
+ * cost of the upcoming work, against the soft budget
+ */
+export const checkBudget = (
+  budget: UsageBudget,
+  prices: PriceTable,
+  keyId: string,
+  upcomingCost: number,
+  records: UsageRecord[] = loadUsage()
+): BudgetCheck => {
+  const now = new Date();
+  const keyRecords = records.filter(record => record.keyId === keyId);
+  const limits = [
+    { label: 'daily', limit: budget.dailyLimit, since: new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() },
+    { label: 'monthly', limit: budget.monthlyLimit, since: new Date(now.getFullYear(), now.getMonth(), 1).getTime() },
+  ];
+
+  for (const { label, limit, since } of limits) {
+    if (limit === null) continue;
+    const projected = spendSince(keyRecords, prices, since) + upcomingCost;
+    if (projected > limit) {
+      return {
+        status: budget.action,
+        message: `This would bring the ${label} spend to about ${formatCost(projected)}, over the ${formatCost(limit)} budget.`,
+      };
+    }
+  }
+  return { status: 'ok', message: '' };
+};
+
+/**
+ * Budget check for a single call made outside a generation run (an image
+ * edit, variations, a voice sample), with the saved budget and prices.
+ * `estimate` prices the call.
+ */
+export const checkCallBudget = (apiKey: string, estimate: (prices: PriceTable) => number): BudgetCheck => {
+  const prices = loadPrices();
+  return checkBudget(loadBudget(), prices, keyIdFor(apiKey), estimate(prices));
+};
@@ -0,0 +1,285 @@
+import { CaptionCue, OverlayLayer } from '../types';
+import { loadAudioBuffer, concatAudioBuffers } from './audioUtils';
+import { drawCaptions } from './captions';
+import { drawOverlays, loadOverlayImages } from './overlays';
+
+export interface VideoSegment {
+  imageUrl: string;
+  audioUrl: string;
+  captions?: CaptionCue[]; // burned in when present
+  /** Layers already resolved for this scene */
+  overlays?: OverlayLayer[];
+}
+
+/**
+ * Everything on screen at one moment of a scene
+ */
+export interface SceneFrame {
+  image: CanvasImageSource & { width: number; height: number };
+  /** Seconds into the scene's narration */
+  time: number;
+  duration: number;
+  captions?: CaptionCue[];
+  overlays?: OverlayLayer[];
+  overlayImages?: Map<string, HTMLImageElement>;
+}
+
+export interface RenderVideoOptions {
+  segments: VideoSegment[];
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** Replaces the concatenated narration as the video's audio (e.g. a music mix of the same length) */
+  soundtrackUrl?: string;
+  onProgress?: (progress: number) => void;
+}
+
+export interface RenderedVideo {
+  url: string;
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+// Ordered by preference: MP4 uploads straight to YouTube, WebM is the universal fallback
+const CANDIDATE_MIME_TYPES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+const KEN_BURNS_START_SCALE = 1.0;
+const KEN_BURNS_END_SCALE = 1.2;
+
+export const pickVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return CANDIDATE_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for rendering.'));
+    image.src = url;
+  });
+
+/**
+ * Draws a single Ken Burns frame: a slow zoom-in with a gentle diagonal pan.
+ * `progress` runs from 0 (first frame) to 1 (last frame).
+ */
+export const drawKenBurnsFrame = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource & { width: number; height: number },
+  progress: number,
+  width: number,
+  height: number
+) => {
+  const t = Math.min(1, Math.max(0, progress));
+  // Ease in/out so the motion doesn't start or stop abruptly
+  const eased = t * t * (3 - 2 * t);
+  const scale = KEN_BURNS_START_SCALE + (KEN_BURNS_END_SCALE - KEN_BURNS_START_SCALE) * eased;
+
+  // "Cover" fit the image to the frame before zooming
+  const coverScale = Math.max(width / image.width, height / image.height) * scale;
+  const drawWidth = image.width * coverScale;
+  const drawHeight = image.height * coverScale;
+
+  // Pan from the top-left of the available slack towards the centre
+  const slackX = drawWidth - width;
+  const slackY = drawHeight - height;
+  const x = -slackX * (0.35 + 0.15 * eased);
+  const y = -slackY * (0.35 + 0.15 * eased);
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+};
+
+/**
+ * Composites one frame: Ken Burns image, overlay layers, then captions on top.
+ * The preview, still export and video renderer all draw through this.
+ */
+export const drawSceneFrame = (
+  ctx: CanvasRenderingContext2D,
+  { image, time, duration, captions, overlays, overlayImages }: SceneFrame,
+  width: number,
+  height: number
+) => {
+  drawKenBurnsFrame(ctx, image, duration > 0 ? time / duration : 0, width, height);
+  if (overlays?.length) drawOverlays(ctx, overlays, overlayImages ?? new Map(), time, duration, width, height);
+  if (captions) drawCaptions(ctx, captions, time, width, height);
+};
+
+/**
+ * A single frame as a PNG, exactly as it appears in the video
+ */
+export const renderFrame = async (
+  frame: Omit<SceneFrame, 'image' | 'overlayImages'> & { imageUrl: string },
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas for rendering.');
+  }
+  const [image, overlayImages] = await Promise.all([loadImage(frame.imageUrl), loadOverlayImages(frame.overlays ?? [])]);
+  drawSceneFrame(ctx, { ...frame, image, overlayImages }, width, height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the frame.'))), 'image/png')
+  );
+};
+
+/**
+ * Resolves after `seconds` of audio time. The audio thread keeps running in a
+ * background tab, where requestAnimationFrame stops and timers are throttled
+ * to once a second or less, so an export paced by this keeps its frame rate.
+ * The silent node has to reach an output to be processed at all.
+ */
+const waitOnAudioClock = (audioContext: AudioContext, output: AudioNode, seconds: number): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = audioContext.createConstantSource();
+    timer.offset.value = 0;
+    timer.connect(output);
+    timer.onended = () => {
+      timer.disconnect();
+      resolve();
+    };
+    timer.start();
+    timer.stop(audioContext.currentTime + seconds);
+  });
+
+/**
+ * Renders the generated scenes (image + narration each) into a single video file.
+ * Uses canvas.captureStream + MediaRecorder, so rendering runs in real time
+ * (a 30s narration takes ~30s to render).
+ */
+export const renderVideo = async ({
+  segments,
+  width = 1920,
+  height = 1080,
+  fps = 30,
+  soundtrackUrl,
+  onProgress,
+}: RenderVideoOptions): Promise<RenderedVideo> => {
+  if (segments.length === 0) {
+    throw new Error('Nothing to render.');
+  }
+  const mimeType = pickVideoMimeType();
+  if (!mimeType) {
+    throw new Error('Video recording is not supported in this browser.');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas for rendering.');
+  }
+
+  const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+  try {
+    const [images, audioBuffers, overlayImages] = await Promise.all([
+      Promise.all(segments.map(segment => loadImage(segment.imageUrl))),
+      Promise.all(segments.map(segment => loadAudioBuffer(segment.audioUrl, audioContext))),
+      loadOverlayImages(segments.flatMap(segment => segment.overlays ?? [])),
+    ]);
+    const audioBuffer = soundtrackUrl
+      ? await loadAudioBuffer(soundtrackUrl, audioContext)
+      : concatAudioBuffers(audioBuffers, audioContext);
+    const duration = audioBuffer.duration;
+
+    // Each scene gets its own Ken Burns move spanning exactly its narration
+    const segmentStarts: number[] = [];
+    audioBuffers.reduce((start, buffer) => {
+      segmentStarts.push(start);
+      return start + buffer.duration;
+    }, 0);
+    const drawAt = (elapsed: number) => {
+      let index = segmentStarts.length - 1;
+      while (index > 0 && elapsed < segmentStarts[index]) index--;
+      drawSceneFrame(ctx, {
+        image: images[index],
+        time: elapsed - segmentStarts[index],
+        duration: audioBuffers[index].duration,
+        captions: segments[index].captions,
+        overlays: segments[index].overlays,
+        overlayImages,
+      }, width, height);
+    };
+
+    // Audio: route the narration into a MediaStream instead of the speakers
+    const audioDestination = audioContext.createMediaStreamDestination();
+    const source = audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(audioDestination);
+
+    // Video: draw the first frame before capture starts so the file never opens on black
+    drawAt(0);
+    const videoStream = canvas.captureStream(fps);
+    const stream = new MediaStream([
+      ...videoStream.getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: 8_000_000,
+      audioBitsPerSecond: 128_000,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Video recording failed.'));
+    });
+
+    await audioContext.resume();
+    recorder.start(1000);
+    const startTime = audioContext.currentTime;
+    source.start(startTime);
+
+    // Frames are paced by the audio clock rather than requestAnimationFrame, so
+    // switching tabs mid-export neither stalls it nor drops frames
+    let lastReported = -1;
+    while (true) {
+      const elapsed = audioContext.currentTime - startTime;
+      const progress = Math.min(1, elapsed / duration);
+      drawAt(Math.min(elapsed, duration));
+
+      // Throttle progress callbacks to whole percents to avoid re-render storms
+      const percent = Math.floor(progress * 100);
+      if (percent !== lastReported) {
+        lastReported = percent;
+        onProgress?.(progress);
+      }
+
+      if (elapsed >= duration) break;
+      await waitOnAudioClock(audioContext, audioDestination, 1 / fps);
+    }
+
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+
+    const baseType = mimeType.split(';')[0];
+    const blob = new Blob(chunks, { type: baseType });
+    return {
+      url: URL.createObjectURL(blob),
+      blob,
+      mimeType: baseType,
+      extension: baseType === 'video/mp4' ? 'mp4' : 'webm',
+    };
+  } finally {
+    audioContext.close();
+  }
+};
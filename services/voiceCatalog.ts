@@ -0,0 +1,146 @@
+export type VoiceGender = 'female' | 'male';
+
+export interface VoiceInfo {
+  name: string;
+  gender: VoiceGender;
+  /** Google's one-word character for the voice */
+  tone: string;
+}
+
+/**
+ * A named delivery the user reuses across scenes: voice, pace and a style
+ * direction sent with every narration request
+ */
+export interface VoicePreset {
+  id: string;
+  name: string;
+  voice: string;
+  speakingRate: number;
+  /** e.g. "excited documentary narrator"; empty for a plain read */
+  direction: string;
+}
+
+export interface VoiceFilter {
+  query: string;
+  gender: VoiceGender | 'any';
+  tone: string;
+}
+
+/**
+ * Every prebuilt Gemini TTS voice. The first five were the app's original
+ * picker and stay first, since dialogue speakers fall back in this order.
+ */
+export const VOICE_CATALOG: VoiceInfo[] = [
+  { name: 'Kore', gender: 'female', tone: 'Firm' },
+  { name: 'Puck', gender: 'male', tone: 'Upbeat' },
+  { name: 'Charon', gender: 'male', tone: 'Informative' },
+  { name: 'Fenrir', gender: 'male', tone: 'Excitable' },
+  { name: 'Zephyr', gender: 'female', tone: 'Bright' },
+  { name: 'Leda', gender: 'female', tone: 'Youthful' },
+  { name: 'Orus', gender: 'male', tone: 'Firm' },
+  { name: 'Aoede', gender: 'female', tone: 'Breezy' },
+  { name: 'Callirrhoe', gender: 'female', tone: 'Easy-going' },
+  { name: 'Autonoe', gender: 'female', tone: 'Bright' },
+  { name: 'Enceladus', gender: 'male', tone: 'Breathy' },
+  { name: 'Iapetus', gender: 'male', tone: 'Clear' },
+  { name: 'Umbriel', gender: 'male', tone: 'Easy-going' },
+  { name: 'Algieba', gender: 'male', tone: 'Smooth' },
+  { name: 'Despina', gender: 'female', tone: 'Smooth' },
+  { name: 'Erinome', gender: 'female', tone: 'Clear' },
+  { name: 'Algenib', gender: 'male', tone: 'Gravelly' },
+  { name: 'Rasalgethi', gender: 'male', tone: 'Informative' },
+  { name: 'Laomedeia', gender: 'female', tone: 'Upbeat' },
+  { name: 'Achernar', gender: 'female', tone: 'Soft' },
+  { name: 'Alnilam', gender: 'male', tone: 'Firm' },
+  { name: 'Schedar', gender: 'male', tone: 'Even' },
+  { name: 'Gacrux', gender: 'female', tone: 'Mature' },
+  { name: 'Pulcherrima', gender: 'female', tone: 'Forward' },
+  { name: 'Achird', gender: 'male', tone: 'Friendly' },
+  { name: 'Zubenelgenubi', gender: 'male', tone: 'Casual' },
+  { name: 'Vindemiatrix', gender: 'female', tone: 'Gentle' },
+  { name: 'Sadachbia', gender: 'male', tone: 'Lively' },
+  { name: 'Sadaltager', gender: 'male', tone: 'Knowledgeable' },
+  { name: 'Sulafat', gender: 'female', tone: 'Warm' },
+];
+
+export const VOICE_TONES: string[] = Array.from(new Set(VOICE_CATALOG.map(voice => voice.tone))).sort();
+
+export const ANY_FILTER: VoiceFilter = { query: '', gender: 'any', tone: 'any' };
+
+// Short enough to cost next to nothing, long enough to hear pace and timbre
+export const PREVIEW_TEXT = 'Did you know that octopuses have three hearts? Two pump blood to the gills, and one to the rest of the body.';
+
+const PRESETS_STORAGE_KEY = 'VOICE_PRESETS';
+const PREVIEW_CACHE_NAME = 'voice-previews-v1';
+
+export const findVoice = (name: string): VoiceInfo | undefined => VOICE_CATALOG.find(voice => voice.name === name);
+
+export const filterVoices = ({ query, gender, tone }: VoiceFilter): VoiceInfo[] => {
+  const needle = query.trim().toLowerCase();
+  return VOICE_CATALOG.filter(voice =>
+    (gender === 'any' || voice.gender === gender)
+    && (tone === 'any' || voice.tone === tone)
+    && (!needle || voice.name.toLowerCase().includes(needle) || voice.tone.toLowerCase().includes(needle)));
+};
+
+export const loadVoicePresets = (): VoicePreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveVoicePresets = (presets: VoicePreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const createVoicePreset = (overrides: Partial<Omit<VoicePreset, 'id'>> = {}): VoicePreset => ({
+  id: crypto.randomUUID(),
+  name: 'My narrator',
+  voice: VOICE_CATALOG[0].name,
+  speakingRate: 1,
+  direction: '',
+  ...overrides,
+});
+
+// Previews go in the Cache Storage API, which keeps audio across reloads
+// without the size limits of localStorage. Keys are never fetched.
+const previewKey = (providerId: string, voice: string) => `/voice-previews/${encodeURIComponent(providerId)}/${encodeURIComponent(voice)}.wav`;
+
+// Fallback for browsers (or insecure origins) without Cache Storage: previews last for the session
+const sessionPreviews = new Map<string, Blob>();
+
+export const getCachedPreview = async (providerId: string, voice: string): Promise<Blob | null> => {
+  const key = previewKey(providerId, voice);
+  if (typeof caches === 'undefined') return sessionPreviews.get(key) ?? null;
+  const response = await (await caches.open(PREVIEW_CACHE_NAME)).match(key);
+  return response ? response.blob() : null;
+};
+
+export const storePreview = async (providerId: string, voice: string, blob: Blob): Promise<void> => {
+  const key = previewKey(providerId, voice);
+  if (typeof caches === 'undefined') {
+    sessionPreviews.set(key, blob);
+    return;
+  }
+  await (await caches.open(PREVIEW_CACHE_NAME)).put(key, new Response(blob, { headers: { 'Content-Type': blob.type || 'audio/wav' } }));
+};
+
+/**
+ * Voices that already have a stored preview for the provider
+ */
+export const listCachedPreviews = async (providerId: string): Promise<Set<string>> => {
+  if (typeof caches === 'undefined') {
+    return new Set(VOICE_CATALOG.filter(voice => sessionPreviews.has(previewKey(providerId, voice.name))).map(voice => voice.name));
+  }
+  const keys = await (await caches.open(PREVIEW_CACHE_NAME)).keys();
+  const paths = new Set(keys.map(request => new URL(request.url).pathname));
+  return new Set(VOICE_CATALOG.filter(voice => paths.has(previewKey(providerId, voice.name))).map(voice => voice.name));
+};
+
+export const clearVoicePreviews = async (): Promise<void> => {
+  sessionPreviews.clear();
+  if (typeof caches !== 'undefined') await caches.delete(PREVIEW_CACHE_NAME);
+};
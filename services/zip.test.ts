@@ -0,0 +1,89 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const text = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+/**
+ * A one-entry archive with a deflated file, as other ZIP tools write them
+ */
+const deflatedZip = (name: string, content: string): Blob => {
+  const nameBytes = new TextEncoder().encode(name);
+  const raw = new TextEncoder().encode(content);
+  const data = new Uint8Array(deflateRawSync(raw));
+  const bytes = new Uint8Array(30 + nameBytes.length + data.length + 46 + nameBytes.length + 22);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(8, 8, true);
+  view.setUint32(18, data.length, true);
+  view.setUint32(22, raw.length, true);
+  view.setUint16(26, nameBytes.length, true);
+  bytes.set(nameBytes, 30);
+  bytes.set(data, 30 + nameBytes.length);
+
+  const central = 30 + nameBytes.length + data.length;
+  view.setUint32(central, 0x02014b50, true);
+  view.setUint16(central + 10, 8, true);
+  view.setUint32(central + 16, crc32(raw), true);
+  view.setUint32(central + 20, data.length, true);
+  view.setUint32(central + 24, raw.length, true);
+  view.setUint16(central + 28, nameBytes.length, true);
+  bytes.set(nameBytes, central + 46);
+
+  const end = central + 46 + nameBytes.length;
+  view.setUint32(end, 0x06054b50, true);
+  view.setUint16(end + 8, 1, true);
+  view.setUint16(end + 10, 1, true);
+  view.setUint32(end + 12, 46 + nameBytes.length, true);
+  view.setUint32(end + 16, central, true);
+  return new Blob([bytes]);
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip and readZip', () => {
+  it('round-trips strings, bytes and blobs under their paths', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 255]);
+    const zip = await createZip([
+      { name: 'project.json', data: '{"format":"test"}' },
+      { name: 'media/scene-1.wav', data: bytes },
+      { name: 'media/scène 2.png', data: new Blob(['png']) },
+    ]);
+    expect(zip.type).toBe('application/zip');
+
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual(['project.json', 'media/scene-1.wav', 'media/scène 2.png']);
+    expect(text(files.get('project.json'))).toBe('{"format":"test"}');
+    expect(Array.from(files.get('media/scene-1.wav')!)).toEqual([0, 1, 2, 255]);
+    expect(text(files.get('media/scène 2.png'))).toBe('png');
+  });
+
+  it('writes stored entries with their CRC', async () => {
+    const zip = new Uint8Array(await (await createZip([{ name: 'a.txt', data: '123456789' }])).arrayBuffer());
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(18, true)).toBe(9);
+  });
+
+  it('reads an empty archive', async () => {
+    expect((await readZip(await createZip([]))).size).toBe(0);
+  });
+
+  it('reads deflated entries', async () => {
+    const content = 'Octopuses have three hearts. '.repeat(20);
+    const files = await readZip(deflatedZip('notes.txt', content));
+    expect(text(files.get('notes.txt'))).toBe(content);
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    await expect(readZip(new Blob(['{"format":"test"}']))).rejects.toThrow('Not a ZIP archive.');
+  });
+});
@@ -7,21 +7,302 @@ declare global {
 
 export type GenerationMode = 'both' | 'image' | 'narration';
 
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5';
+
 export interface GenerationState {
   isGenerating: boolean;
-  stage: 'idle' | 'generating-audio' | 'generating-visuals' | 'complete' | 'error';
+  stage: 'idle' | 'generating-audio' | 'generating-visuals' | 'rendering-video' | 'complete' | 'error';
   error: string | null;
   progressMessage: string;
+  progress?: number; // 0..1, only reported by long-running stages such as video rendering
+}
+
+export interface Scene {
+  id: string;
+  narrationText: string;
+  visualPrompt: string;
+  voice: string;
+  speakingRate: number;
+  pitchSemitones?: number;
+  /** Read `Speaker: line` labels as a dialogue, with a voice per speaker */
+  dialogue: boolean;
+  /** Voice per speaker when the narration is a `Speaker: line` dialogue */
+  speakerVoices?: Record<string, string>;
+  /** Style preset attached to this scene's image request */
+  stylePresetId?: string;
+  /** Delivery direction sent with every narration request, e.g. "excited documentary narrator" */
+  direction?: string;
+}
+
+export type OverlayAnimation = 'none' | 'fade' | 'slide-up' | 'slide-left' | 'pop';
+
+interface OverlayBase {
+  id: string;
+  /** 'all' repeats the layer on every scene */
+  sceneId: string | 'all';
+  /** Anchor position as fractions of the frame (0..1) */
+  x: number;
+  y: number;
+  opacity: number;
+  /** Seconds into the scene's narration; end null lasts until the scene ends */
+  start: number;
+  end: number | null;
+  animationIn: OverlayAnimation;
+  animationOut: OverlayAnimation;
+  animationSeconds: number;
+}
+
+export interface TextOverlay extends OverlayBase {
+  kind: 'text';
+  /** `{n}` becomes the scene number and `{title}` the project title */
+  text: string;
+  fontFamily: string;
+  fontWeight: number;
+  /** Fraction of the frame's shorter side */
+  fontSize: number;
+  color: string;
+  strokeColor: string;
+  /** Fraction of the font size; 0 for no outline */
+  strokeWidth: number;
+  align: 'left' | 'center' | 'right';
+  /** Box behind the text (lower thirds); null for none */
+  backgroundColor: string | null;
+}
+
+export interface ImageOverlay extends OverlayBase {
+  kind: 'image';
+  /** PNG data URL */
+  imageUrl: string;
+  /** Fraction of the frame width */
+  width: number;
+}
+
+export type OverlayLayer = TextOverlay | ImageOverlay;
+
+export interface Project {
+  id: string;
+  title: string;
+  /** Output format for images, preview and video export */
+  aspectRatio: AspectRatio;
+  scenes: Scene[];
+  /** Text and image layers drawn over the video, bottom to top */
+  overlays?: OverlayLayer[];
+}
+
+export interface CaptionWord {
+  text: string;
+  start: number; // seconds from the start of the scene's narration
+  end: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: CaptionWord[];
+}
+
+export interface ImageVersion {
+  id: string;
+  imageUrl: string;
+  /** The version this one was derived from; null for the first generation */
+  parentId: string | null;
+  label: string;
+  createdAt: number;
+}
+
+/**
+ * Every image a scene has had, as a tree: edits and picked variations branch
+ * off whichever version was current, so undo walks back to the parent and
+ * no earlier branch is ever lost.
+ */
+export interface ImageVersionTree {
+  versions: ImageVersion[];
+  currentId: string;
+}
+
+/**
+ * Tags embedded in exported audio (ID3, Vorbis comments, RIFF INFO)
+ */
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string;
+}
+
+/**
+ * Non-destructive narration edits, always applied to the original take
+ */
+export interface AudioEditSettings {
+  /** Kept range of the original take, in seconds */
+  trimStart: number;
+  trimEnd: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  /** Integrated loudness target in LUFS, null to leave the level alone */
+  targetLufs: number | null;
 }
 
 export interface GeneratedContent {
+  sceneId?: string;
   audioUrl?: string | null;
+  audioDuration?: number;
+  captions?: CaptionCue[];
   imageUrl?: string | null;
+  /** The image as generated, kept so repeated reframes always crop from the full frame */
+  originalImageUrl?: string;
+  /** Edits and picked variations of this scene's image; imageUrl is the current version */
+  imageVersions?: ImageVersionTree;
+  /** The narration as generated, kept so audio edits never compound */
+  originalAudio?: { url: string; duration?: number; captions?: CaptionCue[] };
+  audioEdit?: AudioEditSettings;
   narrationText: string;
   visualPrompt: string;
+  voice?: string;
+  speakingRate?: number;
   mode: GenerationMode;
 }
 
+export interface TtsRequest {
+  text: string;
+  voiceName: string;
+  /** Applied by post-processing; providers always synthesize at natural pace */
+  speakingRate: number;
+  pitchSemitones?: number;
+  apiKey: string;
+  /** Voice per speaker; only set when the text is to be read as a dialogue */
+  speakerVoices?: Record<string, string>;
+  /** Director's note prepended to the text, e.g. `Say in this style: whispering` */
+  styleNote?: string;
+  /** Style for the whole narration, merged into each part's director's note */
+  direction?: string;
+  signal?: AbortSignal;
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number) => void;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  apiKey: string;
+  /** Distinguishes variations of the same prompt */
+  seed?: number;
+  /** Data URLs sent as extra image parts to keep characters and style consistent */
+  referenceImages?: string[];
+  /** Things the image should avoid */
+  negativePrompt?: string;
+  signal?: AbortSignal;
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number) => void;
+}
+
+/**
+ * Reusable look for a channel or series, applied to every image request of
+ * the scenes that select it
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  promptSuffix: string;
+  negativePrompt: string;
+  /** Downscaled JPEG data URLs */
+  referenceImages: string[];
+}
+
+export interface ImageEditRequest {
+  /** Data or blob URL of the image to edit */
+  imageUrl: string;
+  instruction: string;
+  /** Output format the edited image must keep */
+  aspectRatio: AspectRatio;
+  apiKey: string;
+  signal?: AbortSignal;
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number) => void;
+}
+
+export interface TtsProvider {
+  id: string;
+  label: string;
+  description: string;
+  /** Model name used for usage tracking and pricing */
+  model: string;
+  requiresApiKey: boolean;
+  synthesize(request: TtsRequest): Promise<AudioBuffer>;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  description: string;
+  /** Model name used for usage tracking and pricing */
+  model: string;
+  requiresApiKey: boolean;
+  /** Resolves to an image data URL */
+  generate(request: ImageRequest): Promise<string>;
+  /** Applies a natural-language edit to an existing image; resolves to a data URL */
+  edit(request: ImageEditRequest): Promise<string>;
+}
+
+export type ScriptTone = 'curious' | 'dramatic' | 'humorous' | 'educational' | 'upbeat';
+
+export interface ScriptRequest {
+  topic: string;
+  tone: ScriptTone;
+  audience: string;
+  targetSeconds: number;
+  factCount: number;
+  speakingRate: number;
+  apiKey: string;
+  signal?: AbortSignal;
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number) => void;
+}
+
+export interface ScriptSegment {
+  kind: 'hook' | 'fact' | 'outro';
+  narration: string;
+  visualPrompt: string;
+}
+
+export interface GeneratedScript {
+  title: string;
+  segments: ScriptSegment[];
+}
+
+export interface MetadataRequest {
+  title: string;
+  scenes: { narration: string; visualPrompt: string }[];
+  apiKey: string;
+  signal?: AbortSignal;
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number) => void;
+}
+
+/**
+ * Upload copy for a finished video, as written by the model
+ */
+export interface GeneratedMetadata {
+  titles: string[];
+  description: string;
+  tags: string[];
+  hashtags: string[];
+  /** A few punchy words for the thumbnail */
+  thumbnailText: string;
+  /** One short label per scene, used for chapter markers */
+  chapterTitles: string[];
+}
+
+export interface ScriptProvider {
+  id: string;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  writeScript(request: ScriptRequest): Promise<GeneratedScript>;
+  writeMetadata(request: MetadataRequest): Promise<GeneratedMetadata>;
+}
+
 export interface IconProps {
   className?: string;
 }
\ No newline at end of file